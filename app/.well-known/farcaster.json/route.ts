@@ -1,6 +1,16 @@
 import { withValidManifest } from "@coinbase/onchainkit/minikit";
+import { ManifestError, checkManifest, publishedManifest } from "@/lib/manifest";
 import { minikitConfig } from "../../../minikit.config";
 
+// Built once by `next build`, so a manifest that is not ready to publish fails the build.
+export const dynamic = "force-static";
+
 export async function GET() {
-  return Response.json(withValidManifest(minikitConfig));
+  const issues = await checkManifest(minikitConfig);
+  if (issues.length > 0) {
+    // Development and `MANIFEST_CHECK=warn` builds serve what there is, like withValidManifest does on its own.
+    if (process.env.NODE_ENV === "production" && process.env.MANIFEST_CHECK !== "warn") throw new ManifestError(issues);
+    console.warn(new ManifestError(issues).message);
+  }
+  return Response.json(withValidManifest(publishedManifest(minikitConfig)));
 }
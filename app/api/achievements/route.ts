@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AchievementError, parseUnlocked } from "@/lib/achievements";
+import { authenticate } from "@/lib/auth";
+import { addAchievements, getAchievements } from "@/lib/profiles";
+
+// Returns the achievements saved for the signed-in player.
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json({ achievements: await getAchievements(auth.fid) });
+}
+
+// Adds this device's unlocks to the saved ones and returns the combined set.
+export async function PUT(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const achievements = await addAchievements(auth.fid, parseUnlocked(body));
+    return NextResponse.json({ achievements });
+  } catch (e) {
+    if (e instanceof AchievementError) {
+      return NextResponse.json({ message: e.message }, { status: 422 });
+    }
+    throw e;
+  }
+}
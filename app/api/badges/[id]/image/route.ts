@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { badgeSvg, parseBadgeId } from "@/lib/badges";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const level = parseBadgeId((await params).id);
+  if (level === null) {
+    return NextResponse.json({ message: "Unknown badge" }, { status: 404 });
+  }
+
+  return new Response(badgeSvg(level), {
+    headers: { "Content-Type": "image/svg+xml", "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { badgeMetadata, parseBadgeId } from "@/lib/badges";
+
+// ERC-1155 metadata for the badge of one level; the contract's uri points here.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const level = parseBadgeId((await params).id);
+  if (level === null) {
+    return NextResponse.json({ message: "Unknown badge" }, { status: 404 });
+  }
+
+  return NextResponse.json(badgeMetadata(level), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getChallenge } from "@/lib/challenges";
+import { matchLocale } from "@/lib/i18n";
+import { localizedLevels } from "@/lib/levels";
+import { cardTranslator, renderCard } from "@/lib/shareCards";
+
+// The card a challenge unfurls into: the board and the score to beat, in the `?lang=` of the player who cast it.
+// A challenge never changes, so it caches for a day.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const challenge = await getChallenge((await params).id);
+  if (!challenge) {
+    return NextResponse.json({ message: "no such challenge" }, { status: 404 });
+  }
+  const { t, formatNumber, locale } = cardTranslator(matchLocale([request.nextUrl.searchParams.get("lang")]));
+  const { theme } = localizedLevels(locale)[challenge.level - 1];
+
+  return renderCard(
+    <div style={{ display: "flex", flexDirection: "column" }}>
+      <div style={{ fontSize: 40, opacity: 0.8 }}>{t("challengeCard.title")}</div>
+      <div style={{ fontSize: 72, fontWeight: 700, marginTop: 16 }}>{theme}</div>
+      <div style={{ fontSize: 36, opacity: 0.8, marginTop: 8 }}>
+        {t("challengeCard.board", { level: challenge.level, difficulty: t(`difficulty.${challenge.difficulty}`) })}
+      </div>
+      <div style={{ display: "flex", alignItems: "baseline", marginTop: 64 }}>
+        <div style={{ fontSize: 44 }}>{t("challengeCard.toBeat")}</div>
+        <div style={{ fontSize: 120, fontWeight: 700, marginLeft: 32 }}>{formatNumber(challenge.target)}</div>
+      </div>
+    </div>,
+    { maxAge: 86400 },
+  );
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { ChallengeError, answerChallenge, getChallenge, getChallengeResults } from "@/lib/challenges";
+import { RunRejectedError, parseRunSubmission } from "@/lib/scores";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The challenge's board and score to beat, with everyone who has taken it so far.
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const challenge = await getChallenge(id);
+  if (!challenge) {
+    return NextResponse.json({ message: "no such challenge" }, { status: 404 });
+  }
+  return NextResponse.json({ challenge, results: await getChallengeResults(id) });
+}
+
+// Submits a run on the challenge's board and returns how it compares to the target.
+export async function POST(request: NextRequest, { params }: Params) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const result = await answerChallenge((await params).id, auth.fid, parseRunSubmission(body));
+    return NextResponse.json({ result }, { status: 201 });
+  } catch (e) {
+    if (e instanceof ChallengeError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    if (e instanceof RunRejectedError) {
+      return NextResponse.json({ message: e.message }, { status: 422 });
+    }
+    throw e;
+  }
+}
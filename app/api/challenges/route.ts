@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { challengeUrl, createChallenge } from "@/lib/challenges";
+import { RunRejectedError, parseRunSubmission } from "@/lib/scores";
+
+// Turns a finished level's move log into a challenge; its replayed score is the target.
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const challenge = await createChallenge(auth.fid, parseRunSubmission(body));
+    return NextResponse.json({ challenge, url: challengeUrl(challenge.id) }, { status: 201 });
+  } catch (e) {
+    if (e instanceof RunRejectedError) {
+      return NextResponse.json({ message: e.message }, { status: 422 });
+    }
+    throw e;
+  }
+}
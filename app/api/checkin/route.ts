@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { CheckInError, checkIn, getStreak, parseCheckInProof } from "@/lib/checkIns";
+import { utcDay } from "@/lib/gm";
+
+// The signed-in player's streak as of today (UTC), with today's day number to sign.
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  const now = Date.now();
+  return NextResponse.json({ day: utcDay(now), streak: await getStreak(auth.fid, now) });
+}
+
+// Today's check-in, proven by a GM signature or transaction. The reward is only granted once this succeeds.
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const { streak } = await checkIn(auth.fid, parseCheckInProof(body));
+    return NextResponse.json({ streak }, { status: 201 });
+  } catch (e) {
+    if (e instanceof CheckInError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+}
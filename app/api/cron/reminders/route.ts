@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDailyBoardAnnouncement, runStreakReminders } from "@/lib/reminders";
+
+// Long enough to pace a full run of notifications under the send rate limit.
+export const maxDuration = 300;
+
+// GET /api/cron/reminders?job=streak|daily, called by the scheduler in vercel.json with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  switch (request.nextUrl.searchParams.get("job")) {
+    case "streak":
+      return NextResponse.json(await runStreakReminders());
+    case "daily":
+      return NextResponse.json(await runDailyBoardAnnouncement());
+    default:
+      return NextResponse.json({ message: "job must be streak or daily" }, { status: 400 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { HintPurchaseError, parseHintPurchase, redeemHintPurchase } from "@/lib/hintPurchases";
+
+// Redeems a `buyHints` transaction. The game only grants the hints once this succeeds.
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const purchase = await redeemHintPurchase(auth.fid, parseHintPurchase(body));
+    return NextResponse.json({ purchase }, { status: 201 });
+  } catch (e) {
+    if (e instanceof HintPurchaseError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+}
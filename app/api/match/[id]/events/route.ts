@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MatchError, getMatch, matchView, subscribe, type MatchView } from "@/lib/match";
+
+export const dynamic = "force-dynamic";
+
+const KEEP_ALIVE_MS = 15_000;
+
+/**
+ * Server-sent events for a match. The full state is sent on connect and after
+ * every move, so a client that reconnects (EventSource does this on its own)
+ * is caught up by the first message.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let initial: MatchView;
+  try {
+    initial = matchView(await getMatch(id));
+  } catch (e) {
+    if (e instanceof MatchError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream closed under us; stop listening.
+          close();
+        }
+      };
+      const send = (view: MatchView) => write(`id: ${view.version}\nevent: match\ndata: ${JSON.stringify(view)}\n\n`);
+      send(initial);
+      const unsubscribe = subscribe(id, send);
+      // A move made while this request was loading the match was published before we subscribed.
+      getMatch(id).then((match) => send(matchView(match)), () => undefined);
+      const keepAlive = setInterval(() => write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+      close = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away.
+        }
+      };
+      request.signal.addEventListener("abort", () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
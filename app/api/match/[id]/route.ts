@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { MatchError, findSeat, getMatch, joinMatch, matchView, parseMatchRequest, playMatchMove } from "@/lib/match";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The current state of a match as everyone watching it sees it.
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    return NextResponse.json({ match: matchView(await getMatch((await params).id)) });
+  } catch (e) {
+    if (e instanceof MatchError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+}
+
+// `{ type: "seat" }` returns the caller's seat, if any; `join` takes the empty one; `flip`, `timeout` and `resign` play a move.
+export async function POST(request: NextRequest, { params }: Params) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const move = parseMatchRequest(body);
+    const { match, seat } =
+      move.type === "seat"
+        ? await findSeat(id, auth.fid)
+        : move.type === "join"
+          ? await joinMatch(id, auth.fid)
+          : await playMatchMove(id, auth.fid, move);
+    return NextResponse.json({ match: matchView(match), seat });
+  } catch (e) {
+    if (e instanceof MatchError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { MatchError, createMatch, matchView } from "@/lib/match";
+
+// Opens a 1v1 match on `{ level, difficulty }` with the caller in the first seat; share its id with the opponent.
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const match = await createMatch(auth.fid, body);
+    return NextResponse.json({ match: matchView(match), seat: 0 }, { status: 201 });
+  } catch (e) {
+    if (e instanceof MatchError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+}
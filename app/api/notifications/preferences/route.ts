@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getNotificationPreferences, saveNotificationPreferences } from "@/lib/notifications";
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json(await getNotificationPreferences(auth.fid));
+}
+
+// Partial updates: `{ "streakReminders": false }` opts out of streak reminders and leaves the rest alone.
+export async function PUT(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ message: "Body must be a JSON object" }, { status: 400 });
+  }
+  const update = body as Record<string, unknown>;
+
+  const prefs = await getNotificationPreferences(auth.fid);
+  for (const key of ["streakReminders", "dailyBoard"] as const) {
+    if (update[key] === undefined) continue;
+    if (typeof update[key] !== "boolean") {
+      return NextResponse.json({ message: `${key} must be a boolean` }, { status: 400 });
+    }
+    prefs[key] = update[key];
+  }
+  await saveNotificationPreferences(auth.fid, prefs);
+  return NextResponse.json(prefs);
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { minikitConfig } from "@/minikit.config";
+import { MAX_BODY_LENGTH, MAX_TITLE_LENGTH, sendNotification } from "@/lib/notifications";
+
+/**
+ * Sends a notification to the signed-in player.
+ *
+ * Takes a `{ fid, notification }` body, but only delivers to the caller's own
+ * FID and always uses the tokens stored from the webhook, never details
+ * supplied by the client. Call it with `sdk.quickAuth.fetch`; it is not a
+ * MiniKit `notificationProxyUrl`, whose plain fetch carries no token.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: { fid?: unknown; notification?: { notificationId?: unknown; title?: unknown; body?: unknown } };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  if (body.fid !== undefined && body.fid !== auth.fid) {
+    return NextResponse.json({ message: "Can only notify yourself" }, { status: 403 });
+  }
+  const { notificationId, title, body: text } = body.notification ?? {};
+  if (
+    typeof title !== "string" || !title || title.length > MAX_TITLE_LENGTH ||
+    typeof text !== "string" || !text || text.length > MAX_BODY_LENGTH
+  ) {
+    return NextResponse.json(
+      { message: `notification needs a title (max ${MAX_TITLE_LENGTH}) and body (max ${MAX_BODY_LENGTH})` },
+      { status: 400 },
+    );
+  }
+
+  const result = await sendNotification(auth.fid, {
+    notificationId: typeof notificationId === "string" && notificationId ? notificationId : crypto.randomUUID(),
+    title,
+    body: text,
+    targetUrl: minikitConfig.miniapp.homeUrl,
+  });
+
+  switch (result) {
+    case "success":
+      return NextResponse.json({ success: true });
+    case "rate_limited":
+      return NextResponse.json({ message: "Rate limited" }, { status: 429 });
+    case "no_token":
+    case "invalid_token":
+      return NextResponse.json({ message: "Notifications are not enabled" }, { status: 404 });
+    default:
+      return NextResponse.json({ message: "Failed to send notification" }, { status: 502 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { matchLocale } from "@/lib/i18n";
+import { TOTAL_LEVELS } from "@/lib/levels";
+import { PlayerCardView, cardTranslator, getPlayerCard, renderCard } from "@/lib/shareCards";
+
+// GET /api/og?fid=123&level=3&lang=es: a player's share card, about one cleared level if `level` is given.
+// Share pages add a `v` that changes with the card, so a short cache only matters for links without one.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const fid = Number(params.get("fid"));
+  if (!Number.isInteger(fid) || fid < 1) {
+    return NextResponse.json({ message: "fid: must be a positive integer" }, { status: 400 });
+  }
+  const rawLevel = params.get("level");
+  const level = rawLevel === null ? undefined : Number(rawLevel);
+  if (level !== undefined && (!Number.isInteger(level) || level < 1 || level > TOTAL_LEVELS)) {
+    return NextResponse.json({ message: `level: must be between 1 and ${TOTAL_LEVELS}` }, { status: 400 });
+  }
+
+  const card = await getPlayerCard(fid, level);
+  if (!card) {
+    return NextResponse.json({ message: "no such player" }, { status: 404 });
+  }
+  const translator = cardTranslator(matchLocale([params.get("lang")]));
+  return renderCard(<PlayerCardView card={card} translator={translator} />, { maxAge: 300 });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getProfile, saveProfile } from "@/lib/profiles";
+import { ProgressError, parseProgress } from "@/lib/progress";
+
+// Returns the signed-in player's FID and saved progress (null before their first sync).
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json({ fid: auth.fid, profile: await getProfile(auth.fid) });
+}
+
+export async function PUT(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const profile = await saveProfile(auth.fid, parseProgress(body));
+    return NextResponse.json({ profile });
+  } catch (e) {
+    if (e instanceof ProgressError) {
+      return NextResponse.json({ message: e.message }, { status: 422 });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { DIFFICULTIES, isDifficulty } from "@/lib/difficulty";
+import { TOTAL_LEVELS } from "@/lib/levels";
+import {
+  MAX_PAGE_SIZE,
+  RunRejectedError,
+  getLeaderboard,
+  parseRunSubmission,
+  recordRun,
+  type Leaderboard,
+} from "@/lib/scores";
+
+const BOARDS: Leaderboard[] = ["all", "weekly", "level"];
+
+// Submit a finished level as a move log. The score is recomputed here; the client never sends one.
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const run = await recordRun(auth.fid, parseRunSubmission(body));
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (e) {
+    if (e instanceof RunRejectedError) {
+      return NextResponse.json({ message: e.message }, { status: 422 });
+    }
+    throw e;
+  }
+}
+
+// GET /api/scores?board=all|weekly|level&level=3&mode=easy|normal|hard|expert&page=1&pageSize=20
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const board = (params.get("board") ?? "all") as Leaderboard;
+  if (!BOARDS.includes(board)) {
+    return NextResponse.json({ message: `board must be one of ${BOARDS.join(", ")}` }, { status: 400 });
+  }
+
+  const level = Number(params.get("level"));
+  if (board === "level" && (!Number.isInteger(level) || level < 1 || level > TOTAL_LEVELS)) {
+    return NextResponse.json({ message: `level must be between 1 and ${TOTAL_LEVELS}` }, { status: 400 });
+  }
+
+  // Without a mode, runs from every difficulty are ranked together.
+  const mode = params.get("mode");
+  if (mode !== null && !isDifficulty(mode)) {
+    return NextResponse.json({ message: `mode must be one of ${DIFFICULTIES.join(", ")}` }, { status: 400 });
+  }
+
+  const page = Number(params.get("page") ?? 1);
+  const pageSize = Number(params.get("pageSize") ?? 20);
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return NextResponse.json({ message: `page must be >= 1 and pageSize 1-${MAX_PAGE_SIZE}` }, { status: 400 });
+  }
+
+  return NextResponse.json(await getLeaderboard(board, { level, difficulty: mode ?? undefined, page, pageSize }));
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { issueSeed } from "@/lib/scores";
+
+// The seed for the player's next run; only runs on seeds issued here (or on the daily board) reach the leaderboard.
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request);
+  if ("response" in auth) return auth.response;
+
+  const { seed } = await issueSeed(auth.fid);
+  return NextResponse.json({ seed });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteNotificationDetails, saveNotificationDetails } from "@/lib/notifications";
+import { WebhookError, parseWebhookEvent, verifyAppKeyWithHub } from "@/lib/webhook";
+
+// Receives signed mini app lifecycle events from Farcaster clients (see `webhookUrl` in minikit.config.ts).
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const { fid, appKey, event } = await parseWebhookEvent(body, verifyAppKeyWithHub);
+
+    // Each client signs with its own app key, so events only touch that client's token.
+    switch (event.event) {
+      case "miniapp_added":
+        if (event.notificationDetails) await saveNotificationDetails(fid, appKey, event.notificationDetails);
+        break;
+      case "notifications_enabled":
+        await saveNotificationDetails(fid, appKey, event.notificationDetails);
+        break;
+      case "miniapp_removed":
+      case "notifications_disabled":
+        await deleteNotificationDetails(fid, appKey);
+        break;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    if (e instanceof WebhookError) {
+      return NextResponse.json({ message: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+}
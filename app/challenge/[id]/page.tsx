@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { minikitConfig } from "@/minikit.config";
+import { challengeImageUrl, challengeLaunchUrl, getChallenge } from "@/lib/challenges";
+import { miniappEmbed } from "@/lib/embeds";
+import { createTranslator, matchLocale } from "@/lib/i18n";
+import ShareRedirect from "@/app/components/ShareRedirect";
+
+type Props = { params: Promise<{ id: string }>; searchParams: Promise<{ lang?: string }> };
+
+// Casts of a challenge link unfurl into the score card, with a button that opens the game on the same board.
+// The card and its text are in the `?lang=` the challenger cast it in.
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const challenge = await getChallenge(id);
+  if (!challenge) return { title: minikitConfig.miniapp.name };
+
+  const { t, locale } = createTranslator(matchLocale([(await searchParams).lang]));
+  const title = t("challenge.title", { target: challenge.target, level: challenge.level });
+  return {
+    title,
+    openGraph: { title, images: [challengeImageUrl(id, locale)] },
+    other: miniappEmbed({ imageUrl: challengeImageUrl(id, locale), buttonTitle: t("challenge.take"), url: challengeLaunchUrl(id) }),
+  };
+}
+
+export default async function ChallengePage({ params, searchParams }: Props) {
+  const { id } = await params;
+  const { t } = createTranslator(matchLocale([(await searchParams).lang]));
+  return <ShareRedirect to={`/?challenge=${encodeURIComponent(id)}`} label={t("challenge.open")} />;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import React from "react";
+import { achievementText, type Achievement } from "@/lib/achievements";
+import { useI18n } from "../hooks/useLocale";
+
+const TOAST_MS = 4000;
+
+/** Announces newly unlocked achievements, one toast each, dismissed after a few seconds or on tap. */
+const AchievementToasts: React.FC<{ toasts: Achievement[]; onDismiss: (id: string) => void }> = ({ toasts, onDismiss }) => {
+  const { t } = useI18n();
+  const oldest = toasts[0]?.id;
+
+  // Toasts leave in the order they came, so only the oldest needs a timer.
+  React.useEffect(() => {
+    if (!oldest) return;
+    const id = window.setTimeout(() => onDismiss(oldest), TOAST_MS);
+    return () => clearTimeout(id);
+  }, [oldest, onDismiss]);
+
+  return (
+    <div aria-live="polite" className="fixed top-4 end-4 z-[60] flex flex-col gap-2 w-72">
+      {toasts.map((a) => {
+        const { title, description } = achievementText(a, t);
+        return (
+          <button
+            key={a.id}
+            onClick={() => onDismiss(a.id)}
+            className="flex items-center gap-3 p-3 rounded-xl text-start text-white shadow-lg bg-gradient-to-r from-blue-700 to-purple-700"
+          >
+            <span className="text-3xl" aria-hidden>{a.icon}</span>
+            <span>
+              <span className="block text-xs uppercase opacity-80">{t("achievements.toast")}</span>
+              <span className="block font-bold">{title}</span>
+              <span className="block text-xs opacity-80">{description}</span>
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AchievementToasts;
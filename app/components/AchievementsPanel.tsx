@@ -0,0 +1,42 @@
+"use client";
+
+import React from "react";
+import { ACHIEVEMENTS, achievementText, type UnlockedAchievements } from "@/lib/achievements";
+import { useI18n } from "../hooks/useLocale";
+import Dialog from "./Dialog";
+
+/** "Achievements" modal: every achievement, with the unlocked ones lit up and dated. */
+const AchievementsPanel: React.FC<{ unlocked: UnlockedAchievements; onClose: () => void }> = ({ unlocked, onClose }) => {
+  const { t, locale } = useI18n();
+  const count = ACHIEVEMENTS.filter((a) => a.id in unlocked).length;
+
+  return (
+    <Dialog labelledBy="achievements-title" className="max-w-2xl w-full max-h-[90vh] overflow-y-auto bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+      <h3 id="achievements-title" className="text-2xl font-extrabold mb-2">{t("achievements.title")}</h3>
+      <p className="text-sm opacity-70 mb-6">{t("achievements.count", { count, total: ACHIEVEMENTS.length })}</p>
+
+      <ul className="grid sm:grid-cols-2 gap-3">
+        {ACHIEVEMENTS.map((a) => {
+          const at = unlocked[a.id];
+          const { title, description } = achievementText(a, t);
+          return (
+            <li key={a.id} className={`flex items-center gap-3 p-3 rounded-xl bg-white/5 ${at ? "" : "opacity-40 grayscale"}`}>
+              <span className="text-3xl" aria-hidden>{a.icon}</span>
+              <div>
+                <p className="font-bold">{title}</p>
+                <p className="text-xs opacity-80">{description}</p>
+                <p className="text-xs opacity-60 mt-1">
+                  {at ? t("achievements.unlockedOn", { date: new Date(at).toLocaleDateString(locale) }) : t("achievements.locked")}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button onClick={onClose} className="mt-6 px-4 py-2 border rounded-md">{t("common.close")}</button>
+    </Dialog>
+  );
+};
+
+export default AchievementsPanel;
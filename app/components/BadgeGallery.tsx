@@ -0,0 +1,66 @@
+"use client";
+
+import React from "react";
+import { useReadContract } from "wagmi";
+import type { Address } from "viem";
+import { gameChain } from "@/lib/gameContract";
+import { BADGE_IDS, badgeContractAbi, badgeContractAddress } from "@/lib/badges";
+import { localizedLevels } from "@/lib/levels";
+import { useI18n } from "../hooks/useLocale";
+import Dialog from "./Dialog";
+
+/**
+ * "My Badges" modal: every level badge, with the ones held by `address` lit up.
+ * `refreshKey` changes after a mint so balances are read again.
+ */
+const BadgeGallery: React.FC<{ address?: Address; refreshKey: number; onClose: () => void }> = ({ address, refreshKey, onClose }) => {
+  const { t, locale } = useI18n();
+  const levels = localizedLevels(locale);
+  const { data: balances, isLoading, refetch } = useReadContract({
+    chainId: gameChain.id,
+    address: badgeContractAddress,
+    abi: badgeContractAbi,
+    functionName: "balanceOfBatch",
+    args: address ? [BADGE_IDS.map(() => address), BADGE_IDS] : undefined,
+    query: { enabled: Boolean(address && badgeContractAddress) },
+  });
+
+  React.useEffect(() => {
+    if (refreshKey > 0) void refetch();
+  }, [refreshKey, refetch]);
+
+  const owned = BADGE_IDS.filter((_, i) => (balances?.[i] ?? BigInt(0)) > BigInt(0)).length;
+
+  return (
+    <Dialog labelledBy="badges-title" className="max-w-3xl w-full max-h-[90vh] overflow-y-auto bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+      <h3 id="badges-title" className="text-2xl font-extrabold mb-2">{t("badges.title")}</h3>
+      <p className="text-sm opacity-70 mb-6">
+        {!badgeContractAddress
+          ? t("badges.notConfigured")
+          : !address
+            ? t("badges.connect")
+            : isLoading
+              ? t("badges.loading")
+              : t("badges.collected", { owned, total: BADGE_IDS.length })}
+      </p>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-4">
+        {BADGE_IDS.map((id, i) => {
+          const level = Number(id);
+          const held = (balances?.[i] ?? BigInt(0)) > BigInt(0);
+          return (
+            <figure key={level} className={`text-center transition-opacity ${held ? "" : "opacity-30 grayscale"}`}>
+              {/* eslint-disable-next-line @next/next/no-img-element -- generated SVG served by our own route */}
+              <img src={`/api/badges/${level}/image`} alt={t("badges.alt", { theme: levels[level - 1].theme })} className="w-full rounded-xl" />
+              <figcaption className="text-xs mt-1">{t(held ? "badges.layer" : "badges.layerLocked", { level })}</figcaption>
+            </figure>
+          );
+        })}
+      </div>
+
+      <button onClick={onClose} className="mt-6 px-4 py-2 border rounded-md">{t("common.close")}</button>
+    </Dialog>
+  );
+};
+
+export default BadgeGallery;
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createGameState, reduce } from "@/lib/engine";
+import { axeViolations } from "@/test/axe";
+import CardGrid from "./CardGrid";
+
+const { cards } = reduce(createGameState({ difficulty: "hard" }), { type: "deal", seed: "testseed" }).state;
+const board = cards.map((card, i) => ({ ...card, isFlipped: i < 3, isMatched: i < 2 }));
+
+afterEach(cleanup);
+
+describe("CardGrid", () => {
+  it("has no axe violations", async () => {
+    const { container } = render(<CardGrid cards={board} onFlip={() => {}} />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("names each card by its state, and its text once it is face up", () => {
+    render(<CardGrid cards={board} onFlip={() => {}} />);
+    const [matched, , faceUp, faceDown] = screen.getAllByRole("button");
+    expect(matched.getAttribute("aria-disabled")).toBe("true");
+    expect(faceUp.getAttribute("aria-label")).toContain(board[2].content);
+    expect(faceDown.getAttribute("aria-label")).not.toContain(board[3].content);
+  });
+
+  it("keeps one card in the tab order and moves it with the arrow keys", () => {
+    render(<CardGrid cards={board} onFlip={() => {}} />);
+    const buttons = screen.getAllByRole("button");
+    expect(buttons.filter((b) => b.tabIndex === 0)).toEqual([buttons[0]]);
+
+    buttons[0].focus();
+    fireEvent.keyDown(buttons[0], { key: "ArrowRight" });
+    expect(document.activeElement).toBe(buttons[1]);
+    expect(buttons[1].tabIndex).toBe(0);
+    expect(buttons[0].tabIndex).toBe(-1);
+
+    fireEvent.keyDown(buttons[1], { key: "End", ctrlKey: true });
+    expect(document.activeElement).toBe(buttons.at(-1));
+  });
+
+  it("flips a card with Enter, Space or a click", () => {
+    const onFlip = vi.fn();
+    render(<CardGrid cards={board} onFlip={onFlip} />);
+    const buttons = screen.getAllByRole("button");
+    fireEvent.keyDown(buttons[3], { key: "Enter" });
+    fireEvent.keyDown(buttons[4], { key: " " });
+    fireEvent.click(buttons[5]);
+    expect(onFlip.mock.calls).toEqual([[3], [4], [5]]);
+  });
+});
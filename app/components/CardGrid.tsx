@@ -0,0 +1,63 @@
+"use client";
+
+import React from "react";
+import type { Card } from "@/lib/engine";
+import { useGridNavigation } from "../hooks/useGridNavigation";
+import { useI18n } from "../hooks/useLocale";
+
+// Calculate responsive grid columns based on number of cards dealt
+const gridColumns = (cardCount: number) => {
+  if (cardCount <= 8) return "grid-cols-2 sm:grid-cols-3 md:grid-cols-4";
+  if (cardCount === 10 || cardCount === 15) return "grid-cols-2 sm:grid-cols-3 md:grid-cols-5";
+  return "grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6";
+};
+
+/** The board: one focusable card at a time, moved with the arrow keys, and turned over by click, Enter or Space. */
+const CardGrid: React.FC<{ cards: Card[]; onFlip: (index: number) => void }> = ({ cards, onFlip }) => {
+  const { t } = useI18n();
+  const grid = useGridNavigation(cards.length);
+
+  const onCardKey = (e: React.KeyboardEvent, idx: number) => {
+    if (grid.onKeyDown(e, idx)) return;
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onFlip(idx);
+    }
+  };
+
+  return (
+    <>
+      <p id="board-help" className="sr-only">{t("board.help")}</p>
+      <section ref={grid.gridRef} aria-label={t("board.label")} aria-describedby="board-help" className={`grid gap-4 ${gridColumns(cards.length)}`}>
+        {cards.map((card, idx) => (
+          <div 
+            key={card.id} 
+            className="card-container"
+            onClick={() => onFlip(idx)}
+            onKeyDown={(e) => onCardKey(e, idx)}
+            onFocus={() => grid.onFocus(idx)}
+            tabIndex={grid.tabIndex(idx)}
+            role="button"
+            aria-disabled={card.isMatched}
+            aria-label={
+              t(card.isMatched ? "card.matched" : card.isFlipped ? "card.faceUp" : "card.faceDown", { number: idx + 1, content: card.content })
+            }
+          >
+            <div className={`card-inner ${card.isFlipped || card.isMatched ? "card-flipped" : ""}`}>
+              <div className="card-front">
+                <div className="text-sm uppercase font-semibold opacity-80">
+                  {t(card.isMatched ? "card.matchedMark" : "card.tapToReveal")}
+                </div>
+              </div>
+              <div className={`card-back ${card.isMatched ? "card-matched" : ""}`}>
+                <div className="text-sm font-bold leading-tight">{card.content}</div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </section>
+    </>
+  );
+};
+
+export default CardGrid;
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, within } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { createGameState, currentQuestion, reduce } from "@/lib/engine";
+import { axeViolations } from "@/test/axe";
+import Dialog from "./Dialog";
+import LevelResults from "./LevelResults";
+import { QuizExplanation, QuizQuestion } from "./QuizQuestion";
+
+const game = reduce(createGameState(), { type: "deal", seed: "testseed" }).state;
+const question = currentQuestion(game);
+
+const Quiz = ({ chosen = null }: { chosen?: number | null }) => (
+  <Dialog labelledBy="quiz-title" className="">
+    <h3 id="quiz-title">Layer 1 quiz</h3>
+    <QuizQuestion question={question} chosen={chosen} onAnswer={() => {}} />
+    {chosen !== null && <QuizExplanation question={question} correct={chosen === question.answer} />}
+  </Dialog>
+);
+
+afterEach(cleanup);
+
+describe("Dialog", () => {
+  it("moves focus inside, wraps Tab around and gives focus back on close", () => {
+    const opener = document.body.appendChild(document.createElement("button"));
+    opener.focus();
+    const { unmount } = render(<Quiz />);
+    const options = within(screen.getByRole("dialog")).getAllByRole("button");
+    expect(document.activeElement).toBe(options[0]);
+
+    options.at(-1)!.focus();
+    fireEvent.keyDown(document, { key: "Tab" });
+    expect(document.activeElement).toBe(options[0]);
+    fireEvent.keyDown(document, { key: "Tab", shiftKey: true });
+    expect(document.activeElement).toBe(options.at(-1));
+
+    unmount();
+    expect(document.activeElement).toBe(opener);
+    opener.remove();
+  });
+
+  it("has no axe violations for a quiz, before and after answering", async () => {
+    const { container, rerender } = render(<Quiz />);
+    expect(await axeViolations(container)).toEqual([]);
+    rerender(<Quiz chosen={(question.answer + 1) % question.options.length} />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("has no axe violations for the level results", async () => {
+    const stats = { moves: 9, mismatches: 3, hintsUsed: 1, points: 400 };
+    const { container } = render(<LevelResults level={1} par={{ moves: 8, seconds: 60 }} stats={stats} elapsedMs={75_000} onContinue={() => {}} />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
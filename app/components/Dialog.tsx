@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+
+/** Open dialogs, oldest first; only the newest one holds focus, e.g. the level select over the game complete screen. */
+const openDialogs: HTMLElement[] = [];
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * A modal dialog that keeps keyboard focus inside it. Focus moves to its
+ * first control when it opens, Tab and Shift+Tab wrap around, and focus
+ * goes back to where it was when it closes. Content that swaps out the
+ * focused control (a transaction finishing, say) pulls focus back in on
+ * the next Tab.
+ */
+const Dialog: React.FC<{
+  labelledBy: string;
+  describedBy?: string;
+  className: string;
+  children: React.ReactNode;
+}> = ({ labelledBy, describedBy, className, children }) => {
+  const ref = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    const opener = document.activeElement as HTMLElement | null;
+    openDialogs.push(dialog);
+    const focusable = () => Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE));
+    (focusable()[0] ?? dialog).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Tab" || openDialogs[openDialogs.length - 1] !== dialog) return;
+      const items = focusable();
+      if (items.length === 0) {
+        e.preventDefault();
+        dialog.focus();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      const inside = dialog.contains(document.activeElement);
+      if (!inside || (e.shiftKey && document.activeElement === first)) {
+        e.preventDefault();
+        (e.shiftKey ? last : first).focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      openDialogs.splice(openDialogs.indexOf(dialog), 1);
+      if (opener?.isConnected) opener.focus();
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60">
+      <div ref={ref} role="dialog" aria-modal="true" aria-labelledby={labelledBy} aria-describedby={describedBy} tabIndex={-1} className={className}>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Dialog;
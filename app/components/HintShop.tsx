@@ -0,0 +1,80 @@
+"use client";
+
+import React from "react";
+import { formatEther } from "viem";
+import { canAfford, hintBlocked, type GameState } from "@/lib/engine";
+import { HINT_TYPE_IDS, hintPrice, type HintPayment, type HintType } from "@/lib/hints";
+import { hintPackWei } from "@/lib/gameContract";
+import type { HintPurchaseStatus } from "../hooks/useHintPurchase";
+import { useI18n } from "../hooks/useLocale";
+import Dialog from "./Dialog";
+
+interface HintShopProps {
+  game: GameState;
+  onUse: (hint: HintType, payWith: HintPayment) => void;
+  /** Omitted when hints can't be bought onchain here. */
+  purchase?: { status: HintPurchaseStatus; error: string | null; onBuy: () => void };
+  onClose: () => void;
+}
+
+/**
+ * Hint shop modal: every hint type with its price in hints and in points,
+ * and a pack of hints to buy onchain. Hints can't be used while a turn is
+ * being resolved or once the board is cleared; the reason is shown instead.
+ */
+const HintShop: React.FC<HintShopProps> = ({ game, onUse, purchase, onClose }) => {
+  const { t } = useI18n();
+  const blocked = hintBlocked(game);
+  const busy = purchase?.status === "paying" || purchase?.status === "verifying";
+
+  return (
+    <Dialog labelledBy="hint-shop-title" className="max-w-lg w-full max-h-[90vh] overflow-y-auto bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+      <h3 id="hint-shop-title" className="text-2xl font-extrabold mb-2">{t("hints.title")}</h3>
+      <p className="text-sm opacity-70 mb-6">
+        {t("hints.held", { count: game.freeHints + game.hints })}
+        {game.freeHints > 0 && ` ${t("hints.free", { count: game.freeHints })}`} · {t("hints.points", { count: game.score })}
+      </p>
+      {blocked && <p className="text-sm font-bold mb-4">{t(`hints.blocked.${blocked}`)}</p>}
+
+      <ul className="space-y-3">
+        {HINT_TYPE_IDS.map((hint) => (
+          <li key={hint} className="p-3 rounded-xl bg-white/5">
+            <p className="font-bold">{t(`hint.${hint}.label`)}</p>
+            <p className="text-xs opacity-70 mb-2">{t(`hint.${hint}.description`)}</p>
+            <div className="flex gap-2">
+              {(["hints", "points"] as const).map((payWith) => {
+                const price = hintPrice(hint, payWith, game.level);
+                return (
+                  <button
+                    key={payWith}
+                    onClick={() => onUse(hint, payWith)}
+                    disabled={Boolean(blocked) || !canAfford(game, hint, payWith)}
+                    className="px-3 py-1 text-sm border rounded-md disabled:opacity-40"
+                  >
+                    {t(payWith === "hints" ? "hints.held" : "hints.points", { count: price })}
+                  </button>
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {purchase && (
+        <div className="mt-6 p-3 rounded-xl bg-white/5">
+          <p className="font-bold">{t("hints.topUp")}</p>
+          <p className="text-xs opacity-70 mb-2">{t("hints.packInfo", { price: formatEther(hintPackWei) })}</p>
+          <button onClick={purchase.onBuy} disabled={busy} className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md disabled:opacity-50">
+            {t(purchase.status === "paying" ? "hints.confirmInWallet" : purchase.status === "verifying" ? "hints.confirming" : "hints.buy")}
+          </button>
+          {purchase.status === "no-wallet" && <p className="text-xs text-red-400 mt-2">{t("hints.connectWallet")}</p>}
+          {purchase.status === "error" && purchase.error && <p className="text-xs text-red-400 mt-2">{purchase.error}</p>}
+        </div>
+      )}
+
+      <button onClick={onClose} className="mt-6 px-4 py-2 border rounded-md">{t("common.close")}</button>
+    </Dialog>
+  );
+};
+
+export default HintShop;
@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { localizedLevels, TOTAL_LEVELS } from "@/lib/levels";
+import type { LevelRecord } from "@/lib/saveGame";
+import { requirementText, totalStars, unlockStatus } from "@/lib/unlocks";
+import { useI18n } from "../hooks/useLocale";
+import Dialog from "./Dialog";
+
+/**
+ * Level select: every level with its best score and stars. Choosing a level
+ * deals it without touching overall progress. Without `onClose` the player
+ * has to pick a level, e.g. when the next one is still locked.
+ */
+const LevelMap: React.FC<{
+  currentLevel: number;
+  furthestLevel: number;
+  records: Record<number, LevelRecord>;
+  notice?: string;
+  onSelect: (level: number) => void;
+  onClose?: () => void;
+}> = ({ currentLevel, furthestLevel, records, notice, onSelect, onClose }) => {
+  const { t, locale } = useI18n();
+  const levels = localizedLevels(locale);
+  const stars = t("levelMap.stars", { stars: totalStars(records), total: TOTAL_LEVELS * 3 });
+
+  return (
+    <Dialog labelledBy="level-map-title" className="max-w-3xl w-full max-h-[90vh] overflow-y-auto bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+      <h3 id="level-map-title" className="text-2xl font-extrabold mb-2">{t("levelMap.title")}</h3>
+      <p className="text-sm opacity-70 mb-6">
+        {notice ?? t("levelMap.furthest", { level: furthestLevel, total: TOTAL_LEVELS })} · {stars}
+      </p>
+
+      <ol className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {Array.from({ length: TOTAL_LEVELS }, (_, i) => i + 1).map((level) => {
+          const status = unlockStatus(level, { furthestLevel, records });
+          const record = records[level];
+          return (
+            <li key={level}>
+              <button
+                onClick={() => onSelect(level)}
+                disabled={!status.unlocked}
+                className={`w-full p-4 text-start rounded-lg border transition-colors hover:bg-white/5 disabled:opacity-40 disabled:cursor-not-allowed ${level === currentLevel ? "border-blue-400" : ""}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-bold">{t("levelMap.layer", { level })}</span>
+                  <span aria-label={record ? t("common.starsOf", { stars: record.stars }) : t("levelMap.notCleared")}>
+                    {"★".repeat(record?.stars ?? 0)}
+                    <span className="opacity-30">{"★".repeat(3 - (record?.stars ?? 0))}</span>
+                  </span>
+                </div>
+                <p className="text-sm mt-1">{levels[level - 1].theme}</p>
+                <p className="text-xs opacity-60 mt-1">
+                  {!status.unlocked
+                    ? t("levelMap.locked", { reason: requirementText(status.requires, t) })
+                    : record
+                      ? t("levelMap.bestScore", { score: record.bestScore })
+                      : t("levelMap.notClearedYet")}
+                </p>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {onClose && <button onClick={onClose} className="mt-6 px-4 py-2 border rounded-md">{t("common.close")}</button>}
+    </Dialog>
+  );
+};
+
+export default LevelMap;
@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+import { EFFICIENCY_POINTS_PER_LEVEL, rateLevel, type LevelStats, type Stars } from "@/lib/engine";
+import type { LevelPar } from "@/lib/levels";
+import { formatClock } from "../hooks/useLevelClock";
+import { useI18n } from "../hooks/useLocale";
+import Dialog from "./Dialog";
+
+/** Shown between the quiz and the transaction modal: how the level went against its par, and the stars it earned. */
+const LevelResults: React.FC<{
+  level: number;
+  /** Par for the board as dealt on the current difficulty. */
+  par: LevelPar;
+  stats: LevelStats;
+  elapsedMs: number;
+  best?: Stars;
+  onContinue: () => void;
+  /** Extra content shown above the continue button. */
+  children?: React.ReactNode;
+}> = ({
+  level,
+  par,
+  stats,
+  elapsedMs,
+  best,
+  onContinue,
+  children,
+}) => {
+  const { t } = useI18n();
+  const stars = rateLevel(stats, elapsedMs, par);
+  const bonus = Math.max(0, par.moves - stats.moves) * EFFICIENCY_POINTS_PER_LEVEL * level;
+  const rows: [string, string][] = [
+    [t("results.moves"), t("results.movesValue", { moves: stats.moves, par: par.moves })],
+    [t("results.mismatches"), String(stats.mismatches)],
+    [t("results.time"), t("results.timeValue", { time: formatClock(Math.floor(elapsedMs / 1000)), par: formatClock(par.seconds) })],
+    [t("results.hintsUsed"), String(stats.hintsUsed)],
+  ];
+
+  return (
+    <Dialog labelledBy="level-results-title" className="max-w-md w-full bg-white/5 backdrop-blur-lg rounded-2xl p-8 text-center">
+      <h3 id="level-results-title" className="text-2xl font-extrabold mb-2">{t("results.title", { level })}</h3>
+      <p className="text-4xl mb-2" aria-label={t("common.starsOf", { stars })}>
+        {"★".repeat(stars)}
+        <span className="opacity-30">{"★".repeat(3 - stars)}</span>
+      </p>
+      <p className="text-sm opacity-70 mb-6">
+        {best && best > stars ? t("results.best", { stars: best }) : t(stars === 3 ? "results.perfect" : "results.beatPar")}
+      </p>
+
+      <div className="mb-6 p-4 rounded-lg bg-white/5 text-start">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between mb-2 last:mb-0">
+            <span className="opacity-70">{label}:</span>
+            <span className="font-bold">{value}</span>
+          </div>
+        ))}
+      </div>
+      {bonus > 0 && <p className="text-sm text-green-400 mb-6">{t("results.bonus", { points: bonus })}</p>}
+      {children}
+
+      <button onClick={onContinue} className="w-full py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-lg font-semibold">
+        {t("common.continue")}
+      </button>
+    </Dialog>
+  );
+};
+
+export default LevelResults;
@@ -0,0 +1,18 @@
+"use client";
+
+import React from "react";
+
+export interface Announcement {
+  /** Changes with every announcement, so the same words are read again. */
+  id: number;
+  text: string;
+}
+
+/** Visually hidden status region that screen readers read out whenever the announcement changes. */
+const LiveRegion: React.FC<{ announcement: Announcement | null }> = ({ announcement }) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {announcement && <span key={announcement.id}>{announcement.text}</span>}
+  </div>
+);
+
+export default LiveRegion;
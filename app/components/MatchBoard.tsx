@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { localizedLevels } from "@/lib/levels";
+import type { MatchView } from "@/lib/match";
+import { MATCH_TURN_MS, replayMatch } from "@/lib/matchRules";
+import { useI18n } from "../hooks/useLocale";
+import { useMatch } from "../hooks/useMatch";
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Checks a finished match on this device: the revealed seed must hash to what
+ * was published when the match started, and the move log must replay to the
+ * result the server reported.
+ */
+async function verifyMatch(view: MatchView, publishedHash: string) {
+  if (!view.seed || !view.moves || (await sha256(view.seed)) !== publishedHash) return false;
+  try {
+    const board = replayMatch({ ...view, seed: view.seed, moves: view.moves });
+    return board.status === "finished" && board.winner === view.winner && board.pairs.join() === view.pairs.join();
+  } catch {
+    return false;
+  }
+}
+
+/** A 1v1 match: the shared board, whose turn it is, and the verified result at the end. */
+const MatchBoard: React.FC<{ id: string }> = ({ id }) => {
+  const { t, formatNumber, locale } = useI18n();
+  const { match, seat, connection, error, join, play } = useMatch(id);
+  const [now, setNow] = useState(() => Date.now());
+  const [copied, setCopied] = useState(false);
+  const [verified, setVerified] = useState<boolean | null>(null);
+  // The hash as first seen, so a seed swapped mid-match fails the check.
+  const publishedHash = useRef<string | null>(null);
+  if (match && !publishedHash.current) publishedHash.current = match.seedHash;
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (match?.status === "finished" && publishedHash.current) {
+      void verifyMatch(match, publishedHash.current).then(setVerified);
+    }
+  }, [match]);
+
+  const copyInvite = async () => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete("fid");
+    // The opponent plays in their own language
+    url.searchParams.delete("lang");
+    await navigator.clipboard.writeText(url.toString());
+    setCopied(true);
+  };
+
+  if (!match) {
+    return <p className="p-8 text-center opacity-70">{error ?? t("match.loading")}</p>;
+  }
+
+  const myTurn = match.status === "playing" && seat === match.turn;
+  const idleMs = now - match.turnStartedAt;
+  const name = (s: 0 | 1) => {
+    const fid = match.players[s];
+    return s === seat ? t("match.you") : fid ? t("player.fid", { fid: String(fid) }) : t("match.emptySeat");
+  };
+  const result =
+    match.winner === null
+      ? t("match.draw")
+      : match.winner === seat
+        ? t("match.youWin")
+        : t(match.resigned ? "match.winsByResignation" : "match.wins", { name: name(match.winner) });
+
+  return (
+    <main className="w-full max-w-5xl mx-auto p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-extrabold uppercase">{t("match.heading", { theme: localizedLevels(locale)[match.level - 1].theme })}</h2>
+          <p className="text-sm opacity-70 mt-1">
+            {t("badges.layer", { level: match.level })} · {t(`difficulty.${match.difficulty}`)}
+            {connection !== "live" && <span className="ms-3">{t(connection === "reconnecting" ? "match.reconnecting" : "match.connecting")}</span>}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          {([0, 1] as const).map((s) => (
+            <div key={s} className={`px-4 py-2 rounded-lg border ${match.status === "playing" && match.turn === s ? "border-blue-400" : "opacity-70"}`}>
+              <p className="text-xs uppercase opacity-60">{name(s)}</p>
+              <p className="text-2xl font-bold">{formatNumber(match.pairs[s])}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {match.status === "waiting" && (
+        <div className="mb-6 p-4 rounded-lg bg-blue-900/20 border border-blue-500/20">
+          <p className="mb-2">{seat === 0 ? t("match.invite") : t("match.lookingForOpponent", { name: name(0) })}</p>
+          {seat === 0 && <button onClick={copyInvite} className="px-4 py-2 border rounded-md">{t(copied ? "match.linkCopied" : "match.copyInvite")}</button>}
+          {seat === null && <button onClick={join} className="px-4 py-2 bg-blue-600 text-white rounded-md font-semibold">{t("match.join")}</button>}
+        </div>
+      )}
+
+      {match.status === "playing" && (
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <p className="font-bold">{seat === null ? t("match.toPlay", { name: name(match.turn) }) : t(myTurn ? "match.yourTurn" : "match.opponentTurn")}</p>
+          {seat !== null && !myTurn && idleMs >= MATCH_TURN_MS && (
+            <button onClick={() => play({ type: "timeout" })} className="px-4 py-2 border rounded-md">{t("match.claimTurn")}</button>
+          )}
+          {seat !== null && <button onClick={() => play({ type: "resign" })} className="px-4 py-2 border rounded-md">{t("match.resign")}</button>}
+        </div>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+      <section aria-label={t("match.board")} className={`grid gap-4 ${match.cards.length > 12 ? "grid-cols-3 md:grid-cols-6" : "grid-cols-2 sm:grid-cols-3 md:grid-cols-4"}`}>
+        {match.cards.map((card, idx) => (
+          <button
+            key={idx}
+            onClick={() => play({ type: "flip", index: idx })}
+            disabled={!myTurn || card.isMatched || (card.isFlipped && !match.missed.includes(idx))}
+            aria-label={t(card.isMatched ? "match.card.matched" : card.isFlipped ? "match.card.flipped" : "match.card.faceDown", {
+              number: idx + 1,
+              content: card.content ?? "",
+            })}
+            className={`min-h-24 p-3 rounded-lg border text-sm font-bold transition-colors ${
+              card.isMatched ? "bg-green-500/20 border-green-400" : card.isFlipped ? "bg-blue-500/20 border-blue-400" : "bg-white/5 enabled:hover:bg-white/10"
+            }`}
+          >
+            {card.isFlipped || card.isMatched ? card.content : <span className="uppercase opacity-60">?</span>}
+          </button>
+        ))}
+      </section>
+
+      {match.status === "finished" && (
+        <div className="mt-6 p-4 rounded-lg bg-white/5">
+          <p className="text-2xl font-extrabold mb-2">{result}</p>
+          <p className="text-sm opacity-70">
+            {t(verified === null ? "match.checking" : verified ? "match.verified" : "match.unverified")}
+          </p>
+          <p className="text-xs font-mono opacity-60 mt-2 break-all">
+            {t("match.proof", { seed: match.seed ?? "", hash: match.seedHash, count: match.moves?.length ?? 0 })}
+          </p>
+        </div>
+      )}
+    </main>
+  );
+};
+
+export default MatchBoard;
@@ -0,0 +1,47 @@
+"use client";
+
+import React from "react";
+import type { PreparedQuestion } from "@/lib/quiz";
+import { useI18n } from "../hooks/useLocale";
+
+/** A question's prompt and options. Once `chosen` is set the options lock and show which one was right. */
+export const QuizQuestion: React.FC<{
+  question: PreparedQuestion;
+  chosen?: number | null;
+  onAnswer: (option: number) => void;
+}> = ({ question, chosen = null, onAnswer }) => {
+  const { t } = useI18n();
+  return (
+    <>
+      <p className="text-xs uppercase opacity-60 mb-2">{t(`quiz.format.${question.format}`)}</p>
+      <p className="text-lg mb-6">{question.prompt}</p>
+      <div className="space-y-3">
+        {question.options.map((option, idx) => (
+          <button
+            key={idx}
+            onClick={() => onAnswer(idx)}
+            disabled={chosen !== null}
+            className={`w-full p-4 text-start rounded-lg border transition-colors enabled:hover:bg-white/5 ${
+              chosen === null ? "" : idx === question.answer ? "border-green-400 bg-green-500/10" : idx === chosen ? "border-red-400 bg-red-500/10" : "opacity-60"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+};
+
+/** Whether the answer was right, and why. */
+export const QuizExplanation: React.FC<{ question: PreparedQuestion; correct: boolean }> = ({ question, correct }) => {
+  const { t } = useI18n();
+  return (
+    <div className={`mt-6 p-4 rounded-lg border ${correct ? "border-green-500/40 bg-green-500/10" : "border-red-500/40 bg-red-500/10"}`}>
+      <p className={`font-bold ${correct ? "text-green-400" : "text-red-400"}`}>
+        {correct ? t("quiz.correct") : t("quiz.incorrect", { answer: question.options[question.answer] })}
+      </p>
+      <p className="text-sm mt-2">{question.explanation}</p>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState } from "react";
+import type { PreparedQuestion } from "@/lib/quiz";
+import { useI18n } from "../hooks/useLocale";
+import { QuizExplanation, QuizQuestion } from "./QuizQuestion";
+import Dialog from "./Dialog";
+
+/**
+ * Review mode: walks through the questions due for spaced repetition. Each
+ * answer is reported as it is given, so closing early keeps the progress made.
+ */
+const ReviewSession: React.FC<{
+  questions: PreparedQuestion[];
+  onAnswer: (id: string, correct: boolean) => void;
+  onClose: () => void;
+}> = ({ questions, onAnswer, onClose }) => {
+  const { t } = useI18n();
+  const [index, setIndex] = useState(0);
+  const [chosen, setChosen] = useState<number | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const question = questions[index];
+
+  const answer = (option: number) => {
+    const correct = option === question.answer;
+    setChosen(option);
+    if (correct) setCorrectCount((n) => n + 1);
+    onAnswer(question.id, correct);
+  };
+
+  const next = () => {
+    setChosen(null);
+    setIndex((i) => i + 1);
+  };
+
+  return (
+    <Dialog labelledBy="review-title" className="max-w-lg w-full max-h-[90vh] overflow-y-auto bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+      <h3 id="review-title" className="text-2xl font-extrabold mb-1">{t("review.title")}</h3>
+      {question ? (
+        <>
+          <p className="text-sm opacity-70 mb-6">
+            {t("review.progress", { number: index + 1, total: questions.length })}
+          </p>
+          <QuizQuestion question={question} chosen={chosen} onAnswer={answer} />
+          {chosen !== null && (
+            <>
+              <QuizExplanation question={question} correct={chosen === question.answer} />
+              <button onClick={next} className="mt-6 w-full py-3 bg-blue-600 text-white rounded-lg">
+                {t(index + 1 < questions.length ? "review.next" : "review.finish")}
+              </button>
+            </>
+          )}
+        </>
+      ) : (
+        <p className="my-6">
+          {questions.length === 0
+            ? t("review.empty")
+            : t("review.done", { correct: correctCount, total: questions.length })}
+        </p>
+      )}
+      <button onClick={onClose} className="mt-6 px-4 py-2 border rounded-md">{t("common.close")}</button>
+    </Dialog>
+  );
+};
+
+export default ReviewSession;
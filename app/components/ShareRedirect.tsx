@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Browsers that open a share page directly are sent on to the game; link previews only read its metadata.
+export default function ShareRedirect({ to, label }: { to: string; label: string }) {
+  useEffect(() => {
+    window.location.replace(to);
+  }, [to]);
+
+  return (
+    <p style={{ padding: 32, textAlign: "center" }}>
+      <a href={to}>{label}</a>
+    </p>
+  );
+}
@@ -7,177 +7,431 @@ import React, {
   useRef,
   useState,
 } from "react";
+import Link from "next/link";
+import { formatEther } from "viem";
 import { useAccount } from "wagmi";
 import sdk from "@farcaster/miniapp-sdk";
+import { localizedLevels, TOTAL_LEVELS } from "@/lib/levels";
+import {
+  BOARD_ACTIONS,
+  createGameState,
+  currentQuestion,
+  FEE_BONUS,
+  levelPar,
+  rateLevel,
+  reduce,
+  snapshotBoard,
+  type EngineContext,
+  type GameAction,
+  type GameEvent,
+  type GameState,
+  type Stars,
+} from "@/lib/engine";
+import { DIFFICULTIES, DIFFICULTY_PRESETS, isDifficulty } from "@/lib/difficulty";
+import { createRandom, dailySeed, isDailySeed, normalizeSeed, randomSeed } from "@/lib/random";
+import { prepareQuestion, type PreparedQuestion } from "@/lib/quiz";
+import { dueCards, recordMiss, recordReview, type ReviewDeck } from "@/lib/review";
+import type { RunSubmission } from "@/lib/scores";
+import type { Challenge, ChallengeResult } from "@/lib/challenges";
+import { isAhead, type Progress } from "@/lib/progress";
+import { formatUtcDay } from "@/lib/gm";
+import { describeEvents } from "@/lib/announcements";
+import { isLocale, LOCALE_NAMES, LOCALES, type Locale, type MessageKey, type MessageParams } from "@/lib/i18n";
+import type { HintPayment, HintType } from "@/lib/hints";
+import {
+  ACHIEVEMENTS,
+  mergeUnlocked,
+  unlockedBy,
+  type Achievement,
+  type AchievementContext,
+  type AchievementEvent,
+  type UnlockedAchievements,
+} from "@/lib/achievements";
+import { mergeLevelRecords, type LevelRecord, type SaveGame, type SavedBoard } from "@/lib/saveGame";
+import { requirementText, totalStars, unlockStatus } from "@/lib/unlocks";
+import { usePlayer } from "../hooks/usePlayer";
+import { useCheckIn } from "../hooks/useCheckIn";
+import { useHintPurchase } from "../hooks/useHintPurchase";
+import { useSaveGame } from "../hooks/useSaveGame";
+import { formatClock, useLevelClock } from "../hooks/useLevelClock";
+import { useLevelTransaction } from "../hooks/useLevelTransaction";
+import { I18nContext, useLocale } from "../hooks/useLocale";
+import { explorerTxUrl, gameChain, gameContractAddress, levelFeeWei } from "@/lib/gameContract";
+import AchievementsPanel from "./AchievementsPanel";
+import AchievementToasts from "./AchievementToasts";
+import BadgeGallery from "./BadgeGallery";
+import CardGrid from "./CardGrid";
+import Dialog from "./Dialog";
+import HintShop from "./HintShop";
+import LevelResults from "./LevelResults";
+import LevelMap from "./LevelMap";
+import LiveRegion, { type Announcement } from "./LiveRegion";
+import { QuizExplanation, QuizQuestion } from "./QuizQuestion";
+import ReviewSession from "./ReviewSession";
 
 /**
  * Fixed BaseMemoryGame component with MiniKit transaction after each level
  * - After each level completion, shows transaction modal
  * - User can pay fee or skip to next level
- * - Properly integrated with game flow
+ * - Game rules live in lib/engine; this component renders its state and runs its timers
  */
 
-type Pair = { term: string; definition: string };
-
-interface Card {
-  id: string;
-  content: string;
-  pairId: number;
-  isFlipped: boolean;
-  isMatched: boolean;
-}
-
-const LEVEL_DATA: Record<number, { theme: string; lesson: string; pairs: Pair[]; quiz: { question: string; options: string[]; answer: number } }> = {
-  1: {
-    theme: "Base L2 Foundations",
-    lesson:
-      "Base leverages the OP Stack to provide Ethereum security with significantly lower fees. It utilizes 'Bedrock' architecture for modularity.",
-    pairs: [
-      { term: "Bedrock", definition: "Current modular architecture of the OP Stack." },
-      { term: "L2 Finality", definition: "When a transaction is finalized on L1 Ethereum." },
-      { term: "Sequencer", definition: "The node responsible for ordering L2 transactions." },
-      { term: "EIP-4844", definition: "Proto-Danksharding using blobs for cheaper data." },
-    ],
-    quiz: {
-      question: "Which Ethereum upgrade introduced 'Blobs' to reduce L2 fees?",
-      options: ["The Merge", "EIP-1559", "EIP-4844", "Shapella"],
-      answer: 2,
-    },
-  },
-  2: {
-    theme: "Paymaster Protocol",
-    lesson:
-      "Paymasters allow decentralized applications to sponsor gas fees for their users, enabling a 'gasless' onboarding experience.",
-    pairs: [
-      { term: "Gas Sponsorship", definition: "Paymaster pays the gas fee for the user." },
-      { term: "Verifying Paymaster", definition: "Validates UserOps using an off-chain service." },
-      { term: "Deposit", definition: "Funds held by Paymaster in the EntryPoint." },
-      { term: "ERC-20 Paymaster", definition: "Allows paying gas in tokens like USDC." },
-      { term: "CDP Paymaster", definition: "Coinbase's managed gas sponsorship service." },
-    ],
-    quiz: {
-      question: "What is the primary function of a Paymaster in Account Abstraction?",
-      options: ["Ordering transactions", "Sponsoring user gas fees", "Mining new blocks", "Storing user private keys"],
-      answer: 1,
-    },
-  },
-};
+/** In accessible mode a mismatch stays face up at least this long, so both cards can be read out. */
+const ACCESSIBLE_MISMATCH_MS = 3000;
 
-const TOTAL_LEVELS = 20;
-for (let i = 3; i <= TOTAL_LEVELS; i++) {
-  if (LEVEL_DATA[i]) continue;
-  const complexity = i > 15 ? "Extreme" : i > 10 ? "Advanced" : "Intermediate";
-  LEVEL_DATA[i] = {
-    theme: `${complexity} Protocol - Layer ${i}`,
-    lesson: `Layer ${i} deepens the integration of autonomous agents and Paymaster sponsorship logic. High security is non-negotiable.`,
-    pairs: Array.from({ length: Math.min(6, 4 + Math.floor(i / 3)) }).map((_, idx) => ({
-      term: `Logic Hook ${i}-${idx + 1}`,
-      definition: `Custom execution ${i}-${idx + 1} triggered on transaction.`,
-    })),
-    quiz: {
-      question: `Layer ${i} Security Check: How are Agentic sessions secured?`,
-      options: ["Plaintext storage", "Scoped Session Keys", "No security", "Public visibility"],
-      answer: 1,
-    },
-  };
-}
-
-function shuffle<T>(arr: T[]) {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-/* SSR-safe localStorage helpers */
-const safeGetNumber = (key: string, fallback: number): number => {
-  if (typeof window === "undefined") return fallback;
-  const raw = localStorage.getItem(key);
-  if (!raw) return fallback;
-  const v = parseInt(raw, 10);
-  return Number.isNaN(v) ? fallback : v;
-};
-const safeGetString = (key: string, fallback: string): string => {
-  if (typeof window === "undefined") return fallback;
-  return localStorage.getItem(key) ?? fallback;
-};
+/** A message for the notice bar, kept untranslated so it follows a change of language. */
+type Notice = { key: MessageKey; params?: MessageParams };
 
 const BaseMemoryGame: React.FC = () => {
-  const [level, setLevel] = useState<number>(() => safeGetNumber("base_level", 1));
-  const [cards, setCards] = useState<Card[]>([]);
-  const [flippedIndices, setFlippedIndices] = useState<number[]>([]);
-  const [score, setScore] = useState<number>(() => safeGetNumber("base_score", 0));
-  const [hints, setHints] = useState<number>(() => safeGetNumber("base_hints", 3));
-  const [quizzesSolved, setQuizzesSolved] = useState<number>(() => safeGetNumber("base_quizzes", 0));
+  // One versioned save for the whole game, kept in sync with other open tabs
+  const { initial: saved, loadError, readOnly: saveReadOnly, write: writeSave, exportSave, importSave } = useSaveGame((save) => adoptSave(save, false));
+  const [game, setGame] = useState<GameState>(() => createGameState({ ...saved.progress, difficulty: saved.difficulty }));
+  const { seed, level, furthestLevel, difficulty, cards, score, hints, freeHints, quizzesSolved, phase } = game;
 
   // Wallet connection from wagmi
   const { address, isConnected, connector } = useAccount();
+  // Level completion transaction, sponsored by the paymaster when the wallet supports it
+  const levelTx = useLevelTransaction();
+  // Farcaster sign-in; progress syncs to the player's FID once their saved profile is merged
+  const { player, saveProgress, syncAchievements } = usePlayer();
+  // Daily GM, verified and counted in UTC days on the server; only signed-in players can check in
+  const gm = useCheckIn(player.status === "signed-in" ? player.fid : undefined);
+  // Hint packs bought onchain, granted once the server has redeemed the purchase; paid packs wait in the save until then
+  const [pendingHintPurchases, setPendingHintPurchases] = useState(saved.pendingHintPurchases);
+  const hintPurchase = useHintPurchase(player.status === "signed-in" ? player.fid : undefined, {
+    pending: pendingHintPurchases,
+    setPending: setPendingHintPurchases,
+    onRedeemed: (amount) => dispatch({ type: "purchaseHints", amount }),
+  });
+  const canGM = gm.streak !== null && !gm.streak.checkedInToday && gm.status !== "signing" && gm.status !== "verifying";
+  const [profileMerged, setProfileMerged] = useState(false);
+  const [remindersOn, setRemindersOn] = useState<boolean | null>(null);
 
   // Game states
-  const [showQuiz, setShowQuiz] = useState(false);
   const [showLesson, setShowLesson] = useState(false);
-  const [gameComplete, setGameComplete] = useState(false);
+  const [seedCopied, setSeedCopied] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(
+    loadError ? { key: saveReadOnly ? "notice.saveNewer" : "notice.saveReset", params: { error: loadError } } : null,
+  );
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const [showBadges, setShowBadges] = useState(false);
+  const [showAchievements, setShowAchievements] = useState(false);
+  const [showHintShop, setShowHintShop] = useState(false);
+
+  const [isDarkMode, setIsDarkMode] = useState<boolean>(saved.theme === "dark");
+  // Accessible play mode; the ref lets events handled inside dispatch see the current setting
+  const [accessible, setAccessible] = useState(saved.accessible);
+  const accessibleRef = useRef(accessible);
+  accessibleRef.current = accessible;
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  // The language the player picked, or null to follow their client and browser
+  const [locale, setLocale] = useState<Locale | null>(saved.locale);
+  const { translator, detected } = useLocale(locale);
+  const { t } = translator;
+  const [streak, setStreak] = useState<number>(saved.progress.streak);
+  const [lastGM, setLastGM] = useState<string>(saved.progress.lastGM);
+  const [records, setRecords] = useState<Record<number, LevelRecord>>(saved.levels);
+  // Level select; `required` hides its close button until a level is picked
+  const [levelMap, setLevelMap] = useState<{ required: boolean; notice?: Notice } | null>(null);
+  // Questions missed in quizzes, scheduled for spaced-repetition review
+  const [review, setReview] = useState<ReviewDeck>(saved.review);
+  const [reviewQuestions, setReviewQuestions] = useState<PreparedQuestion[] | null>(null);
+  // Achievements kept with the save and, once signed in, synced to the FID; the ref sees unlocks from earlier events in the same dispatch
+  const [achievements, setAchievements] = useState<UnlockedAchievements>(saved.achievements);
+  const achievementsRef = useRef(achievements);
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+  // A friend's challenge from a `?challenge=` link, with the score reached once its level is cleared
+  const [challenge, setChallenge] = useState<{ data: Challenge; score?: number } | null>(null);
+  const challengeRef = useRef<Challenge | null>(null);
+  const [challengeShare, setChallengeShare] = useState<"idle" | "sharing" | "failed">("idle");
+  // The last cleared level's leaderboard submission; a shared result card waits for it so it shows the new score.
+  const runSubmitted = useRef<Promise<void>>(Promise.resolve());
+  // The answered quiz question, shown with its explanation until the player moves on
+  const [quizFeedback, setQuizFeedback] = useState<{ question: PreparedQuestion; correct: boolean } | null>(null);
+
+  const clock = useLevelClock();
+  const timersRef = useRef<number[]>([]);
+  // Timers fire after renders we cannot see, so actions always reduce the latest state.
+  const gameRef = useRef(game);
+  // Board actions since the current level was first dealt; the server replays these to score the run.
+  const runRef = useRef<RunSubmission | null>(null);
+
+  // Level content and quiz wording in the game's language. Translations keep every deal and answer where
+  // they were, so the rules play out the same and the server replays runs against the pack as written.
+  const engineContext = useMemo<EngineContext>(
+    () => ({
+      levels: localizedLevels(translator.locale),
+      quizText: {
+        true: translator.t("quiz.true"),
+        false: translator.t("quiz.false"),
+        matchPrompt: (definition) => translator.t("quiz.matchPrompt", { definition }),
+        matchExplanation: (term, definition) => translator.t("quiz.matchExplanation", { term, definition }),
+      },
+    }),
+    [translator],
+  );
+  const { levels } = engineContext;
+  const languageRef = useRef({ translator, engineContext });
+  languageRef.current = { translator, engineContext };
+
+  const dispatch = useCallback((action: GameAction) => {
+    const language = languageRef.current;
+    const { state, events } = reduce(gameRef.current, action, language.engineContext);
+    // Only actions the engine applied are part of the run: the server rejects a hint its replay can't use.
+    if (BOARD_ACTIONS.has(action.type) && state !== gameRef.current) runRef.current?.actions.push(action);
+    gameRef.current = state;
+    setGame(state);
+    events.forEach(handleEvent);
+    if (accessibleRef.current) {
+      const text = describeEvents(events, state, language.translator.t, language.engineContext.levels);
+      if (text) setAnnouncement((prev) => ({ id: (prev?.id ?? 0) + 1, text }));
+    }
+    return events;
+    // handleEvent only touches refs and stable setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-  const [showTransactionModal, setShowTransactionModal] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
-  const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const schedule = (action: GameAction, delay: number) => {
+    const id = window.setTimeout(() => dispatch(action), delay);
+    timersRef.current.push(id);
+  };
 
-  const [isDarkMode, setIsDarkMode] = useState<boolean>(() => safeGetString("base_theme", "dark") === "dark");
-  const [streak, setStreak] = useState<number>(() => safeGetNumber("base_streak", 0));
-  const [canGM, setCanGM] = useState<boolean>(false);
+  const adoptAchievements = (unlocked: UnlockedAchievements) => {
+    achievementsRef.current = unlocked;
+    setAchievements(unlocked);
+  };
 
-  const timersRef = useRef<number[]>([]);
-  const flipBackDelay = useMemo(() => Math.max(250, 1000 - level * 40), [level]);
-
-  const initLevel = useCallback((lvl: number) => {
-    const data = LEVEL_DATA[lvl];
-    const gameCards: Card[] = [];
-    data.pairs.forEach((pair, index) => {
-      gameCards.push({ id: `t-${lvl}-${index}`, content: pair.term, pairId: index, isFlipped: false, isMatched: false });
-      gameCards.push({ id: `d-${lvl}-${index}`, content: pair.definition, pairId: index, isFlipped: false, isMatched: false });
-    });
-    setCards(shuffle(gameCards));
-    setFlippedIndices([]);
-    setShowLesson(false);
-    if (typeof window !== "undefined") localStorage.setItem("base_level", String(lvl));
-  }, []);
+  // Runs an event past every achievement rule and announces whatever it unlocks.
+  const unlockAchievements = (event: AchievementEvent, ctx: AchievementContext) => {
+    const earned = unlockedBy(event, ctx, achievementsRef.current);
+    if (earned.length === 0) return;
+    const now = Date.now();
+    adoptAchievements({ ...achievementsRef.current, ...Object.fromEntries(earned.map((a) => [a.id, now])) });
+    setToasts((prev) => [...prev, ...earned]);
+  };
 
-  useEffect(() => {
-    // theme & gm initialization
-    const savedTheme = safeGetString("base_theme", "dark");
-    if (savedTheme === "light") setIsDarkMode(false);
-
-    const lastGM = safeGetString("base_last_gm", "");
-    const savedStreak = safeGetNumber("base_streak", 0);
-    const today = new Date().toDateString();
-
-    if (lastGM !== today) {
-      setCanGM(true);
-      if (lastGM) {
-        const lastDate = new Date(lastGM);
-        const diffDays = Math.floor((Date.now() - lastDate.getTime()) / (1000 * 3600 * 24));
-        if (diffDays > 1) {
-          if (typeof window !== "undefined") localStorage.setItem("base_streak", "0");
-          setStreak(0);
-        } else {
-          setStreak(savedStreak);
+  const dismissToast = useCallback((id: string) => setToasts((prev) => prev.filter((a) => a.id !== id)), []);
+
+  const handleEvent = (event: GameEvent) => {
+    let rating: Stars | undefined;
+    switch (event.type) {
+      case "levelStarted": {
+        // A failed quiz redeals the level as part of the same run.
+        const { seed, level, difficulty, hints, score, attempt } = gameRef.current;
+        if (attempt === 0) runRef.current = { seed, level, difficulty, hints, score, actions: [] };
+        const taken = challengeRef.current;
+        if (taken && (taken.seed !== seed || taken.level !== level || taken.difficulty !== difficulty)) {
+          challengeRef.current = null;
+          setChallenge(null);
+        }
+        setChallengeShare("idle");
+        clock.start(attempt === 0 ? 0 : clock.elapsedMs());
+        setShowLesson(false);
+        levelTx.reset();
+        break;
+      }
+      case "previewShown":
+        schedule({ type: "endPreview" }, event.duration);
+        break;
+      case "mismatched":
+        schedule({ type: "resolveMismatch" }, accessibleRef.current ? Math.max(event.delay, ACCESSIBLE_MISMATCH_MS) : event.delay);
+        break;
+      case "hintShown":
+        schedule({ type: "endHint" }, event.duration);
+        break;
+      // Hints and points granted mid-level are counted as held from the start, so the replayed run can afford what they bought.
+      case "checkedIn":
+        if (runRef.current) {
+          runRef.current.hints += event.hints;
+          runRef.current.score = (runRef.current.score ?? 0) + event.points;
+        }
+        break;
+      case "hintsPurchased":
+        if (runRef.current) runRef.current.hints += event.amount;
+        break;
+      case "boardCleared":
+        clock.stop();
+        break;
+      case "quizAnswered":
+        if (event.correct) {
+          const { level, stats } = gameRef.current;
+          const stars = rateLevel(stats, clock.elapsedMs(), levelPar(gameRef.current));
+          rating = stars;
+          setRecords((prev) => mergeLevelRecords(prev, { [level]: { stars, bestScore: stats.points } }));
+          if (runRef.current) runSubmitted.current = submitRun(runRef.current);
+          const taken = challengeRef.current;
+          if (taken && runRef.current) {
+            setChallenge({ data: taken, score: stats.points });
+            void submitChallengeRun(taken, runRef.current);
+          }
         }
+        break;
+    }
+    unlockAchievements(event, { state: gameRef.current, rating });
+  };
+
+  // Leaderboard scores only count when the host can vouch for the player, so this is a no-op outside a mini app.
+  const submitRun = async (run: RunSubmission) => {
+    try {
+      if (!(await sdk.isInMiniApp())) return;
+      const res = await sdk.quickAuth.fetch("/api/scores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(run),
+      });
+      if (!res.ok) console.warn("Score submission rejected:", (await res.json()).message);
+    } catch (error) {
+      console.error("Failed to submit score:", error);
+    }
+  };
+
+  // The server replays the run against the challenge and keeps the result for the challenger to see.
+  const submitChallengeRun = async (taken: Challenge, run: RunSubmission) => {
+    try {
+      if (!(await sdk.isInMiniApp())) return;
+      const res = await sdk.quickAuth.fetch(`/api/challenges/${encodeURIComponent(taken.id)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(run),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        console.warn("Challenge result rejected:", body.message);
+        return;
       }
-    } else {
-      setCanGM(false);
-      setStreak(savedStreak);
+      // The server's score counts every hint, however it was paid for, so show that one.
+      const { result } = body as { result: ChallengeResult };
+      setChallenge((prev) => (prev?.data.id === taken.id ? { ...prev, score: result.score } : prev));
+    } catch (error) {
+      console.error("Failed to submit challenge result:", error);
+    }
+  };
+
+  // Challenges a friend to the level just cleared: the run becomes the score to beat, shared in a cast.
+  const shareChallenge = async () => {
+    const run = runRef.current;
+    if (!run) return;
+    setChallengeShare("sharing");
+    try {
+      const res = await sdk.quickAuth.fetch("/api/challenges", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(run),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message);
+      const { challenge: created, url } = body as { challenge: Challenge; url: string };
+      // The cast unfurls in the challenger's language
+      const embed = new URL(url);
+      embed.searchParams.set("lang", translator.locale);
+      await sdk.actions.composeCast({
+        text: t("challenge.cast", { score: created.target, level: created.level }),
+        embeds: [embed.toString()],
+      });
+      setChallengeShare("idle");
+    } catch (error) {
+      console.error("Failed to create challenge:", error);
+      setChallengeShare("failed");
+    }
+  };
+
+  // Casts the player's card for the level just cleared, once the server has the run it shows.
+  const shareResult = async () => {
+    if (player.status !== "signed-in") return;
+    try {
+      await runSubmitted.current;
+      await sdk.actions.composeCast({
+        text: t("share.cast", { level }),
+        embeds: [`${window.location.origin}/share/${player.fid}?level=${level}&lang=${translator.locale}`],
+      });
+    } catch (error) {
+      console.error("Failed to share result:", error);
+    }
+  };
+
+  // Deals a challenge's board if its level is open to this player.
+  const playChallenge = (taken: Challenge) => {
+    const status = unlockStatus(taken.level, { furthestLevel: gameRef.current.furthestLevel, records });
+    if (!status.unlocked) {
+      setNotice({ key: "notice.challengeLocked", params: { level: taken.level, reason: requirementText(status.requires, t) } });
+      return false;
+    }
+    challengeRef.current = taken;
+    setChallenge({ data: taken });
+    dispatch({ type: "setDifficulty", difficulty: taken.difficulty });
+    dispatch({ type: "deal", seed: taken.seed, level: taken.level });
+    showSeed(taken.seed);
+    return true;
+  };
+
+  const loadChallenge = async (id: string) => {
+    try {
+      const res = await fetch(`/api/challenges/${encodeURIComponent(id)}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message);
+      return playChallenge((body as { challenge: Challenge }).challenge);
+    } catch (error) {
+      setNotice({ key: "notice.challengeFailed", params: { error: (error as Error).message } });
+      return false;
     }
+  };
+
+  // Mirrors the run's seed into the URL so a shared link gets the same board.
+  const showSeed = (nextSeed: string) => {
+    setSeedCopied(false);
+    const url = new URL(window.location.href);
+    url.searchParams.delete("daily");
+    url.searchParams.set("seed", nextSeed);
+    window.history.replaceState(null, "", url);
+  };
 
-    // ensure defaults
-    if (typeof window !== "undefined") {
-      localStorage.setItem("base_score", String(score));
-      localStorage.setItem("base_hints", String(hints));
-      localStorage.setItem("base_quizzes", String(quizzesSolved));
+  // Deals the current level from `nextSeed`.
+  const startRun = (nextSeed: string) => {
+    dispatch({ type: "deal", seed: nextSeed });
+    showSeed(nextSeed);
+  };
+
+  // Leaderboard runs must be on a seed the server issued, so a new run asks for one; outside a mini app any seed will do.
+  const issuedSeed = async () => {
+    try {
+      if (!(await sdk.isInMiniApp())) return null;
+      const res = await sdk.quickAuth.fetch("/api/scores/seed", { method: "POST" });
+      if (!res.ok) throw new Error((await res.json()).message);
+      return ((await res.json()) as { seed: string }).seed;
+    } catch (error) {
+      console.error("Failed to get a run seed:", error);
+      return null;
     }
+  };
 
-    initLevel(level);
+  // Picks a saved board back up. Timers that were pending when it was saved died with the page, so settle them now.
+  const resumeBoard = (board: SavedBoard) => {
+    if (!dispatch({ type: "resume", board: board.snapshot }).some((e) => e.type === "levelResumed")) return false;
+    runRef.current = board.run;
+    const { phase, cards, flipped, hinted, difficulty } = gameRef.current;
+    clock.start(board.elapsedMs, phase === "preview" || phase === "playing");
+    if (phase === "preview") schedule({ type: "endPreview" }, DIFFICULTY_PRESETS[difficulty].previewMs);
+    if (new Set(flipped.map((i) => cards[i].pairId)).size > 1) dispatch({ type: "resolveMismatch" });
+    if (hinted.length > 0) dispatch({ type: "endHint" });
+    showSeed(board.snapshot.seed);
+    return true;
+  };
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const requested = params.has("daily") ? dailySeed() : normalizeSeed(params.get("seed"));
+    // A reload carries on with the saved board unless the link asks for a different one.
+    const board = saved.board;
+    const resumeOrStart = () => {
+      if (board && (!requested || requested === board.snapshot.seed) && resumeBoard(board)) return;
+      if (requested) startRun(requested);
+      // Unless the player has started a board of their own while the seed was on its way.
+      else void issuedSeed().then((issued) => gameRef.current.seed || startRun(issued ?? randomSeed()));
+    };
+    const challengeId = params.get("challenge");
+    if (challengeId) void loadChallenge(challengeId).then((playing) => playing || resumeOrStart());
+    else resumeOrStart();
 
     return () => {
       timersRef.current.forEach((id) => clearTimeout(id));
@@ -186,150 +440,213 @@ const BaseMemoryGame: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // A change of language deals the cards on the board again in it, face up where they were.
+  const dealtContext = useRef(engineContext);
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    localStorage.setItem("base_score", String(score));
-  }, [score]);
+    if (dealtContext.current === engineContext) return;
+    dealtContext.current = engineContext;
+    if (gameRef.current.seed) dispatch({ type: "resume", board: snapshotBoard(gameRef.current) });
+  }, [engineContext, dispatch]);
+
+  // The server's streak is the one that counts; mirror it so the save and synced profile carry it.
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    localStorage.setItem("base_hints", String(hints));
-  }, [hints]);
+    if (!gm.streak) return;
+    setStreak(gm.streak.streak);
+    setLastGM(gm.streak.lastDay === null ? "" : formatUtcDay(gm.streak.lastDay));
+    unlockAchievements({ type: "streakVerified", streak: gm.streak.streak, best: gm.streak.best }, { state: gameRef.current });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gm.streak]);
+
+  // Keep whichever copy of the run is further along: this device's or the one saved for the FID.
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    localStorage.setItem("base_quizzes", String(quizzesSolved));
-  }, [quizzesSolved]);
+    if (player.status !== "signed-in" || profileMerged) return;
+    const remote = player.profile;
+    const local = gameRef.current;
+    if (remote && isAhead(remote, { ...local, level: local.furthestLevel, streak, lastGM })) {
+      dispatch({ type: "restore", progress: remote });
+      // Restoring deals the synced level, so put a challenge being played back on the board.
+      if (challengeRef.current) playChallenge(challengeRef.current);
+      setStreak(remote.streak);
+      setLastGM(remote.lastGM);
+    }
+    setProfileMerged(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [player, profileMerged]);
+
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    localStorage.setItem("base_theme", isDarkMode ? "dark" : "light");
-  }, [isDarkMode]);
+    if (player.status !== "signed-in") return;
+    sdk.quickAuth
+      .fetch("/api/notifications/preferences")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((prefs: { streakReminders: boolean } | null) => prefs && setRemindersOn(prefs.streakReminders))
+      .catch((error) => console.error("Failed to load notification preferences:", error));
+  }, [player.status]);
+
+  const toggleReminders = async () => {
+    const next = !remindersOn;
+    setRemindersOn(next);
+    try {
+      const res = await sdk.quickAuth.fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ streakReminders: next }),
+      });
+      if (!res.ok) throw new Error(`Preferences update failed with ${res.status}`);
+    } catch (error) {
+      console.error("Failed to update notification preferences:", error);
+      setRemindersOn(!next);
+    }
+  };
 
-  const toggleTheme = () => setIsDarkMode((v) => !v);
+  useEffect(() => {
+    if (!profileMerged) return;
+    const progress: Progress = { level: furthestLevel, score, hints, quizzesSolved, streak, lastGM };
+    const id = window.setTimeout(() => void saveProgress(progress), 1000);
+    return () => clearTimeout(id);
+  }, [profileMerged, saveProgress, furthestLevel, score, hints, quizzesSolved, streak, lastGM]);
 
-  const handleGM = () => {
-    if (!canGM) return;
-    const newStreak = streak + 1;
-    setStreak(newStreak);
-    setCanGM(false);
-    if (typeof window !== "undefined") {
-      localStorage.setItem("base_streak", String(newStreak));
-      localStorage.setItem("base_last_gm", new Date().toDateString());
+  // Unlocks from before sign-in go up with the first sync; ones saved from other devices come back down.
+  useEffect(() => {
+    if (!profileMerged) return;
+    const id = window.setTimeout(async () => {
+      const remote = await syncAchievements(achievements);
+      if (remote) adoptAchievements(mergeUnlocked(achievementsRef.current, remote));
+    }, 1000);
+    return () => clearTimeout(id);
+  }, [profileMerged, syncAchievements, achievements]);
+
+  const currentSave = (): Omit<SaveGame, "savedAt"> => {
+    const state = gameRef.current;
+    const run = runRef.current;
+    return {
+      progress: { level: state.furthestLevel, score: state.score, hints: state.hints, quizzesSolved: state.quizzesSolved, streak, lastGM },
+      theme: isDarkMode ? "dark" : "light",
+      accessible,
+      locale,
+      difficulty: state.difficulty,
+      levels: records,
+      review,
+      achievements,
+      pendingHintPurchases,
+      board: { snapshot: snapshotBoard(state), elapsedMs: clock.elapsedMs(), run: run && { ...run, actions: [...run.actions] } },
+    };
+  };
+  const currentSaveRef = useRef(currentSave);
+  currentSaveRef.current = currentSave;
+
+  useEffect(() => {
+    // Nothing to save until the first board has been dealt or resumed
+    if (gameRef.current.seed) writeSave(currentSaveRef.current());
+  }, [writeSave, game, streak, lastGM, isDarkMode, accessible, locale, records, review, achievements, pendingHintPurchases]);
+
+  // The level clock only reaches the save when something else changes, so write it out as the page goes away.
+  useEffect(() => {
+    const flush = () => {
+      if (gameRef.current.seed) writeSave(currentSaveRef.current(), true);
+    };
+    const onVisibilityChange = () => document.visibilityState === "hidden" && flush();
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [writeSave]);
+
+  // Takes over a save written by another tab when it is further along, or one the player imported.
+  const adoptSave = (save: SaveGame, imported: boolean) => {
+    setIsDarkMode(save.theme === "dark");
+    setAccessible(save.accessible);
+    setLocale(save.locale);
+    dispatch({ type: "setDifficulty", difficulty: save.difficulty });
+    setRecords((prev) => (imported ? save.levels : mergeLevelRecords(prev, save.levels)));
+    setReview((prev) => (imported ? save.review : { ...prev, ...save.review }));
+    adoptAchievements(imported ? save.achievements : mergeUnlocked(achievementsRef.current, save.achievements));
+    setPendingHintPurchases((prev) => (imported ? save.pendingHintPurchases : [...new Set([...prev, ...save.pendingHintPurchases])]));
+    const local = { ...gameRef.current, level: gameRef.current.furthestLevel, streak, lastGM };
+    if (imported || isAhead(save.progress, local)) {
+      dispatch({ type: "restore", progress: save.progress });
+      if (save.board) resumeBoard(save.board);
+      setStreak(save.progress.streak);
+      setLastGM(save.progress.lastGM);
+    } else if (isAhead(local, save.progress)) {
+      // This tab is ahead: put its progress back so the other tab adopts it instead.
+      writeSave({ ...currentSave(), theme: save.theme, accessible: save.accessible, locale: save.locale });
     }
-    setScore((s) => s + 500);
-    setHints((h) => h + 1);
   };
 
-  const handleCardClick = (index: number) => {
-    if (flippedIndices.length === 2) return;
-    const c = cards[index];
-    if (!c || c.isFlipped || c.isMatched) return;
-
-    const newCards = [...cards];
-    newCards[index] = { ...c, isFlipped: true };
-    setCards(newCards);
-
-    const newFlipped = [...flippedIndices, index];
-    setFlippedIndices(newFlipped);
-
-    if (newFlipped.length === 2) {
-      const [i1, i2] = newFlipped;
-      const a = newCards[i1];
-      const b = newCards[i2];
-
-      if (a.pairId === b.pairId) {
-        const id = window.setTimeout(() => {
-          const matched = [...newCards];
-          matched[i1] = { ...matched[i1], isMatched: true };
-          matched[i2] = { ...matched[i2], isMatched: true };
-          setCards(matched);
-          setFlippedIndices([]);
-          setScore((s) => s + 30 * level);
-
-          if (matched.every((c) => c.isMatched)) {
-            setShowQuiz(true);
-          }
-        }, 200);
-        timersRef.current.push(id);
-      } else {
-        const id = window.setTimeout(() => {
-          const reset = [...newCards];
-          reset[i1] = { ...reset[i1], isFlipped: false };
-          reset[i2] = { ...reset[i2], isFlipped: false };
-          setCards(reset);
-          setFlippedIndices([]);
-        }, flipBackDelay);
-        timersRef.current.push(id);
-      }
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      adoptSave(await importSave(file), true);
+      setNotice({ key: "notice.saveImported" });
+    } catch (error) {
+      setNotice({ key: "notice.importFailed", params: { error: (error as Error).message } });
     }
   };
 
-  const useHint = () => {
-    if (hints <= 0 || flippedIndices.length > 0) return;
-    setHints((h) => h - 1);
-    const unmatchedIdx = cards.findIndex((c) => !c.isMatched && !c.isFlipped);
-    if (unmatchedIdx === -1) return;
-    const pairId = cards[unmatchedIdx].pairId;
-    const indices = cards.reduce<number[]>((acc, c, idx) => (c.pairId === pairId ? acc.concat(idx) : acc), []);
-    const hinted = [...cards];
-    indices.forEach((i) => (hinted[i] = { ...hinted[i], isFlipped: true }));
-    setCards(hinted);
-
-    const id = window.setTimeout(() => {
-      const reset = [...hinted];
-      indices.forEach((i) => {
-        if (!reset[i].isMatched) reset[i] = { ...reset[i], isFlipped: false };
-      });
-      setCards(reset);
-    }, 1200);
-    timersRef.current.push(id);
+  const toggleTheme = () => setIsDarkMode((v) => !v);
+  const toggleAccessible = () => setAccessible((v) => !v);
+  const changeLocale = (e: React.ChangeEvent<HTMLSelectElement>) => setLocale(isLocale(e.target.value) ? e.target.value : null);
+
+  // The +500 points and hint are only granted once the server has verified the GM.
+  const handleGM = async (onchain = false) => {
+    if (!canGM) return;
+    if (await gm.checkIn(onchain)) dispatch({ type: "checkIn" });
   };
 
-  const handleQuizAnswer = async (idx: number) => {
-    if (idx === LEVEL_DATA[level].quiz.answer) {
-      const nextSolved = quizzesSolved + 1;
-      setQuizzesSolved(nextSolved);
-      setScore((s) => s + level * 200);
-      if (nextSolved % 5 === 0) setHints((h) => h + 2);
-
-      // Close quiz modal and show transaction modal
-      setShowQuiz(false);
-      setShowTransactionModal(true);
-    } else {
-      initLevel(level);
-      setShowQuiz(false);
+  const handleCardClick = (index: number) => dispatch({ type: "flip", index });
+
+  const playDailyBoard = () => startRun(dailySeed());
+
+  const copySeedLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setSeedCopied(true);
+    } catch (error) {
+      console.error("Failed to copy seed link:", error);
     }
   };
 
-  // MiniKit Transaction Handler - Using Farcaster SDK directly
-  const handleTransaction = async () => {
-    try {
-      setTransactionStatus('loading');
-
-      // Create a small transaction (0.0001 ETH to a test address)
-      const result = await sdk.actions.sendTransaction({
-        chainId: 8453, // Base mainnet
-        to: '0x0000000000000000000000000000000000000000', // Replace with your address
-        value: '0x9184e72a', // 0.0001 ETH in hex
-        data: '0x', // No data
-      });
+  const spendHint = (hint: HintType, payWith: HintPayment) => {
+    if (dispatch({ type: "useHint", hint, payWith }).some((e) => e.type === "hintUsed")) setShowHintShop(false);
+  };
 
-      if (result && result.transactionHash) {
-        setTransactionHash(result.transactionHash);
-        setTransactionStatus('success');
+  // Switching mode mid-level deals the level again in the new mode.
+  const changeDifficulty = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (isDifficulty(e.target.value)) dispatch({ type: "setDifficulty", difficulty: e.target.value });
+  };
 
-        // Add bonus score for completing transaction
-        setScore((s) => s + 1000);
+  const handleQuizAnswer = (idx: number) => {
+    const question = currentQuestion(gameRef.current, engineContext);
+    const answered = dispatch({ type: "answerQuiz", option: idx }).find((e) => e.type === "quizAnswered");
+    if (!answered) return;
+    setQuizFeedback({ question, correct: answered.correct });
+    if (!answered.correct) setReview((deck) => recordMiss(deck, question.id, Date.now()));
+  };
 
-        // Move to next level after 2 seconds
-        setTimeout(() => {
-          proceedToNextLevel();
-        }, 2000);
-      } else {
-        throw new Error("Transaction failed");
-      }
-    } catch (error) {
-      console.error("Transaction error:", error);
-      setTransactionStatus('error');
-    }
+  // Review mode deals the due questions fresh each session, so options are not in the order last seen.
+  const startReview = () => {
+    const random = createRandom(randomSeed());
+    const questions = dueCards(review, Date.now())
+      .map((id) => prepareQuestion(id, levels, random, engineContext.quizText))
+      .filter((q): q is PreparedQuestion => q !== null);
+    setReviewQuestions(questions);
+  };
+
+  const answerReview = (id: string, correct: boolean) => setReview((deck) => recordReview(deck, id, correct, Date.now()));
+
+  // Level completion: calls completeLevel on the game contract and waits for it to confirm before awarding the bonus
+  const handleTransaction = async () => {
+    // Add bonus score for completing transaction
+    // The hash commits to the level's points, which is the score the server keeps for the run.
+    const finished = gameRef.current;
+    const run = { level: finished.level, seed: finished.seed, score: finished.stats.points };
+    const confirmed = await levelTx.submit(run, () => dispatch({ type: "payFee" }));
+    // Move to next level after 2 seconds
+    if (confirmed) finishLevel(2000);
   };
 
   const handleConnect = async () => {
@@ -345,39 +662,30 @@ const BaseMemoryGame: React.FC = () => {
 
   const skipTransaction = () => {
     // User skips transaction, proceed without bonus
-    proceedToNextLevel();
+    finishLevel();
   };
 
-  const proceedToNextLevel = () => {
-    if (level < TOTAL_LEVELS) {
-      const nextLvl = level + 1;
-      setLevel(nextLvl);
-      initLevel(nextLvl);
-      setShowTransactionModal(false);
-      setTransactionStatus('idle');
-      setTransactionHash(null);
-    } else {
-      setGameComplete(true);
-      setShowTransactionModal(false);
+  // Moves on to the next level, or to the level select while the next one's unlock rule isn't met.
+  const finishLevel = (delay = 0) => {
+    const { level: current, furthestLevel } = gameRef.current;
+    const next = unlockStatus(current + 1, { furthestLevel, records });
+    if (current >= TOTAL_LEVELS || next.unlocked) {
+      schedule({ type: "advance" }, delay);
+      return;
     }
+    const notice: Notice = { key: "notice.levelLocked", params: { level: current + 1, reason: requirementText(next.requires, t) } };
+    const id = window.setTimeout(() => setLevelMap({ required: true, notice }), delay);
+    timersRef.current.push(id);
   };
 
-  const progressPercent = (level / TOTAL_LEVELS) * 100;
-
-  const onCardKey = (e: React.KeyboardEvent, idx: number) => {
-    if (e.key === "Enter" || e.key === " ") {
-      e.preventDefault();
-      handleCardClick(idx);
-    }
+  const selectLevel = (next: number) => {
+    setLevelMap(null);
+    dispatch({ type: "selectLevel", level: next });
   };
 
-  // Calculate responsive grid columns based on number of pairs
-  const getGridColumns = () => {
-    const pairsCount = LEVEL_DATA[level].pairs.length;
-    if (pairsCount <= 4) return "grid-cols-2 sm:grid-cols-3 md:grid-cols-4";
-    if (pairsCount === 5) return "grid-cols-2 sm:grid-cols-3 md:grid-cols-5";
-    return "grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6";
-  };
+  const progressPercent = (level / TOTAL_LEVELS) * 100;
+
+  const dueCount = dueCards(review, Date.now()).length;
 
   return (
     <>
@@ -466,52 +774,125 @@ const BaseMemoryGame: React.FC = () => {
             transition: transform 0.4s;
           }
         }
+
+        /* No flip or spinner motion for players who ask for less, or in accessible mode */
+        @media (prefers-reduced-motion: reduce) {
+          .card-inner, .card-container:hover .card-inner:not(.card-flipped) {
+            transition: none;
+            transform: none;
+          }
+          .animate-pulse, .animate-spin {
+            animation: none;
+          }
+        }
+        .reduce-motion .card-inner, .reduce-motion .card-container:hover .card-inner:not(.card-flipped) {
+          transition: none;
+        }
+        .reduce-motion .animate-pulse, .reduce-motion .animate-spin {
+          animation: none;
+        }
       `}</style>
 
-      <div className={`min-h-screen p-4 md:p-8 flex flex-col items-center relative z-10 transition-colors duration-300 ${isDarkMode ? "bg-[#000814] text-white" : "bg-white text-slate-900"}`}>
+      <I18nContext.Provider value={translator}>
+      <div dir={translator.dir} lang={translator.locale} className={`min-h-screen p-4 md:p-8 flex flex-col items-center relative z-10 transition-colors duration-300 ${isDarkMode ? "bg-[#000814] text-white" : "bg-white text-slate-900"} ${accessible ? "reduce-motion" : ""}`}>
+        <LiveRegion announcement={announcement} />
         {/* Header */}
         <div className="w-full max-w-7xl flex flex-col md:flex-row justify-between items-center gap-4 mb-6">
           <div className="flex items-center gap-3">
             <div className={`w-3 h-3 rounded-full ${canGM ? "bg-orange-500 animate-pulse" : "bg-emerald-500"}`} aria-hidden />
-            <span className="text-xs font-semibold tracking-wider opacity-70">Status: {canGM ? "Awaiting GM" : "Protocol Synced"}</span>
+            <span className="text-xs font-semibold tracking-wider opacity-70">{t(canGM ? "status.awaitingGM" : "status.synced")}</span>
           </div>
 
           <div className="flex items-center gap-3">
+            {/* Farcaster Sign-in Status */}
+            <div className="flex items-center gap-2">
+              <div className={`w-2 h-2 rounded-full ${player.status === "signed-in" ? "bg-green-500" : "bg-gray-400"}`} />
+              <span className="text-xs">
+                {player.status === "signed-in"
+                  ? player.username ? `@${player.username}` : t("player.fid", { fid: String(player.fid) })
+                  : t(player.status === "connecting" ? "player.signingIn" : "player.local")}
+              </span>
+            </div>
+
             {/* Wallet Connection Status */}
             <div className="flex items-center gap-2">
               <div className={`w-2 h-2 rounded-full ${isConnected ? "bg-green-500" : "bg-red-500"}`} />
               <span className="text-xs">
-                {isConnected ? `${address?.slice(0, 6)}...${address?.slice(-4)}` : "Wallet Disconnected"}
+                {isConnected ? `${address?.slice(0, 6)}...${address?.slice(-4)}` : t("wallet.disconnected")}
               </span>
             </div>
             
-            <button onClick={toggleTheme} aria-pressed={!isDarkMode} className="px-3 py-2 rounded-full border text-sm">{isDarkMode ? "Switch to Light" : "Switch to Dark"}</button>
+            {remindersOn !== null && (
+              <button onClick={toggleReminders} aria-pressed={remindersOn} className="px-3 py-2 rounded-full border text-sm">
+                {t(remindersOn ? "settings.remindersOn" : "settings.remindersOff")}
+              </button>
+            )}
+
+            <button onClick={exportSave} className="px-3 py-2 rounded-full border text-sm">{t("settings.exportSave")}</button>
+            <button onClick={() => importInputRef.current?.click()} className="px-3 py-2 rounded-full border text-sm">{t("settings.importSave")}</button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+
+            <button onClick={toggleTheme} aria-pressed={!isDarkMode} className="px-3 py-2 rounded-full border text-sm">{t(isDarkMode ? "settings.lightTheme" : "settings.darkTheme")}</button>
+            <button onClick={toggleAccessible} aria-pressed={accessible} className="px-3 py-2 rounded-full border text-sm">
+              {t(accessible ? "settings.accessibleOn" : "settings.accessibleOff")}
+            </button>
+            <select value={locale ?? ""} onChange={changeLocale} aria-label={t("settings.language")} className="px-3 py-2 rounded-full border text-sm bg-transparent">
+              <option value="">{t("settings.languageAuto", { language: LOCALE_NAMES[detected] })}</option>
+              {LOCALES.map((code) => (
+                <option key={code} value={code} lang={code}>{LOCALE_NAMES[code]}</option>
+              ))}
+            </select>
           </div>
         </div>
 
+        {notice && (
+          <div role="status" className="w-full max-w-7xl mb-4 p-3 rounded-lg bg-white/5 text-sm flex justify-between items-center">
+            <span>{t(notice.key, notice.params)}</span>
+            <button onClick={() => setNotice(null)} className="px-2 opacity-70">{t("notice.dismiss")}</button>
+          </div>
+        )}
+
         {/* Meta */}
         <header className="w-full max-w-7xl flex flex-col lg:flex-row justify-between items-start gap-4 mb-8">
           <div className="flex items-center gap-4 p-4 rounded-2xl bg-gradient-to-r from-blue-800 to-blue-600 shadow-inner">
             <div className="w-12 h-12 rounded-lg bg-white/5 flex items-center justify-center font-bold">BD</div>
             <div>
               <p className="text-lg font-extrabold tracking-tight">baseagent.docs.eth</p>
-              <p className="text-xs opacity-60 font-mono uppercase tracking-wide">Verified Documentation Hub</p>
+              <p className="text-xs opacity-60 font-mono uppercase tracking-wide">{t("hub.subtitle")}</p>
             </div>
           </div>
 
           <div className="flex flex-wrap gap-3 items-center">
-            <button onClick={handleGM} disabled={!canGM} className={`px-4 py-3 rounded-xl font-semibold ${canGM ? "bg-orange-600 text-white" : "bg-gray-200 text-gray-500 cursor-not-allowed"}`}>Daily Check-in</button>
-            <div className="p-3 rounded-xl bg-white/5 text-center"><p className="text-xs uppercase opacity-60">Streak</p><p className="font-bold text-2xl">{streak}</p></div>
-            <div className="p-3 rounded-xl bg-white/5 text-center"><p className="text-xs uppercase opacity-60">Score</p><p className="font-bold text-2xl">{score}</p></div>
-            <div className="p-3 rounded-xl bg-white/5 text-center"><p className="text-xs uppercase opacity-60">Level</p><p className="font-bold text-2xl">{level}</p></div>
+            <button
+              onClick={() => handleGM()}
+              disabled={!canGM}
+              title={player.status === "signed-in" ? undefined : t("gm.signInFirst")}
+              className={`px-4 py-3 rounded-xl font-semibold ${canGM ? "bg-orange-600 text-white" : "bg-gray-200 text-gray-500 cursor-not-allowed"}`}
+            >
+              {t(gm.status === "signing" ? "gm.signing" : gm.status === "verifying" ? "gm.verifying" : "gm.checkIn")}
+            </button>
+            {gm.canGoOnchain && canGM && (
+              <button onClick={() => handleGM(true)} className="px-4 py-3 rounded-xl font-semibold border">{t("gm.onchain")}</button>
+            )}
+            {gm.status === "no-wallet" && <p className="text-xs text-red-400 max-w-48">{t("gm.connectWallet")}</p>}
+            {gm.status === "error" && <p className="text-xs text-red-400 max-w-48">{gm.error}</p>}
+            <div className="p-3 rounded-xl bg-white/5 text-center">
+              <p className="text-xs uppercase opacity-60">{t("stats.streak")}</p>
+              <p className="font-bold text-2xl">{translator.formatNumber(streak)}</p>
+              {gm.streak && gm.streak.freezes > 0 && (
+                <p className="text-xs opacity-60">{t("stats.freezes", { count: gm.streak.freezes })}</p>
+              )}
+            </div>
+            <div className="p-3 rounded-xl bg-white/5 text-center"><p className="text-xs uppercase opacity-60">{t("stats.score")}</p><p className="font-bold text-2xl">{translator.formatNumber(score)}</p></div>
+            <div className="p-3 rounded-xl bg-white/5 text-center"><p className="text-xs uppercase opacity-60">{t("stats.level")}</p><p className="font-bold text-2xl">{translator.formatNumber(level)}</p></div>
           </div>
         </header>
 
         {/* Progress */}
         <div className="w-full max-w-5xl mb-6 px-2">
           <div className="flex justify-between text-xs font-semibold uppercase opacity-70 mb-2">
-            <span>Layer {level} / {TOTAL_LEVELS}</span>
-            <span>{Math.round(progressPercent)}% synced</span>
+            <span>{t("progress.layer", { level, total: TOTAL_LEVELS })}</span>
+            <span>{t("progress.synced", { percent: Math.round(progressPercent) })}</span>
           </div>
           <div className="h-3 w-full bg-white/5 rounded-full overflow-hidden">
             <div className="h-full transition-all" style={{ width: `${progressPercent}%`, background: "linear-gradient(90deg,#0066ff,#00c2ff)" }} />
@@ -522,236 +903,304 @@ const BaseMemoryGame: React.FC = () => {
         <main className="w-full max-w-6xl flex-grow">
           <div className="flex flex-col md:flex-row justify-between items-start gap-6 mb-6">
             <div>
-              <h2 className="text-3xl font-extrabold uppercase">{LEVEL_DATA[level].theme}</h2>
-              <p className="text-sm opacity-70 mt-1">{LEVEL_DATA[level].lesson}</p>
+              <h2 className="text-3xl font-extrabold uppercase">{levels[level - 1].theme}</h2>
+              <p className="text-sm opacity-70 mt-1">{levels[level - 1].lesson}</p>
+              {seed && (
+                <p className="text-xs opacity-60 mt-2 font-mono">
+                  {t(isDailySeed(seed) ? "board.daily" : "board.seed", { seed })}
+                  <button onClick={copySeedLink} className="ms-2 underline">{t(seedCopied ? "board.linkCopied" : "board.copyLink")}</button>
+                  <span className="ms-3">{t("board.time", { time: formatClock(clock.seconds) })}</span>
+                  {phase === "preview" && <span className="ms-3 font-bold">{t("board.memorize")}</span>}
+                  {challenge && <span className="ms-3 font-bold">{t("board.challenge", { target: challenge.data.target })}</span>}
+                </p>
+              )}
             </div>
             <div className="flex gap-3">
-              <button onClick={() => setShowLesson(true)} className="px-4 py-2 border rounded-md">Read Docs</button>
-              <button onClick={useHint} disabled={hints <= 0} className={`px-4 py-2 rounded-md ${hints > 0 ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-500 cursor-not-allowed"}`}>Hint ({hints})</button>
+              <select value={difficulty} onChange={changeDifficulty} aria-label={t("menu.difficulty")} className="px-3 py-2 border rounded-md bg-transparent">
+                {DIFFICULTIES.map((mode) => (
+                  <option key={mode} value={mode}>{t(`difficulty.${mode}`)}</option>
+                ))}
+              </select>
+              <button onClick={playDailyBoard} disabled={seed === dailySeed()} className="px-4 py-2 border rounded-md disabled:opacity-50">{t("menu.dailyBoard")}</button>
+              <button onClick={() => setLevelMap({ required: false })} className="px-4 py-2 border rounded-md">{t("menu.levels")}</button>
+              <Link href={`/match?lang=${translator.locale}`} className="px-4 py-2 border rounded-md">{t("menu.versus")}</Link>
+              <button onClick={startReview} disabled={dueCount === 0} className="px-4 py-2 border rounded-md disabled:opacity-50">{t("menu.review", { count: dueCount })}</button>
+              <button onClick={() => setShowLesson(true)} className="px-4 py-2 border rounded-md">{t("menu.readDocs")}</button>
+              <button onClick={() => setShowBadges(true)} className="px-4 py-2 border rounded-md">{t("menu.badges")}</button>
+              <button onClick={() => setShowAchievements(true)} className="px-4 py-2 border rounded-md">
+                {t("menu.achievements", { unlocked: ACHIEVEMENTS.filter((a) => a.id in achievements).length, total: ACHIEVEMENTS.length })}
+              </button>
+              <button onClick={() => setShowHintShop(true)} className="px-4 py-2 rounded-md bg-blue-600 text-white">{t("menu.hints", { count: freeHints + hints })}</button>
             </div>
           </div>
 
-          <section aria-label="memory game board" className={`grid gap-4 ${getGridColumns()}`}>
-            {cards.map((card, idx) => (
-              <div 
-                key={card.id} 
-                className="card-container"
-                onClick={() => handleCardClick(idx)}
-                onKeyDown={(e) => onCardKey(e, idx)}
-                tabIndex={0}
-                role="button"
-                aria-label={`card ${idx + 1} ${card.isMatched ? "matched" : card.isFlipped ? "flipped" : "face down"}`}
-              >
-                <div className={`card-inner ${card.isFlipped || card.isMatched ? "card-flipped" : ""}`}>
-                  <div className="card-front">
-                    <div className="text-sm uppercase font-semibold opacity-80">
-                      {card.isMatched ? "✓ Matched" : "Tap to reveal"}
-                    </div>
-                  </div>
-                  <div className={`card-back ${card.isMatched ? "card-matched" : ""}`}>
-                    <div className="text-sm font-bold leading-tight">{card.content}</div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </section>
+          <CardGrid cards={cards} onFlip={handleCardClick} />
         </main>
 
         {/* Quiz Modal */}
-        {showQuiz && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60">
-            <div className="max-w-lg w-full bg-white/5 backdrop-blur-lg rounded-2xl p-8">
-              <h3 className="text-2xl font-extrabold mb-4">Layer {level} Quiz</h3>
-              <p className="text-lg mb-6">{LEVEL_DATA[level].quiz.question}</p>
-              <div className="space-y-3">
-                {LEVEL_DATA[level].quiz.options.map((option, idx) => (
-                  <button
-                    key={idx}
-                    onClick={() => handleQuizAnswer(idx)}
-                    className="w-full p-4 text-left rounded-lg border hover:bg-white/5 transition-colors"
-                  >
-                    {option}
-                  </button>
-                ))}
-              </div>
-              <button onClick={() => setShowQuiz(false)} className="mt-6 px-4 py-2 border rounded-md">Cancel</button>
+        {phase === "quiz" && (
+          <Dialog labelledBy="quiz-title" className="max-w-lg w-full bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+            <h3 id="quiz-title" className="text-2xl font-extrabold mb-4">{t("quiz.title", { level })}</h3>
+            <QuizQuestion question={currentQuestion(game, engineContext)} onAnswer={handleQuizAnswer} />
+          </Dialog>
+        )}
+
+        {phase === "results" && (
+          <LevelResults
+            level={level}
+            par={levelPar(game)}
+            stats={game.stats}
+            elapsedMs={clock.elapsedMs()}
+            best={records[level]?.stars}
+            onContinue={() => dispatch({ type: "closeResults" })}
+          >
+            {challenge?.score !== undefined && (
+              <p className={`mb-4 font-bold ${challenge.score > challenge.data.target ? "text-green-400" : ""}`}>
+                {challenge.score > challenge.data.target
+                  ? t("challenge.beaten", { score: challenge.score, target: challenge.data.target })
+                  : t("challenge.stands", { score: challenge.score, target: challenge.data.target })}
+              </p>
+            )}
+            {player.status === "signed-in" && (
+              <button onClick={shareResult} className="w-full mb-3 py-3 border rounded-lg">
+                {t("share.result")}
+              </button>
+            )}
+            {player.status === "signed-in" && (
+              <button onClick={shareChallenge} disabled={challengeShare === "sharing"} className="w-full mb-3 py-3 border rounded-lg disabled:opacity-50">
+                {t(challengeShare === "sharing" ? "challenge.creating" : challengeShare === "failed" ? "challenge.failed" : "challenge.create")}
+              </button>
+            )}
+          </LevelResults>
+        )}
+
+        {/* Quiz answer, over the results screen or the reshuffled board */}
+        {quizFeedback && (
+          <Dialog labelledBy="quiz-feedback-title" describedBy="quiz-feedback" className="max-w-lg w-full bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+            <h3 id="quiz-feedback-title" className="text-2xl font-extrabold mb-4">{t("quiz.title", { level })}</h3>
+            <p className="text-lg">{quizFeedback.question.prompt}</p>
+            <div id="quiz-feedback">
+              <QuizExplanation question={quizFeedback.question} correct={quizFeedback.correct} />
+              {!quizFeedback.correct && (
+                <p className="text-sm opacity-70 mt-4">{t("quiz.reshuffled")}</p>
+              )}
             </div>
-          </div>
+            <button onClick={() => setQuizFeedback(null)} className="mt-6 w-full py-3 bg-blue-600 text-white rounded-lg">{t("common.continue")}</button>
+          </Dialog>
         )}
 
-        {/* Transaction Modal - Shows after quiz completion */}
-        {showTransactionModal && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60">
-            <div className="max-w-md w-full bg-white/5 backdrop-blur-lg rounded-2xl p-8">
-              <h3 className="text-2xl font-extrabold mb-4">🎉 Level {level} Completed!</h3>
-              
-              <div className="mb-6 p-4 rounded-lg bg-blue-900/20 border border-blue-500/20">
-                <p className="text-center mb-2">Complete transaction to unlock:</p>
-                <ul className="space-y-2 text-sm">
-                  <li className="flex items-center gap-2">✓ +1000 Bonus Points</li>
-                  <li className="flex items-center gap-2">✓ Layer {level + 1} Access</li>
-                  <li className="flex items-center gap-2">✓ Transaction Badge</li>
-                </ul>
-              </div>
+        {/* Transaction Modal - Shows after the results screen */}
+        {phase === "transaction" && (
+          <Dialog labelledBy="transaction-title" className="max-w-md w-full bg-white/5 backdrop-blur-lg rounded-2xl p-8">
+            <h3 id="transaction-title" className="text-2xl font-extrabold mb-4">{t("tx.title", { level })}</h3>
+            
+            <div className="mb-6 p-4 rounded-lg bg-blue-900/20 border border-blue-500/20">
+              <p className="text-center mb-2">{t("tx.unlock")}</p>
+              <ul className="space-y-2 text-sm">
+                <li className="flex items-center gap-2">{t("tx.rewardPoints", { points: FEE_BONUS })}</li>
+                <li className="flex items-center gap-2">{t("tx.rewardAccess", { level: level + 1 })}</li>
+                <li className="flex items-center gap-2">{t("tx.rewardBadge")}</li>
+              </ul>
+            </div>
 
-              {transactionStatus === 'idle' && (
-                <>
-                  <div className="mb-6 p-4 rounded-lg bg-white/5">
-                    <div className="flex justify-between mb-2">
-                      <span className="opacity-70">Transaction Fee:</span>
-                      <span className="font-bold">~$0.01 - $0.05</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="opacity-70">Network:</span>
-                      <span className="font-bold">Base</span>
-                    </div>
+            {levelTx.status === 'idle' && (
+              <>
+                <div className="mb-6 p-4 rounded-lg bg-white/5">
+                  <div className="flex justify-between mb-2">
+                    <span className="opacity-70">{t("tx.fee")}</span>
+                    <span className="font-bold">{formatEther(levelFeeWei)} ETH</span>
                   </div>
-
-                  <div className="space-y-3">
-                    <button
-                      onClick={!isConnected ? handleConnect : handleTransaction}
-                      disabled={transactionStatus === 'loading'}
-                      className="w-full py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
-                    >
-                      {!isConnected ? "Connect Wallet & Pay Fee" : "Pay Fee & Continue"}
-                    </button>
-                    
-                    <button
-                      onClick={skipTransaction}
-                      className="w-full py-4 border rounded-lg hover:bg-white/5 transition-colors"
-                    >
-                      Skip & Continue Without Bonus
-                    </button>
+                  <div className="flex justify-between mb-2">
+                    <span className="opacity-70">{t("tx.gas")}</span>
+                    <span className="font-bold">{t(levelTx.canSponsor ? "tx.gasSponsored" : "tx.gasPaid")}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="opacity-70">{t("tx.network")}</span>
+                    <span className="font-bold">{gameChain.name}</span>
                   </div>
-                </>
-              )}
-
-              {transactionStatus === 'loading' && (
-                <div className="text-center py-8">
-                  <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-                  <p className="text-lg">Processing Transaction...</p>
-                  <p className="text-sm opacity-70 mt-2">Please confirm in your wallet</p>
                 </div>
-              )}
 
-              {transactionStatus === 'success' && (
-                <div className="text-center py-8">
-                  <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
-                    <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                    </svg>
-                  </div>
-                  <p className="text-lg font-bold text-green-400">Transaction Successful!</p>
-                  <p className="text-sm opacity-70 mt-2">+1000 Bonus Points Added</p>
-                  {transactionHash && (
-                    <a 
-                      href={`https://basescan.org/tx/${transactionHash}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="mt-4 inline-block text-blue-400 hover:text-blue-300 text-sm"
-                    >
-                      View on BaseScan →
-                    </a>
+                <div className="space-y-3">
+                  <button
+                    onClick={!isConnected ? handleConnect : handleTransaction}
+                    disabled={!gameContractAddress}
+                    className="w-full py-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                  >
+                    {t(!isConnected ? "tx.connectAndPay" : "tx.pay")}
+                  </button>
+                  {!gameContractAddress && (
+                    <p className="text-xs text-center opacity-70">{t("tx.notConfigured")}</p>
                   )}
-                </div>
-              )}
 
-              {transactionStatus === 'error' && (
-                <div className="text-center py-8">
-                  <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
-                    <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                  </div>
-                  <p className="text-lg font-bold text-red-400">Transaction Failed</p>
-                  <p className="text-sm opacity-70 mt-2">Please try again or skip</p>
-                  <div className="mt-6 space-y-3">
-                    <button
-                      onClick={handleTransaction}
-                      className="w-full py-3 bg-blue-600 text-white rounded-lg"
-                    >
-                      Try Again
-                    </button>
-                    <button
-                      onClick={skipTransaction}
-                      className="w-full py-3 border rounded-lg"
-                    >
-                      Skip & Continue
-                    </button>
-                  </div>
+                  <button
+                    onClick={skipTransaction}
+                    className="w-full py-4 border rounded-lg hover:bg-white/5 transition-colors"
+                  >
+                    {t("tx.skipWithoutBonus")}
+                  </button>
                 </div>
-              )}
-            </div>
-          </div>
+              </>
+            )}
+
+            {levelTx.status === 'loading' && (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-lg">{t("tx.processing")}</p>
+                <p className="text-sm opacity-70 mt-2">{t(levelTx.hash ? "tx.waiting" : "tx.confirmInWallet")}</p>
+              </div>
+            )}
+
+            {levelTx.status === 'success' && (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                </div>
+                <p className="text-lg font-bold text-green-400">{t("tx.success")}</p>
+                <p className="text-sm opacity-70 mt-2">{t("tx.bonusAdded", { points: FEE_BONUS })}</p>
+                {levelTx.sponsored !== null && (
+                  <p className="text-sm opacity-70 mt-2">{t(levelTx.sponsored ? "tx.sponsoredByPaymaster" : "tx.paidFromWallet")}</p>
+                )}
+                {levelTx.badgeStatus === 'minting' && <p className="text-sm opacity-70 mt-2">{t("tx.badgeMinting", { level })}</p>}
+                {levelTx.badgeStatus === 'minted' && <p className="text-sm text-green-400 mt-2">{t("tx.badgeMinted", { level })}</p>}
+                {levelTx.badgeStatus === 'failed' && <p className="text-sm text-red-400 mt-2">{t("tx.badgeFailed")}</p>}
+                {levelTx.hash && (
+                  <a 
+                    href={explorerTxUrl(levelTx.hash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-4 inline-block text-blue-400 hover:text-blue-300 text-sm"
+                  >
+                    {t("tx.viewOn", { explorer: gameChain.blockExplorers.default.name })}
+                  </a>
+                )}
+              </div>
+            )}
+
+            {levelTx.status === 'error' && (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </div>
+                <p className="text-lg font-bold text-red-400">{t("tx.failed")}</p>
+                <p className="text-sm opacity-70 mt-2">{t("tx.retryOrSkip")}</p>
+                <div className="mt-6 space-y-3">
+                  <button
+                    onClick={handleTransaction}
+                    className="w-full py-3 bg-blue-600 text-white rounded-lg"
+                  >
+                    {t("tx.tryAgain")}
+                  </button>
+                  <button
+                    onClick={skipTransaction}
+                    className="w-full py-3 border rounded-lg"
+                  >
+                    {t("tx.skip")}
+                  </button>
+                </div>
+              </div>
+            )}
+          </Dialog>
         )}
 
+        {/* Badge Gallery Modal */}
+        {showBadges && <BadgeGallery address={address} refreshKey={levelTx.badgeRefresh} onClose={() => setShowBadges(false)} />}
+
+        {/* Hint Shop Modal */}
+        {showHintShop && (
+          <HintShop
+            game={game}
+            onUse={spendHint}
+            purchase={hintPurchase.available ? { status: hintPurchase.status, error: hintPurchase.error, onBuy: hintPurchase.buy } : undefined}
+            onClose={() => setShowHintShop(false)}
+          />
+        )}
+
+        {/* Achievements Modal */}
+        {showAchievements && <AchievementsPanel unlocked={achievements} onClose={() => setShowAchievements(false)} />}
+
+        <AchievementToasts toasts={toasts} onDismiss={dismissToast} />
+
         {/* Documentation Modal */}
         {showLesson && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60">
-            <div className="max-w-2xl w-full bg-white/5 rounded-2xl p-8">
-              <h3 className="text-2xl font-extrabold">Layer {level} Documentation</h3>
-              <p className="mt-4 opacity-80">{LEVEL_DATA[level].lesson}</p>
-              <div className="mt-6 flex gap-3">
-                <button onClick={() => setShowLesson(false)} className="px-4 py-2 bg-blue-600 text-white rounded-md">Initialize Challenge</button>
-                <button onClick={() => setShowLesson(false)} className="px-4 py-2 border rounded-md">Close</button>
-              </div>
+          <Dialog labelledBy="lesson-title" className="max-w-2xl w-full bg-white/5 rounded-2xl p-8">
+            <h3 id="lesson-title" className="text-2xl font-extrabold">{t("lesson.title", { level })}</h3>
+            <p className="mt-4 opacity-80">{levels[level - 1].lesson}</p>
+            <div className="mt-6 flex gap-3">
+              <button onClick={() => setShowLesson(false)} className="px-4 py-2 bg-blue-600 text-white rounded-md">{t("lesson.start")}</button>
+              <button onClick={() => setShowLesson(false)} className="px-4 py-2 border rounded-md">{t("common.close")}</button>
             </div>
-          </div>
+          </Dialog>
         )}
 
         {/* Game Complete Modal */}
-        {gameComplete && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60">
-            <div className="max-w-lg w-full bg-gradient-to-br from-blue-900/30 to-purple-900/30 backdrop-blur-lg rounded-2xl p-8 text-center">
-              <h3 className="text-3xl font-extrabold mb-4">🎊 Mission Complete!</h3>
-              <p className="text-xl mb-2">You have mastered all {TOTAL_LEVELS} layers</p>
-              <p className="opacity-80 mb-6">Final Score: {score}</p>
-              
-              <div className="grid grid-cols-3 gap-4 mb-8">
-                <div className="p-4 rounded-lg bg-white/5">
-                  <p className="text-xs uppercase opacity-60">Levels</p>
-                  <p className="text-2xl font-bold">{TOTAL_LEVELS}/{TOTAL_LEVELS}</p>
-                </div>
-                <div className="p-4 rounded-lg bg-white/5">
-                  <p className="text-xs uppercase opacity-60">Quizzes</p>
-                  <p className="text-2xl font-bold">{quizzesSolved}</p>
-                </div>
-                <div className="p-4 rounded-lg bg-white/5">
-                  <p className="text-xs uppercase opacity-60">Streak</p>
-                  <p className="text-2xl font-bold">{streak}</p>
-                </div>
+        {phase === "complete" && (
+          <Dialog labelledBy="complete-title" className="max-w-lg w-full bg-gradient-to-br from-blue-900/30 to-purple-900/30 backdrop-blur-lg rounded-2xl p-8 text-center">
+            <h3 id="complete-title" className="text-3xl font-extrabold mb-4">{t("complete.title")}</h3>
+            <p className="text-xl mb-2">{t("complete.mastered", { count: TOTAL_LEVELS })}</p>
+            <p className="opacity-80 mb-2">{t("complete.finalScore", { score })}</p>
+            <p className="opacity-80 mb-6">{t("complete.stars", { stars: totalStars(records), total: TOTAL_LEVELS * 3 })}</p>
+            
+            <div className="grid grid-cols-3 gap-4 mb-8">
+              <div className="p-4 rounded-lg bg-white/5">
+                <p className="text-xs uppercase opacity-60">{t("stats.levels")}</p>
+                <p className="text-2xl font-bold">{translator.formatNumber(TOTAL_LEVELS)}/{translator.formatNumber(TOTAL_LEVELS)}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-white/5">
+                <p className="text-xs uppercase opacity-60">{t("stats.quizzes")}</p>
+                <p className="text-2xl font-bold">{translator.formatNumber(quizzesSolved)}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-white/5">
+                <p className="text-xs uppercase opacity-60">{t("stats.streak")}</p>
+                <p className="text-2xl font-bold">{translator.formatNumber(streak)}</p>
               </div>
-
-              <button
-                onClick={() => {
-                  setGameComplete(false);
-                  setLevel(1);
-                  initLevel(1);
-                }}
-                className="w-full py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold text-lg"
-              >
-                Play Again
-              </button>
             </div>
-          </div>
+
+            <button
+              onClick={() => setLevelMap({ required: true, notice: { key: "notice.pickReplay" } })}
+              className="w-full py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold text-lg"
+            >
+              {t("complete.playAgain")}
+            </button>
+          </Dialog>
+        )}
+
+        {/* Level Select - after the other modals so it can open over the transaction and game complete screens */}
+        {levelMap && (
+          <LevelMap
+            currentLevel={level}
+            furthestLevel={furthestLevel}
+            records={records}
+            notice={levelMap.notice && t(levelMap.notice.key, levelMap.notice.params)}
+            onSelect={selectLevel}
+            onClose={levelMap.required ? undefined : () => setLevelMap(null)}
+          />
+        )}
+
+        {reviewQuestions && (
+          <ReviewSession questions={reviewQuestions} onAnswer={answerReview} onClose={() => setReviewQuestions(null)} />
         )}
 
         {/* Footer */}
         <footer className="mt-8 w-full max-w-7xl grid grid-cols-1 md:grid-cols-3 gap-4 text-sm opacity-70">
           <div className="p-4 rounded-lg bg-white/5">
-            <p className="font-bold">Paymasters</p>
-            <p className="mt-1 text-xs">The core layer for gasless user experiences on Base.</p>
+            <p className="font-bold">{t("footer.paymasters")}</p>
+            <p className="mt-1 text-xs">{t("footer.paymastersText")}</p>
           </div>
           <div className="p-4 rounded-lg bg-white/5">
-            <p className="font-bold">AI Agents</p>
-            <p className="mt-1 text-xs">Autonomous onchain logic via Smart Wallets.</p>
+            <p className="font-bold">{t("footer.agents")}</p>
+            <p className="mt-1 text-xs">{t("footer.agentsText")}</p>
           </div>
           <div className="p-4 rounded-lg bg-white/5">
-            <p className="font-bold">CDP SDK</p>
-            <p className="mt-1 text-xs">Simplifying Paymaster and Smart Account deployments.</p>
+            <p className="font-bold">{t("footer.cdp")}</p>
+            <p className="mt-1 text-xs">{t("footer.cdpText")}</p>
           </div>
         </footer>
       </div>
+      </I18nContext.Provider>
     </>
   );
 };
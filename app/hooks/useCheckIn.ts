@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { encodeFunctionData } from "viem";
+import { useAccount, usePublicClient, useSendTransaction, useSignTypedData, useSwitchChain } from "wagmi";
+import sdk from "@farcaster/miniapp-sdk";
+import { gameChain } from "@/lib/gameContract";
+import { gmContractAbi, gmContractAddress, gmMessage, gmTypedData, type Streak } from "@/lib/gm";
+
+/** `no-wallet` asks the player to connect one; the game says so in its own language. */
+export type CheckInStatus = "idle" | "signing" | "verifying" | "no-wallet" | "error";
+
+/**
+ * The daily GM for a signed-in player. The wallet signs today's GM (or sends
+ * a `gm` transaction when the GM contract is configured) and the server
+ * verifies it before anything is granted. `streak` is the server's view and
+ * stays null until it has loaded, or for players who are not signed in.
+ */
+export function useCheckIn(fid: number | undefined) {
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient({ chainId: gameChain.id });
+  const { signTypedDataAsync } = useSignTypedData();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { switchChainAsync } = useSwitchChain();
+
+  const [streak, setStreak] = useState<Streak | null>(null);
+  /** Today's UTC day as the server counts it; the signed GM has to name it. */
+  const [day, setDay] = useState<number | null>(null);
+  const [status, setStatus] = useState<CheckInStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await sdk.quickAuth.fetch("/api/checkin");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message);
+      setDay(body.day);
+      setStreak(body.streak);
+    } catch (error) {
+      console.error("Failed to load check-in:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (fid !== undefined) void refresh();
+  }, [fid, refresh]);
+
+  /** Resolves to the new streak once the server has verified today's GM, or null if it didn't happen. */
+  const checkIn = async (onchain = false): Promise<Streak | null> => {
+    if (fid === undefined || day === null) return null;
+    if (!address) {
+      setStatus("no-wallet");
+      return null;
+    }
+    try {
+      setStatus("signing");
+      setError(null);
+      if (chainId !== gameChain.id) await switchChainAsync({ chainId: gameChain.id });
+
+      let proof;
+      if (onchain && gmContractAddress && publicClient) {
+        const data = encodeFunctionData({ abi: gmContractAbi, functionName: "gm", args: [BigInt(fid)] });
+        const hash = await sendTransactionAsync({ chainId: gameChain.id, to: gmContractAddress, data });
+        setStatus("verifying");
+        await publicClient.waitForTransactionReceipt({ hash });
+        proof = { type: "transaction", hash };
+      } else {
+        const signature = await signTypedDataAsync({ ...gmTypedData, message: gmMessage(fid, day) });
+        setStatus("verifying");
+        proof = { type: "signature", address, signature };
+      }
+
+      const res = await sdk.quickAuth.fetch("/api/checkin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(proof),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message);
+      setStreak(body.streak);
+      setStatus("idle");
+      return body.streak as Streak;
+    } catch (error) {
+      console.error("Check-in failed:", error);
+      setStatus("error");
+      setError((error as { shortMessage?: string }).shortMessage ?? (error as Error).message);
+      // The day may have turned over, or the check-in landed on another device.
+      void refresh();
+      return null;
+    }
+  };
+
+  return { streak, status, error, checkIn, canGoOnchain: Boolean(gmContractAddress) };
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useRef, useState, type KeyboardEvent } from "react";
+
+/**
+ * Roving tabindex over a CSS grid: one item is in the tab order, and the
+ * arrow keys, Home and End move focus between items. Rows follow the grid's
+ * laid-out columns, so up and down stay right across breakpoints.
+ */
+export function useGridNavigation(count: number) {
+  const gridRef = useRef<HTMLElement>(null);
+  const [active, setActive] = useState(0);
+  const current = Math.min(active, Math.max(0, count - 1));
+
+  const columns = () => {
+    const grid = gridRef.current;
+    return grid ? Math.max(1, getComputedStyle(grid).gridTemplateColumns.split(" ").filter(Boolean).length) : 1;
+  };
+
+  /** Moves focus for an arrow, Home or End key; returns false for any other key. */
+  const onKeyDown = (e: KeyboardEvent, index: number) => {
+    const cols = columns();
+    const rowStart = index - (index % cols);
+    const targets: Record<string, number> = {
+      ArrowRight: index + 1,
+      ArrowLeft: index - 1,
+      ArrowDown: index + cols,
+      ArrowUp: index - cols,
+      Home: e.ctrlKey ? 0 : rowStart,
+      End: e.ctrlKey ? count - 1 : Math.min(count - 1, rowStart + cols - 1),
+    };
+    const target = targets[e.key];
+    if (target === undefined) return false;
+    e.preventDefault();
+    if (target < 0 || target >= count) return true;
+    setActive(target);
+    (gridRef.current?.children[target] as HTMLElement | undefined)?.focus();
+    return true;
+  };
+
+  return {
+    gridRef,
+    tabIndex: (index: number) => (index === current ? 0 : -1),
+    onFocus: (index: number) => setActive(index),
+    onKeyDown,
+  };
+}
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { act, cleanup, render } from "@testing-library/react";
+import { useState } from "react";
+import type { Hex } from "viem";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { REDEEM_RETRY_MS, useHintPurchase } from "./useHintPurchase";
+
+const server = vi.hoisted(() => ({ fetch: vi.fn() }));
+vi.mock("@farcaster/miniapp-sdk", () => ({ default: { quickAuth: { fetch: server.fetch } } }));
+vi.mock("wagmi", () => ({
+  useAccount: () => ({}),
+  usePublicClient: () => undefined,
+  useSendTransaction: () => ({}),
+  useSwitchChain: () => ({}),
+}));
+
+const HASH = `0x${"ef".repeat(32)}` as Hex;
+const redeemed = { purchase: { hash: HASH, fid: 1, address: "0x0", amount: 5, redeemedAt: 0 } };
+
+/** The game's side of the hook: the pending list it saves and the hints it grants. */
+function renderGame(pending: Hex[]) {
+  const game = { pending, granted: [] as number[] };
+  const Game = () => {
+    const [list, setList] = useState(pending);
+    game.pending = list;
+    useHintPurchase(1, { pending: list, setPending: setList, onRedeemed: (amount) => game.granted.push(amount) });
+    return null;
+  };
+  render(<Game />);
+  return game;
+}
+
+const settle = () => act(() => vi.advanceTimersByTimeAsync(0));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  server.fetch.mockReset();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("useHintPurchase", () => {
+  it("redeems a purchase left pending by an earlier visit", async () => {
+    server.fetch.mockResolvedValue(Response.json(redeemed, { status: 201 }));
+    const game = renderGame([HASH]);
+    await settle();
+    expect(server.fetch).toHaveBeenCalledTimes(1);
+    expect(game.granted).toEqual([5]);
+    expect(game.pending).toEqual([]);
+  });
+
+  it("keeps a purchase while the chain is down and retries it", async () => {
+    server.fetch
+      .mockResolvedValueOnce(Response.json({ message: "could not reach the chain to check this; try again" }, { status: 503 }))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(Response.json(redeemed, { status: 201 }));
+    const game = renderGame([HASH]);
+
+    await settle();
+    expect(game.granted).toEqual([]);
+    expect(game.pending).toEqual([HASH]);
+
+    await act(() => vi.advanceTimersByTimeAsync(REDEEM_RETRY_MS));
+    expect(server.fetch).toHaveBeenCalledTimes(2);
+    expect(game.pending).toEqual([HASH]);
+
+    await act(() => vi.advanceTimersByTimeAsync(REDEEM_RETRY_MS));
+    expect(server.fetch).toHaveBeenCalledTimes(3);
+    expect(game.granted).toEqual([5]);
+    expect(game.pending).toEqual([]);
+  });
+
+  it("drops a purchase the server turns down for good", async () => {
+    server.fetch.mockResolvedValue(Response.json({ message: "transaction reverted" }, { status: 422 }));
+    const game = renderGame([HASH]);
+    await settle();
+    await act(() => vi.advanceTimersByTimeAsync(REDEEM_RETRY_MS));
+    expect(server.fetch).toHaveBeenCalledTimes(1);
+    expect(game.granted).toEqual([]);
+    expect(game.pending).toEqual([]);
+  });
+});
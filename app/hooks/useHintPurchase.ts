@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import type { Hex } from "viem";
+import { useAccount, usePublicClient, useSendTransaction, useSwitchChain } from "wagmi";
+import sdk from "@farcaster/miniapp-sdk";
+import { encodeBuyHints, gameChain, gameContractAddress, hintPackWei } from "@/lib/gameContract";
+import type { HintPurchase } from "@/lib/hintPurchases";
+
+/** `no-wallet` asks the player to connect one; the shop says so in its own language. */
+export type HintPurchaseStatus = "idle" | "paying" | "verifying" | "no-wallet" | "error";
+
+/** How long to wait before asking the server again about a purchase it couldn't redeem yet. */
+export const REDEEM_RETRY_MS = 15_000;
+
+/** The server couldn't redeem the purchase now (not mined yet, chain or network down), but may later. */
+class RetryLater extends Error {}
+
+interface PendingPurchases {
+  /** Paid-for packs the server hasn't granted yet, kept in the save so a reload still redeems them. */
+  pending: Hex[];
+  setPending: Dispatch<SetStateAction<Hex[]>>;
+  /** Grants the hints of a redeemed purchase. */
+  onRedeemed: (amount: number) => void;
+}
+
+/**
+ * Buying a pack of hints onchain. Only signed-in players can buy, since the
+ * server redeems the purchase against their FID before any hints are granted.
+ * A confirmed transaction is kept as pending until the server has redeemed it,
+ * and redeeming is retried while the game is open and on the next load.
+ */
+export function useHintPurchase(fid: number | undefined, { pending, setPending, onRedeemed }: PendingPurchases) {
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient({ chainId: gameChain.id });
+  const { sendTransactionAsync } = useSendTransaction();
+  const { switchChainAsync } = useSwitchChain();
+
+  const [status, setStatus] = useState<HintPurchaseStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState(0);
+  const onRedeemedRef = useRef(onRedeemed);
+  onRedeemedRef.current = onRedeemed;
+  const redeeming = useRef(new Set<Hex>());
+
+  /** Asks the server to redeem `hash`, granting its hints and dropping it from pending unless it may work later. */
+  const redeem = useCallback(
+    async (hash: Hex) => {
+      if (redeeming.current.has(hash)) return;
+      redeeming.current.add(hash);
+      try {
+        const res = await sdk.quickAuth.fetch("/api/hints/purchases", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ hash }),
+        }).catch((error: Error) => {
+          throw new RetryLater(error.message);
+        });
+        const body = await res.json().catch(() => ({}));
+        if (res.status === 404 || res.status >= 500) throw new RetryLater(body.message ?? `Request failed with ${res.status}`);
+        setPending((prev) => prev.filter((h) => h !== hash));
+        // Already redeemed, e.g. by another open tab, which granted the hints there.
+        if (res.status === 409) return;
+        if (!res.ok) throw new Error(body.message);
+        onRedeemedRef.current((body.purchase as HintPurchase).amount);
+        setStatus("idle");
+      } catch (error) {
+        console.error("Hint purchase redemption failed:", error);
+        setStatus("error");
+        setError((error as Error).message);
+        if (error instanceof RetryLater) setRetryAt(Date.now() + REDEEM_RETRY_MS);
+      } finally {
+        redeeming.current.delete(hash);
+      }
+    },
+    [setPending],
+  );
+
+  // Purchases left over from a failed redemption or an earlier visit, and retries after a failure.
+  const pendingKey = pending.join();
+  useEffect(() => {
+    if (fid === undefined || !pendingKey) return;
+    const wait = Math.max(0, retryAt - Date.now());
+    const timer = window.setTimeout(() => pendingKey.split(",").forEach((hash) => void redeem(hash as Hex)), wait);
+    return () => clearTimeout(timer);
+  }, [fid, pendingKey, retryAt, redeem]);
+
+  /** Pays for a pack; its hints are granted through `onRedeemed` once the server has redeemed the purchase. */
+  const buy = async () => {
+    if (fid === undefined || !gameContractAddress || !publicClient) return;
+    if (!address) {
+      setStatus("no-wallet");
+      return;
+    }
+    let hash: Hex;
+    try {
+      setStatus("paying");
+      setError(null);
+      if (chainId !== gameChain.id) await switchChainAsync({ chainId: gameChain.id });
+      hash = await sendTransactionAsync({
+        chainId: gameChain.id,
+        to: gameContractAddress,
+        data: encodeBuyHints(fid),
+        value: hintPackWei,
+      });
+      setStatus("verifying");
+      await publicClient.waitForTransactionReceipt({ hash });
+    } catch (error) {
+      console.error("Hint purchase failed:", error);
+      setStatus("error");
+      setError((error as { shortMessage?: string }).shortMessage ?? (error as Error).message);
+      return;
+    }
+    // Paid: from here on the purchase is kept until the server has redeemed it, which the effect above starts right away.
+    setPending((prev) => (prev.includes(hash) ? prev : [...prev, hash]));
+    setRetryAt(0);
+  };
+
+  return { status, error, buy, available: fid !== undefined && Boolean(gameContractAddress) };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Time spent on the current level. The clock runs while the board is being
+ * played and stops once it is cleared; `elapsedMs` reads it exactly, while
+ * `seconds` ticks for display.
+ */
+export function useLevelClock() {
+  const clock = useRef({ base: 0, startedAt: 0, running: false });
+  const [seconds, setSeconds] = useState(0);
+  const [running, setRunning] = useState(false);
+
+  const elapsedMs = useCallback(() => {
+    const { base, startedAt, running } = clock.current;
+    return base + (running ? Date.now() - startedAt : 0);
+  }, []);
+
+  /** Continues from `fromMs`, e.g. 0 for a new level or the time saved with a resumed board. */
+  const start = useCallback((fromMs: number, run = true) => {
+    clock.current = { base: fromMs, startedAt: Date.now(), running: run };
+    setRunning(run);
+    setSeconds(Math.floor(fromMs / 1000));
+  }, []);
+
+  const stop = useCallback(() => {
+    clock.current = { base: elapsedMs(), startedAt: 0, running: false };
+    setRunning(false);
+    setSeconds(Math.floor(clock.current.base / 1000));
+  }, [elapsedMs]);
+
+  useEffect(() => {
+    if (!running) return;
+    const id = window.setInterval(() => setSeconds(Math.floor(elapsedMs() / 1000)), 1000);
+    return () => clearInterval(id);
+  }, [running, elapsedMs]);
+
+  return { seconds, elapsedMs, start, stop };
+}
+
+export const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
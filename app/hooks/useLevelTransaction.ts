@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { Hex } from "viem";
+import {
+  useAccount,
+  useCapabilities,
+  useConfig,
+  usePublicClient,
+  useSendCalls,
+  useSendTransaction,
+  useSwitchChain,
+} from "wagmi";
+import { waitForCallsStatus } from "wagmi/actions";
+import {
+  encodeCompleteLevel,
+  gameChain,
+  gameContractAddress,
+  hashLevelScore,
+  levelFeeWei,
+  paymasterUrl,
+} from "@/lib/gameContract";
+import { badgeContractAddress, encodeMintBadge } from "@/lib/badges";
+
+export type TransactionStatus = "idle" | "loading" | "success" | "error";
+export type BadgeStatus = "idle" | "minting" | "minted" | "failed";
+
+/**
+ * The level completion transaction and the badge mint that follows it.
+ *
+ * When a paymaster URL is configured and the wallet reports the EIP-5792
+ * `paymasterService` capability on the game chain, both calls go out as one
+ * sponsored batch through `wallet_sendCalls`. Otherwise they are sent as two
+ * regular transactions and the player pays gas.
+ */
+export function useLevelTransaction() {
+  const { address, chainId } = useAccount();
+  const config = useConfig();
+  const publicClient = usePublicClient({ chainId: gameChain.id });
+  const { sendTransactionAsync } = useSendTransaction();
+  const { sendCallsAsync } = useSendCalls();
+  const { switchChainAsync } = useSwitchChain();
+  const { data: capabilities } = useCapabilities({
+    chainId: gameChain.id,
+    query: { enabled: Boolean(address && paymasterUrl) },
+  });
+  const canSponsor = Boolean(paymasterUrl && capabilities?.paymasterService?.supported);
+
+  const [status, setStatus] = useState<TransactionStatus>("idle");
+  const [hash, setHash] = useState<string | null>(null);
+  const [badgeStatus, setBadgeStatus] = useState<BadgeStatus>("idle");
+  /** Whether the last submitted level completion had its gas sponsored; null before one succeeds. */
+  const [sponsored, setSponsored] = useState<boolean | null>(null);
+  const [badgeRefresh, setBadgeRefresh] = useState(0);
+
+  const reset = useCallback(() => {
+    setStatus("idle");
+    setHash(null);
+    setBadgeStatus("idle");
+    setSponsored(null);
+  }, []);
+
+  const sendTransaction = async (to: Hex, data: Hex, value?: bigint) => {
+    if (!publicClient) throw new Error(`No client configured for ${gameChain.name}`);
+    const txHash = await sendTransactionAsync({ chainId: gameChain.id, to, data, value });
+    return { txHash, receipt: publicClient.waitForTransactionReceipt({ hash: txHash }) };
+  };
+
+  const mintBadge = async (level: number) => {
+    if (!badgeContractAddress) return;
+    try {
+      setBadgeStatus("minting");
+      const { txHash, receipt } = await sendTransaction(badgeContractAddress, encodeMintBadge(level));
+      if ((await receipt).status !== "success") throw new Error(`Badge mint ${txHash} reverted`);
+      setBadgeStatus("minted");
+      setBadgeRefresh((k) => k + 1);
+    } catch (error) {
+      console.error("Badge mint error:", error);
+      setBadgeStatus("failed");
+    }
+  };
+
+  /**
+   * Sends completeLevel for a finished level and resolves to whether it confirmed, once any badge
+   * mint has settled too. `onConfirmed` runs as soon as completeLevel is confirmed.
+   */
+  const submit = async (run: { level: number; score: number; seed: string }, onConfirmed: () => void) => {
+    if (!gameContractAddress || !address) return false;
+    const data = encodeCompleteLevel(run.level, hashLevelScore({ player: address, ...run }));
+    try {
+      setStatus("loading");
+      setHash(null);
+      if (chainId !== gameChain.id) await switchChainAsync({ chainId: gameChain.id });
+
+      if (canSponsor && paymasterUrl) {
+        const calls: { to: Hex; data: Hex; value?: bigint }[] = [{ to: gameContractAddress, data, value: levelFeeWei }];
+        if (badgeContractAddress) calls.push({ to: badgeContractAddress, data: encodeMintBadge(run.level) });
+        if (badgeContractAddress) setBadgeStatus("minting");
+
+        const { id } = await sendCallsAsync({
+          chainId: gameChain.id,
+          calls,
+          capabilities: { paymasterService: { url: paymasterUrl } },
+        });
+        const result = await waitForCallsStatus(config, { id });
+        if (result.status !== "success") throw new Error(`Sponsored calls ${id} did not succeed`);
+
+        setHash(result.receipts?.[0]?.transactionHash ?? null);
+        setSponsored(true);
+        setStatus("success");
+        if (badgeContractAddress) {
+          setBadgeStatus("minted");
+          setBadgeRefresh((k) => k + 1);
+        }
+        onConfirmed();
+        return true;
+      }
+
+      const { txHash, receipt } = await sendTransaction(gameContractAddress, data, levelFeeWei);
+      setHash(txHash);
+      if ((await receipt).status !== "success") throw new Error(`Transaction ${txHash} reverted`);
+      setSponsored(false);
+      setStatus("success");
+      onConfirmed();
+
+      // A failed mint doesn't cost the player their bonus
+      await mintBadge(run.level);
+      return true;
+    } catch (error) {
+      console.error("Transaction error:", error);
+      setStatus("error");
+      setBadgeStatus("idle");
+      return false;
+    }
+  };
+
+  return { status, hash, badgeStatus, badgeRefresh, canSponsor, sponsored, submit, reset };
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import sdk from "@farcaster/miniapp-sdk";
+import { createTranslator, DEFAULT_LOCALE, matchLocale, type Locale, type Translator } from "@/lib/i18n";
+
+/** The translator for the game's language; components under BaseMemoryGame read it with `useI18n`. */
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+
+export const useI18n = () => useContext(I18nContext);
+
+// The published mini app context has no language yet; a client that adds one to `client.locale` is listened to first.
+async function clientLocale(): Promise<string | undefined> {
+  if (!(await sdk.isInMiniApp())) return undefined;
+  const { client } = await sdk.context;
+  const locale = (client as { locale?: unknown }).locale;
+  return typeof locale === "string" ? locale : undefined;
+}
+
+/**
+ * The game's language: the one the player picked, else the first supported
+ * one of a `?lang=` link, the Farcaster client and the browser. Inside a
+ * client the browser's languages are the webview's, which follow the app's.
+ * The document's `lang` and `dir` follow along, so right-to-left languages
+ * lay the page out mirrored.
+ */
+export function useLocale(chosen: Locale | null) {
+  const [detected, setDetected] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    let cancelled = false;
+    const linked = new URLSearchParams(window.location.search).get("lang");
+    void clientLocale()
+      .catch(() => undefined)
+      .then((client) => {
+        if (!cancelled) setDetected(matchLocale([linked, client, ...navigator.languages]));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const translator = useMemo(() => createTranslator(chosen ?? detected), [chosen, detected]);
+
+  useEffect(() => {
+    document.documentElement.lang = translator.locale;
+    document.documentElement.dir = translator.dir;
+  }, [translator]);
+
+  return { translator, detected };
+}
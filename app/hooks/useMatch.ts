@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import sdk from "@farcaster/miniapp-sdk";
+import type { MatchView } from "@/lib/match";
+import type { Seat } from "@/lib/matchRules";
+
+export type MatchConnection = "connecting" | "live" | "reconnecting";
+
+/**
+ * Sends an authenticated match request: Quick Auth inside a mini app, or the
+ * `?fid=` from the page URL as X-Dev-Fid when testing locally with DEV_AUTH=1.
+ */
+export async function matchFetch(path: string, body: unknown) {
+  const init = { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+  const res = (await sdk.isInMiniApp())
+    ? await sdk.quickAuth.fetch(path, init)
+    : await fetch(path, { ...init, headers: { ...init.headers, "X-Dev-Fid": new URLSearchParams(window.location.search).get("fid") ?? "" } });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.message ?? `Request failed with ${res.status}`);
+  return json as { match: MatchView; seat: Seat | null };
+}
+
+/**
+ * Follows a match over server-sent events and plays moves for the signed-in
+ * player. EventSource reconnects by itself; every message carries the whole
+ * match, so the first one after a reconnect catches the board up. Opening a
+ * match only looks up the player's seat; the empty one is taken with `join`.
+ */
+export function useMatch(id: string) {
+  const [match, setMatch] = useState<MatchView | null>(null);
+  const [seat, setSeat] = useState<Seat | null>(null);
+  const [connection, setConnection] = useState<MatchConnection>("connecting");
+  const [error, setError] = useState<string | null>(null);
+
+  // Messages can race a POST response, so never step back to an older version.
+  const adopt = useCallback((next: MatchView) => {
+    setMatch((prev) => (prev && prev.version > next.version ? prev : next));
+  }, []);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/match/${encodeURIComponent(id)}/events`);
+    source.addEventListener("match", (e) => {
+      setConnection("live");
+      adopt(JSON.parse((e as MessageEvent<string>).data) as MatchView);
+    });
+    source.onerror = () => setConnection(source.readyState === EventSource.CLOSED ? "connecting" : "reconnecting");
+
+    matchFetch(`/api/match/${encodeURIComponent(id)}`, { type: "seat" })
+      .then(({ match, seat }) => {
+        adopt(match);
+        setSeat(seat);
+      })
+      .catch((e: Error) => setError(e.message));
+
+    return () => source.close();
+  }, [id, adopt]);
+
+  const join = useCallback(async () => {
+    try {
+      setError(null);
+      const { match, seat } = await matchFetch(`/api/match/${encodeURIComponent(id)}`, { type: "join" });
+      adopt(match);
+      setSeat(seat);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }, [id, adopt]);
+
+  const play = useCallback(
+    async (move: { type: "flip"; index: number } | { type: "timeout" | "resign" }) => {
+      try {
+        setError(null);
+        adopt((await matchFetch(`/api/match/${encodeURIComponent(id)}`, move)).match);
+      } catch (e) {
+        setError((e as Error).message);
+      }
+    },
+    [id, adopt],
+  );
+
+  return { match, seat, connection, error, join, play };
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import sdk from "@farcaster/miniapp-sdk";
+import type { UnlockedAchievements } from "@/lib/achievements";
+import type { Progress } from "@/lib/progress";
+
+export type PlayerStatus = "connecting" | "signed-in" | "local";
+
+export interface Player {
+  status: PlayerStatus;
+  fid?: number;
+  username?: string;
+  /** Progress saved on the server for this FID; null until the first sync. */
+  profile?: Progress | null;
+}
+
+/**
+ * Signs the player in with Quick Auth when running inside a mini app host.
+ * Anywhere else, or if sign-in fails, the player stays "local" and the game
+ * keeps its progress in localStorage only.
+ */
+export function usePlayer() {
+  const [player, setPlayer] = useState<Player>({ status: "connecting" });
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        if (!(await sdk.isInMiniApp())) {
+          if (!cancelled) setPlayer({ status: "local" });
+          return;
+        }
+        const [context, res] = await Promise.all([sdk.context, sdk.quickAuth.fetch("/api/profile")]);
+        if (!res.ok) throw new Error(`Profile request failed with ${res.status}`);
+        const { fid, profile } = (await res.json()) as { fid: number; profile: Progress | null };
+        if (!cancelled) setPlayer({ status: "signed-in", fid, username: context.user.username, profile });
+      } catch (error) {
+        console.error("Sign-in failed, playing locally:", error);
+        if (!cancelled) setPlayer({ status: "local" });
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveProgress = useCallback(async (progress: Progress) => {
+    try {
+      const res = await sdk.quickAuth.fetch("/api/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(progress),
+      });
+      if (!res.ok) console.warn("Profile sync rejected:", (await res.json()).message);
+    } catch (error) {
+      console.error("Failed to sync profile:", error);
+    }
+  }, []);
+
+  /** Sends this device's achievements and resolves to everything saved for the FID, or null if the sync failed. */
+  const syncAchievements = useCallback(async (unlocked: UnlockedAchievements): Promise<UnlockedAchievements | null> => {
+    try {
+      const res = await sdk.quickAuth.fetch("/api/achievements", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(unlocked),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message);
+      return body.achievements;
+    } catch (error) {
+      console.error("Failed to sync achievements:", error);
+      return null;
+    }
+  }, []);
+
+  return { player, saveProgress, syncAchievements };
+}
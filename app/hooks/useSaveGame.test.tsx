@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SAVE_VERSION, defaultSave, serializeSave } from "@/lib/saveGame";
+import { useSaveGame } from "./useSaveGame";
+
+const load = () => renderHook(() => useSaveGame(() => {})).result.current;
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe("useSaveGame", () => {
+  it("moves the legacy keys into the save", () => {
+    localStorage.setItem("base_level", "3");
+    localStorage.setItem("base_theme", "light");
+    const { initial, loadError } = load();
+    expect(initial).toMatchObject({ progress: { level: 3 }, theme: "light" });
+    expect(loadError).toBeNull();
+    expect(JSON.parse(localStorage.getItem("base_save")!).version).toBe(SAVE_VERSION);
+    expect(localStorage.getItem("base_level")).toBeNull();
+  });
+
+  it("sets a save with a bad checksum aside instead of loading it", () => {
+    const file = JSON.parse(serializeSave({ ...defaultSave(1), theme: "light" }));
+    const stored = JSON.stringify({ ...file, save: { ...file.save, progress: { ...file.save.progress, score: 999_999 } } });
+    localStorage.setItem("base_save", stored);
+
+    const { initial, loadError, write } = load();
+    expect(initial).toMatchObject({ progress: { score: 0 }, theme: "dark" });
+    expect(loadError).toMatch(/checksum/);
+    expect(localStorage.getItem("base_save_corrupt")).toBe(stored);
+    expect(localStorage.getItem("base_save")).toBeNull();
+
+    act(() => write({ ...initial, theme: "light" }));
+    expect(localStorage.getItem("base_save_corrupt")).toBe(stored);
+  });
+
+  it("leaves a save from a newer version untouched", () => {
+    const stored = JSON.stringify({ version: SAVE_VERSION + 1, checksum: "00000000", save: { from: "the future" } });
+    localStorage.setItem("base_save", stored);
+
+    const { initial, loadError, readOnly, write } = load();
+    expect(initial).toEqual(defaultSave(initial.savedAt));
+    expect(loadError).toMatch(/newer/);
+    expect(readOnly).toBe(true);
+
+    act(() => write({ ...initial, theme: "light" }, true));
+    expect(localStorage.getItem("base_save")).toBe(stored);
+    expect(localStorage.getItem("base_save_corrupt")).toBeNull();
+  });
+
+  it("saves again once the player imports a save over a newer one", async () => {
+    localStorage.setItem("base_save", JSON.stringify({ version: SAVE_VERSION + 1, save: {} }));
+    const { importSave, write } = load();
+    const imported = { ...defaultSave(1), theme: "light" as const };
+    // jsdom's File has no text(), which is all the import reads.
+    const file = { text: async () => serializeSave(imported) } as File;
+    await act(() => importSave(file));
+
+    act(() => write({ ...imported, accessible: true }));
+    expect(JSON.parse(localStorage.getItem("base_save")!).save).toMatchObject({ theme: "light", accessible: true });
+  });
+});
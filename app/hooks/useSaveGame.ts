@@ -0,0 +1,117 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  defaultSave,
+  LEGACY_KEYS,
+  NewerSaveError,
+  parseSaveFile,
+  readSaveFile,
+  sameSave,
+  serializeSave,
+  type LegacyKeys,
+  type SaveGame,
+} from "@/lib/saveGame";
+
+const SAVE_KEY = "base_save";
+/** Where an unreadable save is moved so starting over doesn't destroy it. */
+const CORRUPT_KEY = "base_save_corrupt";
+
+interface LoadedSave {
+  save: SaveGame;
+  error: string | null;
+  /** The stored save is from a newer version of the game, so nothing may be written over it. */
+  readOnly: boolean;
+}
+
+/**
+ * Reads the save from localStorage, migrating the legacy `base_*` keys on
+ * first run. A corrupt save is set aside under `base_save_corrupt` and the
+ * game starts from defaults. A save from a newer version is left where it
+ * is, and the game plays from defaults without saving.
+ */
+function loadSave(): LoadedSave {
+  if (typeof window === "undefined") return { save: defaultSave(), error: null, readOnly: false };
+  const stored = localStorage.getItem(SAVE_KEY);
+  try {
+    if (stored) return { save: parseSaveFile(stored), error: null, readOnly: false };
+
+    const legacy: LegacyKeys = {};
+    for (const key of LEGACY_KEYS) {
+      const value = localStorage.getItem(key);
+      if (value !== null) legacy[key] = value;
+    }
+    const save = readSaveFile({ version: 0, save: legacy });
+    localStorage.setItem(SAVE_KEY, serializeSave(save));
+    LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
+    return { save, error: null, readOnly: false };
+  } catch (error) {
+    if (error instanceof NewerSaveError) {
+      console.warn("Save game is from a newer version, leaving it untouched:", error);
+      return { save: defaultSave(), error: error.message, readOnly: true };
+    }
+    console.error("Save game is unreadable, starting over:", error);
+    if (stored) localStorage.setItem(CORRUPT_KEY, stored);
+    localStorage.removeItem(SAVE_KEY);
+    return { save: defaultSave(), error: (error as Error).message, readOnly: false };
+  }
+}
+
+/**
+ * The single save-game store. `write` persists the player's state;
+ * `onExternalChange` is called when another tab writes a save, so the caller
+ * can adopt it instead of overwriting it on its next write.
+ */
+export function useSaveGame(onExternalChange: (save: SaveGame) => void) {
+  const [{ save: initial, error: loadError, readOnly }] = useState(loadSave);
+  const lastWritten = useRef(initial);
+  // Until the player imports a save of their own, a newer version's save stays as it is.
+  const keepStored = useRef(readOnly);
+  const onExternalChangeRef = useRef(onExternalChange);
+  onExternalChangeRef.current = onExternalChange;
+
+  /** Skips writes that change nothing the player would notice, unless `force`d (e.g. to keep the level clock). */
+  const write = useCallback((next: Omit<SaveGame, "savedAt">, force = false) => {
+    const save = { ...next, savedAt: Date.now() };
+    if (keepStored.current || (!force && sameSave(save, lastWritten.current))) return;
+    lastWritten.current = save;
+    localStorage.setItem(SAVE_KEY, serializeSave(save));
+  }, []);
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== SAVE_KEY || e.storageArea !== localStorage || !e.newValue) return;
+      try {
+        const save = parseSaveFile(e.newValue);
+        lastWritten.current = save;
+        onExternalChangeRef.current(save);
+      } catch (error) {
+        console.error("Ignoring unreadable save from another tab:", error);
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  /** Downloads the current save as a JSON file. */
+  const exportSave = useCallback(() => {
+    const blob = new Blob([serializeSave(lastWritten.current)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `basememory-save-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  /** Reads an exported save file; throws SaveGameError if it is corrupt or from a newer version. */
+  const importSave = useCallback(async (file: File) => {
+    const save = parseSaveFile(await file.text());
+    lastWritten.current = save;
+    keepStored.current = false;
+    localStorage.setItem(SAVE_KEY, serializeSave(save));
+    return save;
+  }, []);
+
+  return { initial, loadError, readOnly, write, exportSave, importSave };
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter, Source_Code_Pro } from "next/font/google";
 import { SafeArea } from "@coinbase/onchainkit/minikit";
 import { minikitConfig } from "@/minikit.config";
+import { miniappEmbed } from "@/lib/embeds";
 import { RootProvider } from "./rootProvider";
 import "./globals.css";
 
@@ -9,19 +10,11 @@ export async function generateMetadata(): Promise<Metadata> {
   return {
     title: minikitConfig.miniapp.name,
     description: minikitConfig.miniapp.description,
-    other: {
-      "fc:miniapp": JSON.stringify({
-        version: minikitConfig.miniapp.version,
-        imageUrl: minikitConfig.miniapp.heroImageUrl,
-        button: {
-          title: `Launch ${minikitConfig.miniapp.name}`,
-          action: {
-            name: `Launch ${minikitConfig.miniapp.name}`,
-            type: "launch_miniapp",
-          },
-        },
-      }),
-    },
+    openGraph: { images: [minikitConfig.miniapp.ogImageUrl] },
+    other: miniappEmbed({
+      imageUrl: minikitConfig.miniapp.heroImageUrl,
+      buttonTitle: `Launch ${minikitConfig.miniapp.name}`,
+    }),
   };
 }
 
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMiniKit } from "@coinbase/onchainkit/minikit";
+import { DIFFICULTIES, DEFAULT_DIFFICULTY, type Difficulty } from "@/lib/difficulty";
+import { TOTAL_LEVELS } from "@/lib/levels";
+import MatchBoard from "../components/MatchBoard";
+import { I18nContext, useLocale } from "../hooks/useLocale";
+import { matchFetch } from "../hooks/useMatch";
+
+// 1v1 matches: `/match` opens a new one, `/match?id=...` plays or watches it.
+// The game links here with its `?lang=`, so a language the player picked carries over.
+export default function MatchPage() {
+  const { setMiniAppReady, isMiniAppReady } = useMiniKit();
+  const { translator } = useLocale(null);
+  const { t } = translator;
+  const [id, setId] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const [level, setLevel] = useState(1);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isMiniAppReady) setMiniAppReady();
+  }, [setMiniAppReady, isMiniAppReady]);
+
+  useEffect(() => {
+    setId(new URLSearchParams(window.location.search).get("id"));
+    setReady(true);
+  }, []);
+
+  const create = async () => {
+    try {
+      setError(null);
+      const { match } = await matchFetch("/api/match", { level, difficulty });
+      const url = new URL(window.location.href);
+      url.searchParams.set("id", match.id);
+      window.history.replaceState(null, "", url);
+      setId(match.id);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  if (!ready) return null;
+  if (id) {
+    return (
+      <I18nContext.Provider value={translator}>
+        <MatchBoard id={id} />
+      </I18nContext.Provider>
+    );
+  }
+
+  return (
+    <main className="w-full max-w-md mx-auto p-6">
+      <h2 className="text-3xl font-extrabold uppercase mb-2">{t("match.title")}</h2>
+      <p className="text-sm opacity-70 mb-6">{t("match.rules")}</p>
+      <label className="block mb-4">
+        <span className="text-xs uppercase opacity-60">{t("match.layer")}</span>
+        <select value={level} onChange={(e) => setLevel(Number(e.target.value))} className="mt-1 w-full px-3 py-2 border rounded-md bg-transparent">
+          {Array.from({ length: TOTAL_LEVELS }, (_, i) => i + 1).map((l) => (
+            <option key={l} value={l}>{t("badges.layer", { level: l })}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block mb-6">
+        <span className="text-xs uppercase opacity-60">{t("match.difficulty")}</span>
+        <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)} className="mt-1 w-full px-3 py-2 border rounded-md bg-transparent">
+          {DIFFICULTIES.map((mode) => (
+            <option key={mode} value={mode}>{t(`difficulty.${mode}`)}</option>
+          ))}
+        </select>
+      </label>
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+      <button onClick={create} className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold">{t("match.create")}</button>
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 import { ReactNode } from "react";
-import { base } from "wagmi/chains";
+import { gameChain } from "@/lib/gameContract";
 import { OnchainKitProvider } from "@coinbase/onchainkit";
 import "@coinbase/onchainkit/styles.css";
 
@@ -8,7 +8,7 @@ export function RootProvider({ children }: { children: ReactNode }) {
   return (
     <OnchainKitProvider
       apiKey={process.env.NEXT_PUBLIC_ONCHAINKIT_API_KEY}
-      chain={base}
+      chain={gameChain}
       config={{
         appearance: {
           mode: "auto",
@@ -21,7 +21,6 @@ export function RootProvider({ children }: { children: ReactNode }) {
       miniKit={{
         enabled: true,
         autoConnect: true,
-        notificationProxyUrl: undefined,
       }}
     >
       {children}
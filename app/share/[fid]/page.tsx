@@ -0,0 +1,33 @@
+import type { Metadata } from "next";
+import { minikitConfig } from "@/minikit.config";
+import { miniappEmbed } from "@/lib/embeds";
+import { createTranslator, matchLocale } from "@/lib/i18n";
+import { getPlayerCard, playerCardImageUrl } from "@/lib/shareCards";
+import ShareRedirect from "@/app/components/ShareRedirect";
+
+type Props = { params: Promise<{ fid: string }>; searchParams: Promise<{ level?: string; lang?: string }> };
+
+// A player's shared progress, or one level they cleared with `?level=`. Casts unfurl into their card, in the `?lang=` they shared it in.
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const fid = Number((await params).fid);
+  const { level: rawLevel, lang } = await searchParams;
+  const level = Number(rawLevel) || undefined;
+  const card = Number.isInteger(fid) && fid > 0 ? await getPlayerCard(fid, level) : null;
+  if (!card) return { title: minikitConfig.miniapp.name };
+
+  const { t, locale } = createTranslator(matchLocale([lang]));
+  const title = card.cleared
+    ? t("share.title.cleared", { level: card.cleared.level, count: card.cleared.score })
+    : t("share.title.reached", { level: card.levelReached });
+  const imageUrl = playerCardImageUrl(card, locale);
+  return {
+    title,
+    openGraph: { title, images: [imageUrl] },
+    other: miniappEmbed({ imageUrl, buttonTitle: t("share.play") }),
+  };
+}
+
+export default async function SharePage({ searchParams }: Props) {
+  const { t } = createTranslator(matchLocale([(await searchParams).lang]));
+  return <ShareRedirect to="/" label={t("share.open", { name: minikitConfig.miniapp.name })} />;
+}
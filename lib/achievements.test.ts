@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { AchievementError, mergeUnlocked, parseUnlocked, unlockedBy, type AchievementEvent, type AchievementContext } from "./achievements";
+import { createGameState, reduce, type GameAction, type GameState } from "./engine";
+
+/** A hard board has no preview, so play starts straight away. */
+const dealt = () => reduce(createGameState({ difficulty: "hard", hints: 50 }), { type: "deal", seed: "testseed" }).state;
+
+/** Ids of the achievements `event` unlocks from scratch. */
+const unlocks = (event: AchievementEvent, ctx: Partial<AchievementContext> = {}, unlocked = {}) =>
+  unlockedBy(event, { state: createGameState(), ...ctx }, unlocked).map((a) => a.id);
+
+/** Plays `actions` and collects what every event along the way unlocks, as the game does. */
+function play(state: GameState, actions: GameAction[]) {
+  const earned: string[] = [];
+  for (const action of actions) {
+    const step = reduce(state, action);
+    state = step.state;
+    for (const event of step.events) earned.push(...unlocks(event, { state }));
+  }
+  return { earned, state };
+}
+
+/** Flips every group of the board in turn, so nothing is mismatched. */
+const perfectFlips = (state: GameState): GameAction[] =>
+  [...state.cards.keys()]
+    .sort((a, b) => state.cards[a].pairId - state.cards[b].pairId)
+    .map((index) => ({ type: "flip", index }));
+
+const solved: AchievementEvent = { type: "quizAnswered", questionId: "q", correct: true, points: 200 };
+const failed: AchievementEvent = { ...solved, correct: false, points: 0 };
+
+describe("perfect-board", () => {
+  it("unlocks when the player clears a board without a mismatch", () => {
+    expect(play(dealt(), perfectFlips(dealt())).earned).toEqual(["perfect-board"]);
+  });
+
+  it("doesn't unlock after a mismatch", () => {
+    const board = dealt();
+    const first = board.cards.findIndex((c) => c.pairId !== board.cards[0].pairId);
+    const actions: GameAction[] = [{ type: "flip", index: 0 }, { type: "flip", index: first }, { type: "resolveMismatch" }];
+    const { earned, state } = play(board, [...actions, ...perfectFlips(board)]);
+    expect(state.phase).toBe("quiz");
+    expect(earned).toEqual([]);
+  });
+
+  it("doesn't unlock for a board the hints cleared", () => {
+    const board = dealt();
+    const groups = new Set(board.cards.map((c) => c.pairId)).size;
+    const autoMatch: GameAction = { type: "useHint", hint: "autoMatch", payWith: "hints" };
+    const { earned, state } = play(board, Array.from({ length: groups }, () => autoMatch));
+    expect(state).toMatchObject({ phase: "quiz", stats: { mismatches: 0 } });
+    expect(earned).toEqual([]);
+  });
+});
+
+describe("unlock rules", () => {
+  it("unlocks each achievement on its own event", () => {
+    expect(unlocks({ type: "feePaid", points: 1000 })).toEqual(["onchain"]);
+    expect(unlocks({ type: "gameCompleted", score: 0 })).toEqual(["complete"]);
+    expect(unlocks({ type: "matched", pairId: 0, points: 30 })).toEqual([]);
+    expect(unlocks({ type: "hintsPurchased", amount: 5 })).toEqual([]);
+  });
+
+  it("unlocks quiz achievements only for a right answer", () => {
+    const expert = createGameState({ difficulty: "expert", quizzesSolved: 25 });
+    expect(unlocks(solved, { state: expert, rating: 3 })).toEqual(["first-layer", "three-stars", "unaided", "expert-unaided", "scholar"]);
+    expect(unlocks(failed, { state: expert, rating: 3 })).toEqual([]);
+  });
+
+  it("checks each quiz achievement's condition", () => {
+    const helped = { ...createGameState(), stats: { moves: 8, mismatches: 0, hintsUsed: 1, points: 0 } };
+    expect(unlocks(solved, { state: helped, rating: 2 })).toEqual(["first-layer"]);
+    expect(unlocks(solved, { state: createGameState({ quizzesSolved: 24 }) })).toEqual(["first-layer", "unaided"]);
+  });
+
+  it("unlocks streak achievements on the best verified streak", () => {
+    expect(unlocks({ type: "streakVerified", streak: 2, best: 2 })).toEqual([]);
+    expect(unlocks({ type: "streakVerified", streak: 1, best: 3 })).toEqual(["streak-3"]);
+    expect(unlocks({ type: "streakVerified", streak: 10, best: 10 })).toEqual(["streak-3", "streak-10"]);
+  });
+
+  it("never unlocks an achievement twice", () => {
+    expect(unlocks({ type: "streakVerified", streak: 10, best: 10 }, {}, { "streak-3": 1 })).toEqual(["streak-10"]);
+    expect(unlocks({ type: "feePaid", points: 1000 }, {}, { onchain: 1 })).toEqual([]);
+  });
+});
+
+describe("mergeUnlocked", () => {
+  it("keeps every unlock, at the earliest time either side has", () => {
+    expect(mergeUnlocked({ onchain: 5, complete: 9 }, { onchain: 3, "streak-3": 7, complete: 10 })).toEqual({
+      onchain: 3,
+      complete: 9,
+      "streak-3": 7,
+    });
+  });
+
+  it("returns the same object when the other side adds nothing", () => {
+    const unlocked = { onchain: 3 };
+    expect(mergeUnlocked(unlocked, { onchain: 4 })).toBe(unlocked);
+    expect(mergeUnlocked(unlocked, {})).toBe(unlocked);
+  });
+
+  it("gives the same result whichever side syncs first", () => {
+    const device = { onchain: 5, "first-layer": 2 };
+    const server = { onchain: 3, complete: 8 };
+    expect(mergeUnlocked(device, server)).toEqual(mergeUnlocked(server, device));
+  });
+});
+
+describe("parseUnlocked", () => {
+  it("drops achievements that no longer exist", () => {
+    expect(parseUnlocked({ onchain: 3, retired: 4 })).toEqual({ onchain: 3 });
+  });
+
+  it("rejects anything but timestamps keyed by id", () => {
+    for (const raw of [null, [], "onchain", { onchain: -1 }, { onchain: 1.5 }, { onchain: "3" }]) {
+      expect(() => parseUnlocked(raw)).toThrow(AchievementError);
+    }
+  });
+});
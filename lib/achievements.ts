@@ -0,0 +1,153 @@
+import type { GameEvent, GameState, Stars } from "./engine";
+import type { MessageKey, Translator } from "./i18n";
+
+/**
+ * Achievements: long-term goals, declared as rules over game events.
+ *
+ * Each achievement names the event that can unlock it and, optionally, a
+ * condition on that event and the state it left behind. The game runs every
+ * event through `unlockedBy`, so adding an achievement is one entry in
+ * `ACHIEVEMENTS` and nothing else. Shared by the game and the achievements
+ * route, so it must stay free of browser and server-only imports.
+ */
+
+/** Game events, plus the verified GM streak, which comes from the server rather than the engine. */
+export type AchievementEvent = GameEvent | { type: "streakVerified"; streak: number; best: number };
+
+export interface AchievementContext {
+  /** The game state once the event has been applied. */
+  state: GameState;
+  /** Stars the level was rated, when the event is a correctly answered quiz. */
+  rating?: Stars;
+}
+
+/** An achievement's title and description are in the locale files, under `achievement.<id>`. */
+export interface Achievement {
+  id: string;
+  icon: string;
+  /** The event that can unlock it. */
+  on: AchievementEvent["type"];
+  /** Checked against the event and the state it left; without one, the event alone unlocks it. */
+  when?: (event: AchievementEvent, ctx: AchievementContext) => boolean;
+}
+
+/** When each achievement was unlocked (epoch ms), keyed by id. */
+export type UnlockedAchievements = Record<string, number>;
+
+export class AchievementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AchievementError";
+  }
+}
+
+type EventOf<T extends AchievementEvent["type"]> = Extract<AchievementEvent, { type: T }>;
+
+// Narrows `when` to the event the achievement listens for.
+const achievement = <T extends AchievementEvent["type"]>(
+  definition: Omit<Achievement, "on" | "when"> & { on: T; when?: (event: EventOf<T>, ctx: AchievementContext) => boolean },
+): Achievement => definition as Achievement;
+
+const solved = (event: EventOf<"quizAnswered">) => event.correct;
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  achievement({
+    id: "first-layer",
+    icon: "🧱",
+    on: "quizAnswered",
+    when: solved,
+  }),
+  achievement({
+    id: "perfect-board",
+    icon: "🎯",
+    on: "boardCleared",
+    // Hints can match cards for the player, so a board they helped clear isn't perfect.
+    when: (_, { state }) => state.stats.mismatches === 0 && state.stats.hintsUsed === 0,
+  }),
+  achievement({
+    id: "three-stars",
+    icon: "⭐",
+    on: "quizAnswered",
+    when: (event, { rating }) => solved(event) && rating === 3,
+  }),
+  achievement({
+    id: "unaided",
+    icon: "🧠",
+    on: "quizAnswered",
+    when: (event, { state }) => solved(event) && state.stats.hintsUsed === 0,
+  }),
+  achievement({
+    id: "expert-unaided",
+    icon: "🛡️",
+    on: "quizAnswered",
+    when: (event, { state }) => solved(event) && state.difficulty === "expert" && state.stats.hintsUsed === 0,
+  }),
+  achievement({
+    id: "scholar",
+    icon: "📚",
+    on: "quizAnswered",
+    when: (event, { state }) => solved(event) && state.quizzesSolved >= 25,
+  }),
+  achievement({
+    id: "onchain",
+    icon: "⛓️",
+    on: "feePaid",
+  }),
+  achievement({
+    id: "streak-3",
+    icon: "☀️",
+    on: "streakVerified",
+    when: (event) => event.best >= 3,
+  }),
+  achievement({
+    id: "streak-10",
+    icon: "🔥",
+    on: "streakVerified",
+    when: (event) => event.best >= 10,
+  }),
+  achievement({
+    id: "complete",
+    icon: "🏆",
+    on: "gameCompleted",
+  }),
+];
+
+const byId = new Map(ACHIEVEMENTS.map((a) => [a.id, a]));
+
+export const getAchievement = (id: string) => byId.get(id);
+
+/** An achievement's title and description in the translator's language. */
+export const achievementText = (a: Achievement, t: Translator["t"]) => ({
+  title: t(`achievement.${a.id}.title` as MessageKey),
+  description: t(`achievement.${a.id}.description` as MessageKey),
+});
+
+/** Achievements `event` unlocks that are not in `unlocked` yet. */
+export function unlockedBy(event: AchievementEvent, ctx: AchievementContext, unlocked: UnlockedAchievements): Achievement[] {
+  return ACHIEVEMENTS.filter((a) => a.on === event.type && !(a.id in unlocked) && (!a.when || a.when(event, ctx)));
+}
+
+/**
+ * Combines two sets of unlocks, keeping the earliest time for each. Returns
+ * `a` itself when `b` adds nothing, so it is safe to use in a state update.
+ */
+export function mergeUnlocked(a: UnlockedAchievements, b: UnlockedAchievements): UnlockedAchievements {
+  let merged = a;
+  for (const [id, at] of Object.entries(b)) {
+    if (id in a && a[id] <= at) continue;
+    if (merged === a) merged = { ...a };
+    merged[id] = at;
+  }
+  return merged;
+}
+
+/** Validates a set of unlocks. Achievements since retired from `ACHIEVEMENTS` are dropped. */
+export function parseUnlocked(raw: unknown): UnlockedAchievements {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) throw new AchievementError("achievements: must be an object");
+  const unlocked: UnlockedAchievements = {};
+  for (const [id, at] of Object.entries(raw)) {
+    if (!Number.isInteger(at) || (at as number) < 0) throw new AchievementError(`achievements.${id}: must be a timestamp`);
+    if (byId.has(id)) unlocked[id] = at as number;
+  }
+  return unlocked;
+}
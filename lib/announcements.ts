@@ -0,0 +1,68 @@
+import type { GameEvent, GameState } from "./engine";
+import type { Translator } from "./i18n";
+import type { LevelData } from "./levels";
+
+/**
+ * What a screen reader hears in accessible play mode: one short sentence per
+ * event, read from the state the events left. Events nobody needs to hear
+ * about (timers, spending a hint) say nothing.
+ */
+
+type Translate = Translator["t"];
+
+// Card text is often a full sentence; drop its closing stop so it reads as part of ours.
+const content = (state: GameState, index: number) => state.cards[index].content.replace(/[.!?؟]+$/, "");
+
+function describeEvent(event: GameEvent, state: GameState, t: Translate, levels: LevelData[]): string | null {
+  const points = (count: number) => t("announce.points", { count });
+  const bonusPoints = (count: number) => t("announce.bonusPoints", { count });
+  const hints = (count: number) => t("announce.hints", { count });
+  switch (event.type) {
+    case "levelStarted":
+      return t("announce.levelStarted", {
+        level: event.level,
+        theme: levels[event.level - 1]?.theme ?? "",
+        cards: t("announce.cards", { count: state.cards.length }),
+      });
+    case "levelResumed":
+      return t("announce.levelResumed", { level: event.level });
+    case "previewShown":
+      return t("announce.preview");
+    case "cardFlipped":
+      return t("announce.flipped", { number: event.index + 1, content: content(state, event.index) });
+    case "matched":
+      return event.points > 0 ? t("announce.matchedPoints", { points: points(event.points) }) : t("announce.matched");
+    case "mismatched":
+      return t("announce.mismatched");
+    case "boardCleared":
+      return t("announce.boardCleared");
+    case "hintShown":
+      return t("announce.hint", {
+        cards: event.indices.map((i) => t("announce.hintCard", { number: i + 1, content: content(state, i) })).join(", "),
+      });
+    case "quizAnswered":
+      return event.correct ? t("announce.correct", { points: points(event.points) }) : t("announce.incorrect");
+    case "efficiencyBonus":
+      return t("announce.efficiency", { points: bonusPoints(event.points) });
+    case "hintsAwarded":
+    case "hintsPurchased":
+      return t("announce.hintsAdded", { hints: hints(event.amount) });
+    case "feePaid":
+      return t("announce.bonusAdded", { points: bonusPoints(event.points) });
+    case "checkedIn":
+      return t("announce.checkedIn", { points: points(event.points), hints: hints(event.hints) });
+    case "gameCompleted":
+      return t("announce.gameCompleted", { score: event.score });
+    case "hintUsed":
+      return null;
+  }
+}
+
+/** One announcement for everything an action did in the translator's language, or null if there is nothing to say. */
+export function describeEvents(events: GameEvent[], state: GameState, t: Translate, levels: LevelData[]): string | null {
+  const text = events
+    .map((event) => describeEvent(event, state, t, levels))
+    .filter((line): line is string => line !== null)
+    .join(" ");
+  return text || null;
+}
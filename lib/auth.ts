@@ -0,0 +1,78 @@
+import { Errors, createClient } from "@farcaster/quick-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+const client = createClient();
+
+/**
+ * Verifies the Quick Auth JWT on a request and returns the caller's FID.
+ *
+ * Requests made through `sdk.quickAuth.fetch` carry the token in the
+ * `Authorization` header. Returns a ready-made 401/500 response when the
+ * caller cannot be authenticated, so routes can hand it straight back.
+ */
+export async function authenticate(request: NextRequest): Promise<{ fid: number } | { response: NextResponse }> {
+  // Local testing with several players in plain browser tabs: outside production, DEV_AUTH=1 trusts X-Dev-Fid.
+  if (process.env.NODE_ENV !== "production" && process.env.DEV_AUTH === "1") {
+    const devFid = Number(request.headers.get("X-Dev-Fid"));
+    if (Number.isInteger(devFid) && devFid > 0) return { fid: devFid };
+  }
+
+  const authorization = request.headers.get("Authorization");
+
+  if (!authorization || !authorization.startsWith("Bearer ")) {
+    return { response: NextResponse.json({ message: "Missing token" }, { status: 401 }) };
+  }
+
+  try {
+    // `domain` must match the domain of the request.
+    const payload = await client.verifyJwt({
+      token: authorization.split(" ")[1] as string,
+      domain: getUrlHost(request),
+    });
+
+    // `payload.sub` is the Farcaster ID of the user that signed the message in the mini app.
+    return { fid: payload.sub };
+  } catch (e) {
+    if (e instanceof Errors.InvalidTokenError) {
+      return { response: NextResponse.json({ message: "Invalid token" }, { status: 401 }) };
+    }
+
+    if (e instanceof Error) {
+      return { response: NextResponse.json({ message: e.message }, { status: 500 }) };
+    }
+
+    throw e;
+  }
+}
+
+export function getUrlHost(request: NextRequest) {
+  // First try to get the origin from the Origin header
+  const origin = request.headers.get("origin");
+  if (origin) {
+    try {
+      const url = new URL(origin);
+      return url.host;
+    } catch (error) {
+      console.warn("Invalid origin header:", origin, error);
+    }
+  }
+
+  // Fallback to Host header
+  const host = request.headers.get("host");
+  if (host) {
+    return host;
+  }
+
+  // Final fallback to environment variables
+  let urlValue: string;
+  if (process.env.VERCEL_ENV === "production") {
+    urlValue = process.env.NEXT_PUBLIC_URL!;
+  } else if (process.env.VERCEL_URL) {
+    urlValue = `https://${process.env.VERCEL_URL}`;
+  } else {
+    urlValue = "http://localhost:3000";
+  }
+
+  const url = new URL(urlValue);
+  return url.host;
+}
@@ -0,0 +1,92 @@
+import { encodeFunctionData, isAddress, parseAbi, type Address, type Hex } from "viem";
+import { minikitConfig } from "@/minikit.config";
+import { LEVEL_DATA, TOTAL_LEVELS } from "./levels";
+
+/**
+ * Level badges: an ERC-1155 collection with one token id per level.
+ *
+ * The contract's `uri` should point at `${homeUrl}/api/badges/{id}`, which
+ * serves metadata and generated SVG art for each level. Set
+ * `NEXT_PUBLIC_BADGE_CONTRACT` to enable minting and the gallery.
+ */
+
+const configuredContract = process.env.NEXT_PUBLIC_BADGE_CONTRACT;
+export const badgeContractAddress: Address | undefined =
+  configuredContract && isAddress(configuredContract) ? configuredContract : undefined;
+
+export const badgeContractAbi = parseAbi([
+  "function mintBadge(uint256 level)",
+  "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+  "function uri(uint256 id) view returns (string)",
+]);
+
+export const BADGE_IDS = Array.from({ length: TOTAL_LEVELS }, (_, i) => BigInt(i + 1));
+
+export function encodeMintBadge(level: number): Hex {
+  return encodeFunctionData({ abi: badgeContractAbi, functionName: "mintBadge", args: [BigInt(level)] });
+}
+
+/** Accepts a decimal level or the 64 hex digit form ERC-1155 clients substitute for `{id}`. */
+export function parseBadgeId(raw: string): number | null {
+  const id = /^[0-9a-f]{64}$/i.test(raw) ? parseInt(raw, 16) : /^\d+$/.test(raw) ? Number(raw) : NaN;
+  return Number.isInteger(id) && id >= 1 && id <= TOTAL_LEVELS ? id : null;
+}
+
+export const badgeImageUrl = (level: number) => `${minikitConfig.miniapp.homeUrl}/api/badges/${level}/image`;
+
+export function badgeMetadata(level: number) {
+  const { theme, lesson } = LEVEL_DATA[level];
+  return {
+    name: `${theme} Badge`,
+    description: `Awarded for clearing layer ${level} of ${minikitConfig.miniapp.name}. ${lesson}`,
+    image: badgeImageUrl(level),
+    external_url: minikitConfig.miniapp.homeUrl,
+    attributes: [
+      { trait_type: "Level", value: level },
+      { trait_type: "Theme", value: theme },
+    ],
+  };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c]!);
+
+/** Art is derived from the theme alone, so a badge looks the same wherever it is rendered. */
+export function badgeArt(level: number) {
+  const { theme } = LEVEL_DATA[level];
+  let hash = 0;
+  for (const ch of theme) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  const hue = hash % 360;
+  return {
+    theme,
+    hash,
+    hue,
+    accent: (hue + 140) % 360,
+    initials: theme
+      .split(/\s+/)
+      .map((word) => word[0])
+      .join("")
+      .slice(0, 3)
+      .toUpperCase(),
+  };
+}
+
+export function badgeSvg(level: number) {
+  const { theme, hash, hue, accent, initials } = badgeArt(level);
+  const rings = Array.from({ length: 1 + (hash % 4) }, (_, i) => 150 - i * 14);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue},80%,45%)"/>
+      <stop offset="1" stop-color="hsl(${accent},80%,30%)"/>
+    </linearGradient>
+  </defs>
+  <rect width="400" height="400" rx="48" fill="#000814"/>
+  <circle cx="200" cy="180" r="160" fill="url(#bg)"/>
+${rings.map((r) => `  <circle cx="200" cy="180" r="${r}" fill="none" stroke="rgba(255,255,255,0.25)" stroke-width="2"/>`).join("\n")}
+  <text x="200" y="200" text-anchor="middle" font-family="sans-serif" font-size="72" font-weight="800" fill="#fff">${escapeXml(initials)}</text>
+  <text x="200" y="250" text-anchor="middle" font-family="sans-serif" font-size="22" fill="rgba(255,255,255,0.85)">LAYER ${level}</text>
+  <text x="200" y="375" text-anchor="middle" font-family="sans-serif" font-size="22" font-weight="700" fill="#fff">${escapeXml(theme)}</text>
+</svg>`;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { playRun } from "@/test/runs";
+import { ChallengeError, answerChallenge, createChallenge } from "./challenges";
+import { RunRejectedError } from "./scores";
+
+describe("challenges", () => {
+  it("sets the challenger's replayed score as the target", async () => {
+    const challenge = await createChallenge(1, playRun(1));
+    expect(challenge.target).toBeGreaterThan(0);
+    expect(challenge).toMatchObject({ fid: 1, level: 1, seed: playRun(1).seed });
+  });
+
+  it("doesn't let a redealt run beat a clean one", async () => {
+    const challenge = await createChallenge(1, playRun(1));
+    for (const failures of [1, 10, 49]) {
+      const result = await answerChallenge(challenge.id, 2, playRun(1, failures));
+      expect(result.score).toBeLessThanOrEqual(challenge.target);
+      expect(result.beat).toBe(false);
+    }
+  });
+
+  it("only scores runs on the challenge's board", async () => {
+    const challenge = await createChallenge(1, playRun(1));
+    await expect(answerChallenge(challenge.id, 2, playRun(1, 0, "otherseed"))).rejects.toThrow(RunRejectedError);
+    await expect(answerChallenge(challenge.id, 2, playRun(2))).rejects.toThrow(RunRejectedError);
+  });
+
+  it("can't be taken by the challenger", async () => {
+    const challenge = await createChallenge(1, playRun(1));
+    await expect(answerChallenge(challenge.id, 1, playRun(1))).rejects.toThrow(ChallengeError);
+  });
+});
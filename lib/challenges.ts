@@ -0,0 +1,99 @@
+import { randomBytes } from "crypto";
+import { minikitConfig } from "@/minikit.config";
+import type { Difficulty } from "./difficulty";
+import { DEFAULT_LOCALE, type Locale } from "./i18n";
+import { RunRejectedError, scoreRun, type RunSubmission } from "./scores";
+import { getStorage } from "./storage";
+
+/**
+ * Asynchronous challenges.
+ *
+ * A player who clears a level can challenge a friend to the same board. The
+ * challenge is made from the player's run, which the server replays like any
+ * leaderboard submission, so the score to beat is one they really scored.
+ * The friend's run on that board is replayed the same way and compared. As
+ * on the leaderboard, only the deal that passed the quiz scores, so failing
+ * on purpose can neither raise a target nor beat one.
+ */
+
+export interface Challenge {
+  id: string;
+  fid: number;
+  seed: string;
+  level: number;
+  difficulty: Difficulty;
+  /** The challenger's score on the level; the one to beat. */
+  target: number;
+  createdAt: number;
+}
+
+export interface ChallengeResult {
+  challengeId: string;
+  fid: number;
+  score: number;
+  beat: boolean;
+  submittedAt: number;
+}
+
+export class ChallengeError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 422,
+  ) {
+    super(message);
+    this.name = "ChallengeError";
+  }
+}
+
+const challenges = () => getStorage().collection<Challenge>("challenges");
+const results = () => getStorage().collection<ChallengeResult>("challenge-results");
+
+/** The page that unfurls into the challenge card when cast. */
+export const challengeUrl = (id: string) => `${minikitConfig.miniapp.homeUrl}/challenge/${id}`;
+/** Opens the game straight into the challenge's board. */
+export const challengeLaunchUrl = (id: string) => `${minikitConfig.miniapp.homeUrl}/?challenge=${id}`;
+/** The challenge card, drawn in `locale`. */
+export const challengeImageUrl = (id: string, locale: Locale) =>
+  `${minikitConfig.miniapp.homeUrl}/api/challenges/${id}/image${locale === DEFAULT_LOCALE ? "" : `?lang=${locale}`}`;
+
+export async function createChallenge(fid: number, run: RunSubmission, now = Date.now()): Promise<Challenge> {
+  const { score } = scoreRun(run);
+  const challenge: Challenge = {
+    id: randomBytes(9).toString("base64url"),
+    fid,
+    seed: run.seed,
+    level: run.level,
+    difficulty: run.difficulty,
+    target: score,
+    createdAt: now,
+  };
+  await challenges().put(challenge.id, challenge);
+  return challenge;
+}
+
+export async function getChallenge(id: string): Promise<Challenge | null> {
+  return (await challenges().get(id)) ?? null;
+}
+
+/** Everyone who has taken the challenge, best score first. */
+export async function getChallengeResults(id: string): Promise<ChallengeResult[]> {
+  return (await results().list()).filter((r) => r.challengeId === id).sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt);
+}
+
+/**
+ * Scores a friend's run against the challenge. The run has to be on the
+ * challenge's board; a player's latest attempt replaces their earlier one.
+ */
+export async function answerChallenge(id: string, fid: number, run: RunSubmission, now = Date.now()): Promise<ChallengeResult> {
+  const challenge = await getChallenge(id);
+  if (!challenge) throw new ChallengeError("no such challenge", 404);
+  if (challenge.fid === fid) throw new ChallengeError("you cannot take your own challenge", 403);
+  if (run.seed !== challenge.seed || run.level !== challenge.level || run.difficulty !== challenge.difficulty) {
+    throw new RunRejectedError("run is not on the challenge's board");
+  }
+
+  const { score } = scoreRun(run);
+  const result: ChallengeResult = { challengeId: id, fid, score, beat: score > challenge.target, submittedAt: now };
+  await results().put(`${id}:${fid}`, result);
+  return result;
+}
@@ -0,0 +1,129 @@
+import { NextRequest } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/checkin/route";
+import { CheckInError, checkIn, getCheckIns } from "./checkIns";
+import { DAY_MS, gmMessage, gmTypedData, utcDay } from "./gm";
+
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_GM_CONTRACT = "0x00000000000000000000000000000000000000aa";
+});
+
+const NOW = Date.UTC(2026, 9, 18, 12);
+const HASH = `0x${"ab".repeat(32)}` as const;
+const player = privateKeyToAccount(`0x${"11".repeat(32)}`);
+const someoneElse = privateKeyToAccount(`0x${"22".repeat(32)}`);
+
+/** A JSON-RPC node answering every call with `result`, or a network that is down when `result` is an Error. */
+function rpc(result: unknown) {
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    if (result instanceof Error) throw result;
+    const { id } = JSON.parse(String(init.body));
+    return Response.json({ jsonrpc: "2.0", id, result });
+  });
+}
+
+/** A chain where the claimed address is a plain wallet, so a signature that doesn't recover to it is invalid. */
+function plainWallets() {
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    const { id, method } = JSON.parse(String(init.body));
+    return Response.json({ jsonrpc: "2.0", id, result: method === "eth_getCode" ? "0x" : `0x${"0".repeat(64)}` });
+  });
+}
+
+/** Today's GM for `fid` signed by `account`, claimed to be from `player`'s address. */
+const signedBy = async (account: typeof player, fid: number, now = NOW) => ({
+  type: "signature" as const,
+  address: player.address,
+  signature: await account.signTypedData({ ...gmTypedData, message: gmMessage(fid, utcDay(now)) }),
+});
+
+// The failed lookups are logged; keep them out of the test output.
+beforeEach(() => vi.spyOn(console, "error").mockImplementation(() => {}));
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("checkIn", () => {
+  it("reports a chain it can't reach as unavailable, not as a bad proof", async () => {
+    rpc(new TypeError("fetch failed"));
+    const attempt = checkIn(1, await signedBy(someoneElse, 1), NOW);
+    await expect(attempt).rejects.toThrow(CheckInError);
+    await expect(attempt).rejects.toMatchObject({ status: 503 });
+    await expect(checkIn(1, { type: "transaction", hash: HASH }, NOW)).rejects.toMatchObject({ status: 503 });
+    expect(await getCheckIns(1)).toEqual([]);
+  });
+
+  it("asks the player to wait for a transaction that isn't mined yet", async () => {
+    rpc(null);
+    await expect(checkIn(2, { type: "transaction", hash: HASH }, NOW)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("checks a wallet's signature on this device when the chain is down", async () => {
+    rpc(new TypeError("fetch failed"));
+    const { checkIn: record } = await checkIn(3, await signedBy(player, 3), NOW);
+    expect(record).toMatchObject({ fid: 3, day: utcDay(NOW), address: player.address, proof: "signature" });
+  });
+});
+
+describe("checkIn rules", () => {
+  beforeEach(plainWallets);
+
+  it("extends the streak on consecutive UTC days", async () => {
+    for (let day = 0; day < 3; day++) {
+      const now = NOW + day * DAY_MS;
+      const { streak } = await checkIn(10, await signedBy(player, 10, now), now);
+      expect(streak).toMatchObject({ streak: day + 1, checkedInToday: true });
+    }
+  });
+
+  it("counts by UTC day, so minutes either side of midnight are two days", async () => {
+    const beforeMidnight = Date.UTC(2026, 9, 18, 23, 50);
+    const afterMidnight = beforeMidnight + 20 * 60_000;
+    await checkIn(11, await signedBy(player, 11, beforeMidnight), beforeMidnight);
+    const { streak } = await checkIn(11, await signedBy(player, 11, afterMidnight), afterMidnight);
+    expect(streak.streak).toBe(2);
+
+    // Nearly a day later, but still the same UTC day.
+    const lateThatDay = Date.UTC(2026, 9, 19, 23, 55);
+    await expect(checkIn(11, await signedBy(player, 11, lateThatDay), lateThatDay)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("rejects a GM signed for another player", async () => {
+    await expect(checkIn(12, await signedBy(player, 99), NOW)).rejects.toMatchObject({ status: 422 });
+  });
+
+  it("rejects a GM signed for another day", async () => {
+    await expect(checkIn(13, await signedBy(player, 13, NOW - DAY_MS), NOW)).rejects.toMatchObject({ status: 422 });
+  });
+
+  it("rejects a GM signed by a wallet other than the one claimed", async () => {
+    await expect(checkIn(14, await signedBy(someoneElse, 14), NOW)).rejects.toMatchObject({ status: 422 });
+    expect(await getCheckIns(14)).toEqual([]);
+  });
+
+  it("turns away a second check-in on the same day", async () => {
+    await checkIn(15, await signedBy(player, 15), NOW);
+    await expect(checkIn(15, await signedBy(player, 15), NOW + 60_000)).rejects.toMatchObject({ status: 409 });
+    expect(await getCheckIns(15)).toHaveLength(1);
+  });
+});
+
+describe("POST /api/checkin", () => {
+  beforeEach(() => vi.stubEnv("DEV_AUTH", "1"));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("answers 503 with a message when the chain can't be reached", async () => {
+    rpc(new TypeError("fetch failed"));
+    const res = await POST(
+      new NextRequest("http://localhost/api/checkin", {
+        method: "POST",
+        headers: { "X-Dev-Fid": "4" },
+        body: JSON.stringify({ type: "transaction", hash: HASH }),
+      }),
+    );
+    expect(res.status).toBe(503);
+    expect(await res.json()).toEqual({ message: "could not reach the chain to check this; try again" });
+  });
+});
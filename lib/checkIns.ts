@@ -0,0 +1,168 @@
+import {
+  TransactionReceiptNotFoundError,
+  createPublicClient,
+  decodeEventLog,
+  http,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  recoverTypedDataAddress,
+  type Address,
+  type Hex,
+} from "viem";
+import { gameChain } from "./gameContract";
+import {
+  computeStreak,
+  gmContractAbi,
+  gmContractAddress,
+  gmMessage,
+  gmTypedData,
+  utcDay,
+  type Streak,
+} from "./gm";
+import { getStorage } from "./storage";
+
+/**
+ * Verified daily check-ins.
+ *
+ * A check-in is only recorded once its proof checks out: the signature must
+ * recover to the address it claims for today's UTC day, or the transaction
+ * must be a successful `gm` call for the player's FID mined today. Streaks
+ * are always worked out from these records, so nothing the client says
+ * about its streak is trusted.
+ */
+
+export type CheckInProof =
+  | { type: "signature"; address: Address; signature: Hex }
+  | { type: "transaction"; hash: Hex };
+
+export interface CheckIn {
+  fid: number;
+  day: number;
+  address: Address;
+  proof: CheckInProof["type"];
+  /** The signature or transaction hash, kept so the check-in can be checked again. */
+  reference: Hex;
+  checkedInAt: number;
+}
+
+export class CheckInError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 422,
+  ) {
+    super(message);
+    this.name = "CheckInError";
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export function parseCheckInProof(raw: unknown): CheckInProof {
+  if (!isRecord(raw)) throw new CheckInError("body must be an object", 400);
+  if (raw.type === "signature") {
+    if (typeof raw.address !== "string" || !isAddress(raw.address)) throw new CheckInError("address: must be an address", 400);
+    if (typeof raw.signature !== "string" || !isHex(raw.signature)) throw new CheckInError("signature: must be hex", 400);
+    return { type: "signature", address: raw.address, signature: raw.signature };
+  }
+  if (raw.type === "transaction") {
+    if (typeof raw.hash !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(raw.hash)) throw new CheckInError("hash: must be a transaction hash", 400);
+    return { type: "transaction", hash: raw.hash as Hex };
+  }
+  throw new CheckInError('type: must be "signature" or "transaction"', 400);
+}
+
+const checkIns = () => getStorage().collection<CheckIn>("check-ins");
+const inFlight = new Set<string>();
+
+// Smart wallets sign with ERC-1271 or ERC-6492, which can only be checked against the chain.
+const client = createPublicClient({ chain: gameChain, transport: http() });
+
+/** A failed RPC call says nothing about the proof, so it is reported as the chain being unavailable and can be retried. */
+async function fromChain<T>(lookup: Promise<T>): Promise<T> {
+  try {
+    return await lookup;
+  } catch (error) {
+    console.error("Check-in chain lookup failed:", error);
+    throw new CheckInError("could not reach the chain to check this; try again", 503);
+  }
+}
+
+async function verifyProof(fid: number, proof: CheckInProof, today: number): Promise<Address> {
+  if (proof.type === "signature") {
+    const signed = { ...gmTypedData, message: gmMessage(fid, today), signature: proof.signature };
+    // A plain wallet's signature is checked here; only smart wallets need the chain.
+    const signer = await recoverTypedDataAddress(signed).catch(() => null);
+    if (signer && isAddressEqual(signer, proof.address)) return proof.address;
+    // viem takes a failed call during verification for an invalid signature, so make sure the chain answers first.
+    await fromChain(client.getCode({ address: proof.address }));
+    const valid = await fromChain(client.verifyTypedData({ ...signed, address: proof.address }));
+    if (!valid) throw new CheckInError("signature does not match today's GM for this player");
+    return proof.address;
+  }
+
+  if (!gmContractAddress) throw new CheckInError("onchain check-ins are not enabled", 400);
+  const receipt = await fromChain(
+    client.getTransactionReceipt({ hash: proof.hash }).catch((error) => {
+      if (error instanceof TransactionReceiptNotFoundError) return null;
+      throw error;
+    }),
+  );
+  if (!receipt) throw new CheckInError("transaction not found; wait for it to be mined", 404);
+  if (receipt.status !== "success") throw new CheckInError("transaction reverted");
+  const gm = receipt.logs
+    .filter((log) => log.address.toLowerCase() === gmContractAddress!.toLowerCase())
+    .map((log) => {
+      try {
+        return decodeEventLog({ abi: gmContractAbi, ...log });
+      } catch {
+        return null;
+      }
+    })
+    .find((event) => event?.eventName === "GM" && event.args.fid === BigInt(fid));
+  if (!gm) throw new CheckInError("transaction is not a GM for this player");
+  const block = await fromChain(client.getBlock({ blockNumber: receipt.blockNumber }));
+  if (utcDay(Number(block.timestamp) * 1000) !== today) throw new CheckInError("transaction was not mined today");
+  return gm.args.player;
+}
+
+export async function getCheckIns(fid: number): Promise<CheckIn[]> {
+  return (await checkIns().list()).filter((c) => c.fid === fid);
+}
+
+export async function getStreak(fid: number, now = Date.now()): Promise<Streak> {
+  return computeStreak((await getCheckIns(fid)).map((c) => c.day), utcDay(now));
+}
+
+/** Every player's streak, for the reminder job. */
+export async function listStreaks(now = Date.now()): Promise<Map<number, Streak>> {
+  const days = new Map<number, number[]>();
+  for (const c of await checkIns().list()) days.set(c.fid, [...(days.get(c.fid) ?? []), c.day]);
+  return new Map([...days].map(([fid, list]) => [fid, computeStreak(list, utcDay(now))]));
+}
+
+/**
+ * Verifies and records today's check-in. A player checks in once per UTC
+ * day, and a transaction can only prove one check-in.
+ */
+export async function checkIn(fid: number, proof: CheckInProof, now = Date.now()): Promise<{ checkIn: CheckIn; streak: Streak }> {
+  const today = utcDay(now);
+  const key = `${fid}:${today}`;
+  // The reward goes out once per check-in, so a second request racing the first is turned away too.
+  if (inFlight.has(key)) throw new CheckInError("already checked in today", 409);
+  inFlight.add(key);
+  try {
+    if (await checkIns().get(key)) throw new CheckInError("already checked in today", 409);
+    const address = await verifyProof(fid, proof, today);
+    const reference = proof.type === "signature" ? proof.signature : proof.hash;
+    if (proof.type === "transaction" && (await checkIns().list()).some((c) => c.reference === reference)) {
+      throw new CheckInError("transaction already used for a check-in", 409);
+    }
+
+    const record: CheckIn = { fid, day: today, address, proof: proof.type, reference, checkedInAt: now };
+    await checkIns().put(key, record);
+    return { checkIn: record, streak: await getStreak(fid, now) };
+  } finally {
+    inFlight.delete(key);
+  }
+}
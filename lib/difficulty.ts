@@ -0,0 +1,91 @@
+import type { LevelData, LevelPar } from "./levels";
+
+/**
+ * Difficulty presets. The mode is part of every deal: it decides how many of
+ * a level's pairs reach the board, whether cards come in triples, how long
+ * the cards are shown before play and how quickly a mismatch flips back.
+ * Runs are replayed under the mode they were played in, and leaderboards
+ * keep modes apart.
+ */
+
+export type Difficulty = "easy" | "normal" | "hard" | "expert";
+
+export interface DifficultyPreset {
+  label: string;
+  /** Most pairs dealt from a level; levels with more are dealt a seeded subset. */
+  maxPairs: number;
+  /** Cards per match: 3 deals term, definition and example together. */
+  matchSize: 2 | 3;
+  /** How long every card is shown face up before the level starts, 0 for no preview. */
+  previewMs: number;
+  /** Free hints each level starts with, used up before the player's own. */
+  startingHints: number;
+  /** How long a mismatched group stays face up on the given level. */
+  mismatchDelay: (level: number) => number;
+}
+
+export const DEFAULT_DIFFICULTY: Difficulty = "normal";
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: {
+    label: "Easy",
+    maxPairs: 4,
+    matchSize: 2,
+    previewMs: 3000,
+    startingHints: 2,
+    mismatchDelay: (level) => Math.max(800, 1600 - level * 40),
+  },
+  normal: {
+    label: "Normal",
+    maxPairs: 6,
+    matchSize: 2,
+    previewMs: 1500,
+    startingHints: 0,
+    mismatchDelay: (level) => Math.max(250, 1000 - level * 40),
+  },
+  hard: {
+    label: "Hard",
+    maxPairs: 6,
+    matchSize: 2,
+    previewMs: 0,
+    startingHints: 0,
+    mismatchDelay: (level) => Math.max(200, 700 - level * 30),
+  },
+  expert: {
+    label: "Expert",
+    maxPairs: 6,
+    matchSize: 3,
+    previewMs: 0,
+    startingHints: 0,
+    mismatchDelay: (level) => Math.max(150, 500 - level * 20),
+  },
+};
+
+export const DIFFICULTIES = Object.keys(DIFFICULTY_PRESETS) as Difficulty[];
+
+export const isDifficulty = (v: unknown): v is Difficulty =>
+  typeof v === "string" && Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, v);
+
+/**
+ * Cards per match on a level: triples need an example for every pair dealt,
+ * so a level without enough examples falls back to pairs.
+ */
+export function matchSize(data: LevelData, difficulty: Difficulty): 2 | 3 {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  if (preset.matchSize === 2) return 2;
+  return data.pairs.every((pair) => pair.example) ? 3 : 2;
+}
+
+/**
+ * Par for a level as dealt on a difficulty. Moves scale with the pairs on the
+ * board; triples take longer to find, so they get half as much time again.
+ */
+export function boardPar(data: LevelData, difficulty: Difficulty): LevelPar {
+  const dealt = Math.min(data.pairs.length, DIFFICULTY_PRESETS[difficulty].maxPairs);
+  const share = dealt / data.pairs.length;
+  const slower = matchSize(data, difficulty) === 3 ? 1.5 : 1;
+  return {
+    moves: Math.max(dealt, Math.ceil(data.par.moves * share)),
+    seconds: Math.ceil(data.par.seconds * share * slower),
+  };
+}
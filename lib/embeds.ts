@@ -0,0 +1,25 @@
+import { minikitConfig } from "@/minikit.config";
+
+/**
+ * The `fc:miniapp` meta tag a page unfurls into when it is cast: an image at
+ * 3:2 with one button that launches the app, at `url` if given or the app's
+ * home URL otherwise.
+ *
+ * @see {@link https://miniapps.farcaster.xyz/docs/guides/sharing}
+ */
+export function miniappEmbed({ imageUrl, buttonTitle, url }: { imageUrl: string; buttonTitle: string; url?: string }) {
+  return {
+    "fc:miniapp": JSON.stringify({
+      version: minikitConfig.miniapp.version,
+      imageUrl,
+      button: {
+        title: buttonTitle,
+        action: {
+          name: `Launch ${minikitConfig.miniapp.name}`,
+          type: "launch_miniapp",
+          ...(url ? { url } : {}),
+        },
+      },
+    }),
+  };
+}
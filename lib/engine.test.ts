@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import {
+  FEE_BONUS,
+  MATCH_POINTS_PER_LEVEL,
+  QUIZ_POINTS_PER_LEVEL,
+  createGameState,
+  currentQuestion,
+  dealCards,
+  defaultContext,
+  reduce,
+  replay,
+  snapshotBoard,
+  type GameAction,
+  type GameState,
+} from "./engine";
+import { hintPrice } from "./hints";
+import { TOTAL_LEVELS } from "./levels";
+
+const SEED = "testseed";
+
+/** A hard board has no preview, so play starts straight away. */
+const dealt = (level = 1, difficulty: GameState["difficulty"] = "hard") =>
+  reduce(createGameState({ level, difficulty }), { type: "deal", seed: SEED }).state;
+
+/** Flips every group of the board in turn, without a single mismatch. */
+function perfectFlips(state: GameState): GameAction[] {
+  const groups = new Map<number, number[]>();
+  state.cards.forEach((c, i) => {
+    if (!c.isMatched) groups.set(c.pairId, [...(groups.get(c.pairId) ?? []), i]);
+  });
+  return [...groups.values()].flat().map((index) => ({ type: "flip", index }));
+}
+
+/** Two face-down cards that don't belong together. */
+function mismatchedPair(state: GameState): [number, number] {
+  const first = state.cards.findIndex((c) => !c.isMatched);
+  const other = state.cards.findIndex((c) => !c.isMatched && c.pairId !== state.cards[first].pairId);
+  return [first, other];
+}
+
+const rightAnswer = (state: GameState) => currentQuestion(state).answer;
+const wrongAnswer = (state: GameState) => (rightAnswer(state) + 1) % currentQuestion(state).options.length;
+
+describe("deals", () => {
+  it("deals the same board from the same seed, level, attempt and difficulty", () => {
+    const a = dealCards(SEED, 1, 0, "normal", defaultContext);
+    const b = dealCards(SEED, 1, 0, "normal", defaultContext);
+    expect(a).toEqual(b);
+  });
+
+  it("deals a different board for another seed or attempt", () => {
+    const order = (cards: { id: string }[]) => cards.map((c) => c.id).join();
+    const first = order(dealCards(SEED, 1, 0, "normal", defaultContext));
+    expect(order(dealCards("otherseed", 1, 0, "normal", defaultContext))).not.toBe(first);
+    expect(order(dealCards(SEED, 1, 1, "normal", defaultContext))).not.toBe(first);
+  });
+
+  it("shows the board face up during the preview", () => {
+    const { state, events } = reduce(createGameState(), { type: "deal", seed: SEED });
+    expect(state.phase).toBe("preview");
+    expect(state.cards.every((c) => c.isFlipped)).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: "previewShown" }));
+
+    const played = reduce(state, { type: "endPreview" }).state;
+    expect(played.phase).toBe("playing");
+    expect(played.cards.some((c) => c.isFlipped)).toBe(false);
+  });
+});
+
+describe("matching", () => {
+  it("scores a match and keeps both cards face up", () => {
+    const state = dealt();
+    const [a, b] = perfectFlips(state) as { type: "flip"; index: number }[];
+    const { state: next, events } = replay(state, [a, b]);
+    expect(events).toContainEqual({ type: "matched", pairId: state.cards[a.index].pairId, points: MATCH_POINTS_PER_LEVEL });
+    expect(next.cards[a.index].isMatched && next.cards[b.index].isMatched).toBe(true);
+    expect(next.score).toBe(MATCH_POINTS_PER_LEVEL);
+    expect(next.stats).toMatchObject({ moves: 1, mismatches: 0 });
+  });
+
+  it("holds a mismatch face up until it is resolved", () => {
+    const state = dealt();
+    const [a, b] = mismatchedPair(state);
+    const { state: missed, events } = replay(state, [
+      { type: "flip", index: a },
+      { type: "flip", index: b },
+    ]);
+    expect(events).toContainEqual(expect.objectContaining({ type: "mismatched", indices: [a, b] }));
+    expect(missed.stats).toMatchObject({ moves: 1, mismatches: 1 });
+
+    // Nothing else can be flipped until the host flips the pair back.
+    const blocked = missed.cards.findIndex((c) => !c.isFlipped);
+    expect(reduce(missed, { type: "flip", index: blocked }).state).toBe(missed);
+
+    const resolved = reduce(missed, { type: "resolveMismatch" }).state;
+    expect(resolved.cards[a].isFlipped || resolved.cards[b].isFlipped).toBe(false);
+    expect(resolved.flipped).toEqual([]);
+  });
+
+  it("opens the quiz once the board is cleared", () => {
+    const state = dealt();
+    const { state: cleared, events } = replay(state, perfectFlips(state));
+    expect(events.at(-1)).toEqual({ type: "boardCleared" });
+    expect(cleared.phase).toBe("quiz");
+  });
+
+  it("matches triples on expert boards", () => {
+    const state = dealt(1, "expert");
+    expect(state.cards.length % 3).toBe(0);
+    const { state: cleared } = replay(state, perfectFlips(state));
+    expect(cleared.phase).toBe("quiz");
+  });
+});
+
+describe("hints", () => {
+  it("reveals a pair paid for with hints, then hides it again", () => {
+    const state = dealt();
+    const { state: hinted, events } = reduce(state, { type: "useHint" });
+    expect(hinted.hints).toBe(state.hints - hintPrice("pair", "hints", 1));
+    expect(hinted.hinted).toHaveLength(2);
+    expect(hinted.hinted.every((i) => hinted.cards[i].isFlipped)).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: "hintShown" }));
+
+    const hidden = reduce(hinted, { type: "endHint" }).state;
+    expect(hidden.hinted).toEqual([]);
+    expect(hinted.hinted.some((i) => hidden.cards[i].isFlipped)).toBe(false);
+  });
+
+  it("takes points off the score and the level for hints bought with points", () => {
+    const state = { ...dealt(), score: 1000 };
+    const { state: next } = reduce(state, { type: "useHint", hint: "card", payWith: "points" });
+    expect(next.score).toBe(1000 - hintPrice("card", "points", 1));
+    expect(next.hints).toBe(state.hints);
+    expect(next.stats.hintsUsed).toBe(1);
+  });
+
+  it("refuses hints the player can't afford, mid-turn or while another is showing", () => {
+    const state = dealt();
+    expect(reduce({ ...state, hints: 0 }, { type: "useHint" }).state.hints).toBe(0);
+    const midTurn = reduce(state, { type: "flip", index: 0 }).state;
+    expect(reduce(midTurn, { type: "useHint" }).events).toEqual([]);
+    const showing = reduce(state, { type: "useHint", hint: "card" }).state;
+    expect(reduce(showing, { type: "useHint", hint: "card" }).events).toEqual([]);
+  });
+
+  it("auto-matches a pair without points for it", () => {
+    const state = { ...dealt(), hints: 10 };
+    const { state: next, events } = reduce(state, { type: "useHint", hint: "autoMatch" });
+    expect(next.cards.filter((c) => c.isMatched)).toHaveLength(2);
+    expect(events).toContainEqual(expect.objectContaining({ type: "matched", points: 0 }));
+    expect(next.score).toBe(0);
+  });
+});
+
+describe("quiz", () => {
+  const cleared = () => {
+    const state = dealt();
+    return replay(state, perfectFlips(state)).state;
+  };
+
+  it("awards quiz points and shows the results on a right answer", () => {
+    const state = cleared();
+    const { state: next, events } = reduce(state, { type: "answerQuiz", option: rightAnswer(state) });
+    expect(events[0]).toMatchObject({ type: "quizAnswered", correct: true, points: QUIZ_POINTS_PER_LEVEL });
+    expect(next.phase).toBe("results");
+    expect(next.quizzesSolved).toBe(1);
+    expect(next.score).toBeGreaterThanOrEqual(state.score + QUIZ_POINTS_PER_LEVEL);
+  });
+
+  it("redeals the level with a new attempt on a wrong answer", () => {
+    const state = cleared();
+    const { state: next, events } = reduce(state, { type: "answerQuiz", option: wrongAnswer(state) });
+    expect(events[0]).toMatchObject({ type: "quizAnswered", correct: false, points: 0 });
+    expect(next.phase).toBe("playing");
+    expect(next.attempt).toBe(1);
+    expect(next.level).toBe(1);
+    expect(next.cards.some((c) => c.isMatched)).toBe(false);
+  });
+
+  it("takes the failed board's points back on a redeal", () => {
+    const state = cleared();
+    const { state: next } = reduce(state, { type: "answerQuiz", option: wrongAnswer(state) });
+    expect(next.score).toBe(0);
+    expect(next.stats).toMatchObject({ points: 0, moves: state.stats.moves });
+  });
+
+  it("can only be left by answering it", () => {
+    const state = cleared();
+    for (const type of ["endPreview", "resolveMismatch", "endHint", "closeResults", "advance"] as const) {
+      expect(reduce(state, { type }).state.phase).toBe("quiz");
+    }
+  });
+});
+
+describe("level progression", () => {
+  function passLevel(state: GameState, pay: boolean): GameState {
+    const cleared = replay(state, perfectFlips(state)).state;
+    const actions: GameAction[] = [{ type: "answerQuiz", option: rightAnswer(cleared) }, { type: "closeResults" }];
+    if (pay) actions.push({ type: "payFee" });
+    return replay(cleared, [...actions, { type: "advance" }]).state;
+  }
+
+  it("moves on to the next level after the transaction step", () => {
+    const next = passLevel(dealt(), false);
+    expect(next.level).toBe(2);
+    expect(next.furthestLevel).toBe(2);
+    expect(next.attempt).toBe(0);
+    expect(next.stats).toEqual({ moves: 0, mismatches: 0, hintsUsed: 0, points: 0 });
+  });
+
+  it("adds the fee bonus only once", () => {
+    const state = dealt();
+    const cleared = replay(state, perfectFlips(state)).state;
+    const atFee = replay(cleared, [{ type: "answerQuiz", option: rightAnswer(cleared) }, { type: "closeResults" }]).state;
+    const paid = replay(atFee, [{ type: "payFee" }, { type: "payFee" }]).state;
+    expect(paid.score).toBe(atFee.score + FEE_BONUS);
+  });
+
+  it("completes the game after the last level", () => {
+    const last = passLevel(dealt(TOTAL_LEVELS), false);
+    expect(last.phase).toBe("complete");
+  });
+
+  it("keeps the furthest level when an earlier one is replayed", () => {
+    const state = { ...dealt(3), furthestLevel: 3 };
+    const replayed = reduce(state, { type: "selectLevel", level: 1 }).state;
+    expect(replayed.level).toBe(1);
+    expect(replayed.furthestLevel).toBe(3);
+  });
+});
+
+describe("save and restore", () => {
+  it("resumes a board in progress from its snapshot", () => {
+    const state = dealt();
+    const [a, b] = perfectFlips(state) as { type: "flip"; index: number }[];
+    const matched = replay(state, [a, b]).state;
+    const c = matched.cards.findIndex((card) => !card.isFlipped);
+    const played = reduce(matched, { type: "flip", index: c }).state;
+
+    const fresh = createGameState({ level: 1, difficulty: "hard" });
+    const snapshot = JSON.parse(JSON.stringify(snapshotBoard(played)));
+    const { state: resumed, events } = reduce(fresh, { type: "resume", board: snapshot });
+    expect(events).toEqual([{ type: "levelResumed", level: 1 }]);
+    expect(resumed.cards).toEqual(played.cards);
+    expect(resumed.flipped).toEqual([c]);
+    expect(resumed.stats).toEqual(played.stats);
+  });
+
+  it("ignores a snapshot that doesn't fit its deal", () => {
+    const state = dealt();
+    const snapshot = { ...snapshotBoard(state), flipped: [999] };
+    const fresh = createGameState({ level: 1, difficulty: "hard" });
+    expect(reduce(fresh, { type: "resume", board: snapshot }).state).toBe(fresh);
+  });
+
+  it("restores synced progress and deals its level afresh", () => {
+    const { state } = reduce(dealt(), { type: "restore", progress: { level: 4, score: 900, hints: 2, quizzesSolved: 3 } });
+    expect(state).toMatchObject({ level: 4, furthestLevel: 4, score: 900, hints: 2, quizzesSolved: 3, attempt: 0 });
+    expect(state.cards.length).toBeGreaterThan(0);
+  });
+});
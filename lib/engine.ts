@@ -0,0 +1,603 @@
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, boardPar, isDifficulty, matchSize, type Difficulty } from "./difficulty";
+import { HINT_TYPES, hintPrice, type HintPayment, type HintType } from "./hints";
+import { LEVEL_PACK, type LevelData, type LevelPar } from "./levels";
+import { levelQuestion, type PreparedQuestion, type QuizText } from "./quiz";
+import { createRandom, shuffle } from "./random";
+
+/**
+ * Framework-free rules for the memory game.
+ *
+ * `reduce` takes the current state and one explicit action and returns the
+ * next state together with the events that action produced. It never reads
+ * the clock, storage or Math.random: anything time based (flipping a
+ * mismatched pair back, hiding a hint) is reported as an event, and the host
+ * answers it later with another action. Every deal is shuffled from the run's
+ * seed, the level, the attempt number and the difficulty, so the same seed and
+ * actions always replay to the same state.
+ */
+
+export interface Card {
+  id: string;
+  content: string;
+  /** Cards with the same pair id match: a term and its definition, plus its example on triple boards. */
+  pairId: number;
+  isFlipped: boolean;
+  isMatched: boolean;
+}
+
+export type GamePhase = "preview" | "playing" | "quiz" | "results" | "transaction" | "complete";
+
+/** How the current level has been played, across redeals after a failed quiz. */
+export interface LevelStats {
+  /** Turns taken, i.e. pairs of cards flipped. */
+  moves: number;
+  mismatches: number;
+  hintsUsed: number;
+  /**
+   * Points earned on the board and quiz, not counting rewards from outside
+   * the level. Only the current deal counts: a failed quiz takes its board's
+   * points back, so redealing can't add up a bigger score.
+   */
+  points: number;
+}
+
+export type Stars = 1 | 2 | 3;
+
+export interface GameState {
+  /** Seed the boards of this run are shuffled from. */
+  seed: string;
+  /** How many times the current level has been redealt after a failed quiz. */
+  attempt: number;
+  /** The level on the board, which is below `furthestLevel` while replaying. */
+  level: number;
+  /** Highest level reached; this is the progress that gets saved and synced. */
+  furthestLevel: number;
+  difficulty: Difficulty;
+  cards: Card[];
+  /** Face-up cards that have not been resolved yet, in flip order. */
+  flipped: number[];
+  /** Cards currently revealed by a hint. */
+  hinted: number[];
+  score: number;
+  hints: number;
+  /** Hints the difficulty gives for this level only; spent before `hints`. */
+  freeHints: number;
+  quizzesSolved: number;
+  phase: GamePhase;
+  feePaid: boolean;
+  stats: LevelStats;
+}
+
+export type GameAction =
+  /** Deals `level` (by default the current one) from a new seed. */
+  | { type: "deal"; seed: string; level?: number }
+  | { type: "endPreview" }
+  | { type: "flip"; index: number }
+  | { type: "resolveMismatch" }
+  /** Spends hints or points on a hint; a bare `useHint` reveals a pair paid for with hints. */
+  | { type: "useHint"; hint?: HintType; payWith?: HintPayment }
+  | { type: "endHint" }
+  /** The quiz can only be left by answering it: a cleared board has nothing left to play. */
+  | { type: "answerQuiz"; option: number }
+  | { type: "closeResults" }
+  | { type: "payFee" }
+  | { type: "advance" }
+  | { type: "checkIn" }
+  /** Hints bought onchain, granted once the host has had the purchase verified. */
+  | { type: "purchaseHints"; amount: number }
+  | { type: "selectLevel"; level: number }
+  | { type: "setDifficulty"; difficulty: Difficulty }
+  | { type: "restore"; progress: Pick<GameState, "level" | "score" | "hints" | "quizzesSolved"> }
+  | { type: "resume"; board: BoardSnapshot };
+
+/**
+ * A board in progress, compact enough to keep in a save. Card order is not
+ * stored: it is dealt again from the seed, level and attempt.
+ */
+export interface BoardSnapshot {
+  seed: string;
+  level: number;
+  attempt: number;
+  difficulty: Difficulty;
+  /** Pair ids already matched. */
+  matched: number[];
+  flipped: number[];
+  hinted: number[];
+  freeHints: number;
+  phase: GamePhase;
+  feePaid: boolean;
+  stats: LevelStats;
+}
+
+/** Actions a player takes on the board itself, as opposed to rewards granted outside it. */
+export const BOARD_ACTIONS: ReadonlySet<GameAction["type"]> = new Set([
+  "endPreview",
+  "flip",
+  "resolveMismatch",
+  "useHint",
+  "endHint",
+  "answerQuiz",
+]);
+
+export type GameEvent =
+  | { type: "levelStarted"; level: number }
+  | { type: "levelResumed"; level: number }
+  | { type: "previewShown"; duration: number }
+  | { type: "cardFlipped"; index: number }
+  | { type: "matched"; pairId: number; points: number }
+  | { type: "mismatched"; indices: number[]; delay: number }
+  | { type: "boardCleared" }
+  | { type: "hintUsed"; hint: HintType; payWith: HintPayment; price: number }
+  | { type: "hintShown"; indices: number[]; duration: number }
+  | { type: "quizAnswered"; questionId: string; correct: boolean; points: number }
+  | { type: "efficiencyBonus"; movesUnderPar: number; points: number }
+  | { type: "hintsAwarded"; amount: number }
+  | { type: "hintsPurchased"; amount: number }
+  | { type: "feePaid"; points: number }
+  | { type: "checkedIn"; points: number; hints: number }
+  | { type: "gameCompleted"; score: number };
+
+export interface EngineContext {
+  levels: LevelData[];
+  /** Wording for quiz questions; only the answer's position matters to the rules, so replays can leave it out. */
+  quizText?: QuizText;
+}
+
+export interface StepResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export const MATCH_POINTS_PER_LEVEL = 30;
+export const QUIZ_POINTS_PER_LEVEL = 200;
+/** Awarded with the quiz for every move the level was cleared under par. */
+export const EFFICIENCY_POINTS_PER_LEVEL = 20;
+export const FEE_BONUS = 1000;
+export const CHECK_IN_POINTS = 500;
+export const CHECK_IN_HINTS = 1;
+export const STARTING_HINTS = 3;
+/** Every Nth solved quiz awards QUIZ_STREAK_HINTS extra hints. */
+export const QUIZ_STREAK_EVERY = 5;
+export const QUIZ_STREAK_HINTS = 2;
+
+export const defaultContext: EngineContext = {
+  levels: LEVEL_PACK.levels,
+};
+
+const NO_STATS: LevelStats = { moves: 0, mismatches: 0, hintsUsed: 0, points: 0 };
+
+/**
+ * Three stars for a level cleared within par moves and time without hints,
+ * two within one and a half times par, one otherwise. Time comes from the
+ * host, so stars are a local reward and never change the score.
+ */
+export function rateLevel(stats: LevelStats, elapsedMs: number, par: LevelPar): Stars {
+  const seconds = elapsedMs / 1000;
+  if (stats.moves <= par.moves && seconds <= par.seconds && stats.hintsUsed === 0) return 3;
+  if (stats.moves <= par.moves * 1.5 && seconds <= par.seconds * 1.5) return 2;
+  return 1;
+}
+
+/** Par for the current board, which depends on how the difficulty deals the level. */
+export const levelPar = (state: GameState, ctx: EngineContext = defaultContext): LevelPar =>
+  boardPar(ctx.levels[state.level - 1], state.difficulty);
+
+export function dealCards(seed: string, level: number, attempt: number, difficulty: Difficulty, ctx: EngineContext): Card[] {
+  const data = ctx.levels[level - 1];
+  const random = createRandom(`${seed}/${level}/${attempt}/${difficulty}`);
+  const triples = matchSize(data, difficulty) === 3;
+  // Pair ids stay the pairs' indices in the level, so a smaller board still lines up with the content.
+  const dealt = shuffle(
+    data.pairs.map((_, index) => index),
+    random,
+  ).slice(0, DIFFICULTY_PRESETS[difficulty].maxPairs);
+
+  const cards: Card[] = [];
+  for (const index of dealt.sort((a, b) => a - b)) {
+    const pair = data.pairs[index];
+    cards.push({ id: `t-${level}-${index}`, content: pair.term, pairId: index, isFlipped: false, isMatched: false });
+    cards.push({ id: `d-${level}-${index}`, content: pair.definition, pairId: index, isFlipped: false, isMatched: false });
+    if (triples && pair.example) {
+      cards.push({ id: `e-${level}-${index}`, content: pair.example, pairId: index, isFlipped: false, isMatched: false });
+    }
+  }
+  return shuffle(cards, random);
+}
+
+/** State for a saved run before its board has been dealt; dispatch `deal` to start playing. */
+export function createGameState(
+  saved: Partial<Pick<GameState, "level" | "score" | "hints" | "quizzesSolved" | "difficulty">> = {},
+): GameState {
+  return {
+    seed: "",
+    attempt: 0,
+    level: saved.level ?? 1,
+    furthestLevel: saved.level ?? 1,
+    difficulty: saved.difficulty ?? DEFAULT_DIFFICULTY,
+    cards: [],
+    flipped: [],
+    hinted: [],
+    score: saved.score ?? 0,
+    hints: saved.hints ?? STARTING_HINTS,
+    freeHints: 0,
+    quizzesSolved: saved.quizzesSolved ?? 0,
+    phase: "playing",
+    feePaid: false,
+    stats: NO_STATS,
+  };
+}
+
+export function snapshotBoard(state: GameState): BoardSnapshot {
+  const { seed, level, attempt, difficulty, flipped, hinted, freeHints, phase, feePaid, stats } = state;
+  const matched = [...new Set(state.cards.filter((c) => c.isMatched).map((c) => c.pairId))];
+  return { seed, level, attempt, difficulty, matched, flipped, hinted, freeHints, phase, feePaid, stats };
+}
+
+/**
+ * Rebuilds a saved board on top of the current progress. Face-up cards from an
+ * unresolved mismatch, a hint or the preview stay face up; the host resolves
+ * them again. A snapshot that doesn't fit its deal is ignored.
+ */
+function resumeBoard(state: GameState, board: BoardSnapshot, ctx: EngineContext): StepResult {
+  const { seed, level, attempt, difficulty, matched, flipped, hinted, phase } = board;
+  if (
+    !seed ||
+    level > state.furthestLevel ||
+    !ctx.levels[level - 1] ||
+    !Number.isInteger(attempt) ||
+    attempt < 0 ||
+    !isDifficulty(difficulty)
+  ) {
+    return unchanged(state);
+  }
+
+  const matchedPairs = new Set(matched);
+  const cards = dealCards(seed, level, attempt, difficulty, ctx).map((c) => ({ ...c, isMatched: matchedPairs.has(c.pairId) }));
+  const faceDown = (i: number) => Number.isInteger(i) && cards[i] !== undefined && !cards[i].isMatched;
+  const cleared = cards.every((c) => c.isMatched);
+  const onBoard = phase === "preview" || phase === "playing";
+  if (
+    flipped.length > matchSize(ctx.levels[level - 1], difficulty) ||
+    !flipped.every(faceDown) ||
+    !hinted.every(faceDown) ||
+    onBoard === cleared ||
+    (phase === "preview" && (matched.length > 0 || flipped.length > 0)) ||
+    (phase === "complete" && level < ctx.levels.length)
+  ) {
+    return unchanged(state);
+  }
+  cards.forEach((c, i) => {
+    c.isFlipped = c.isMatched || phase === "preview" || flipped.includes(i) || hinted.includes(i);
+  });
+
+  return {
+    state: {
+      ...state,
+      seed,
+      level,
+      attempt,
+      difficulty,
+      cards,
+      flipped,
+      hinted,
+      freeHints: board.freeHints,
+      phase,
+      feePaid: board.feePaid,
+      stats: board.stats,
+    },
+    events: [{ type: "levelResumed", level }],
+  };
+}
+
+function startLevel(state: GameState, level: number, attempt: number, ctx: EngineContext): StepResult {
+  const preset = DIFFICULTY_PRESETS[state.difficulty];
+  const redeal = attempt > 0;
+  const preview = preset.previewMs > 0;
+  const cards = dealCards(state.seed, level, attempt, state.difficulty, ctx).map((c) => ({ ...c, isFlipped: preview }));
+  const events: GameEvent[] = [{ type: "levelStarted", level }];
+  if (preview) events.push({ type: "previewShown", duration: preset.previewMs });
+  return {
+    state: {
+      ...state,
+      level,
+      furthestLevel: Math.max(state.furthestLevel, level),
+      attempt,
+      cards,
+      flipped: [],
+      hinted: [],
+      // A redeal after a failed quiz carries on the same level, free hints and play so far included,
+      // but the failed board's points are taken back.
+      score: redeal ? state.score - state.stats.points : state.score,
+      freeHints: redeal ? state.freeHints : preset.startingHints,
+      phase: preview ? "preview" : "playing",
+      feePaid: false,
+      stats: redeal ? { ...state.stats, points: 0 } : NO_STATS,
+    },
+    events,
+  };
+}
+
+function endPreview(state: GameState): StepResult {
+  if (state.phase !== "preview") return unchanged(state);
+  return {
+    state: { ...state, cards: state.cards.map((c) => ({ ...c, isFlipped: false })), phase: "playing" },
+    events: [],
+  };
+}
+
+/** Face-up cards that don't all belong together, waiting for `resolveMismatch`. */
+const awaitingFlipBack = ({ cards, flipped }: GameState) =>
+  flipped.some((i) => cards[i].pairId !== cards[flipped[0]].pairId);
+
+const unchanged = (state: GameState): StepResult => ({ state, events: [] });
+
+/**
+ * Flips one card. A turn ends as soon as a card doesn't belong with the first
+ * one flipped, or once the whole group (a pair, or a triple on expert boards)
+ * is face up.
+ */
+function flip(state: GameState, index: number): StepResult {
+  if (state.phase !== "playing" || awaitingFlipBack(state)) return unchanged(state);
+  const card = state.cards[index];
+  if (!card || card.isFlipped || card.isMatched) return unchanged(state);
+
+  const cards = [...state.cards];
+  cards[index] = { ...card, isFlipped: true };
+  const flipped = [...state.flipped, index];
+  const events: GameEvent[] = [{ type: "cardFlipped", index }];
+
+  const { pairId } = cards[flipped[0]];
+  const moves = state.stats.moves + 1;
+  if (card.pairId !== pairId) {
+    events.push({ type: "mismatched", indices: flipped, delay: DIFFICULTY_PRESETS[state.difficulty].mismatchDelay(state.level) });
+    const stats = { ...state.stats, moves, mismatches: state.stats.mismatches + 1 };
+    return { state: { ...state, cards, flipped, stats }, events };
+  }
+
+  if (flipped.length < cards.filter((c) => c.pairId === pairId).length) {
+    return { state: { ...state, cards, flipped }, events };
+  }
+
+  flipped.forEach((i) => (cards[i] = { ...cards[i], isMatched: true }));
+  const points = MATCH_POINTS_PER_LEVEL * state.level;
+  events.push({ type: "matched", pairId, points });
+
+  const cleared = cards.every((c) => c.isMatched);
+  if (cleared) events.push({ type: "boardCleared" });
+
+  return {
+    state: {
+      ...state,
+      cards,
+      flipped: [],
+      hinted: cleared ? [] : state.hinted,
+      score: state.score + points,
+      phase: cleared ? "quiz" : state.phase,
+      stats: { ...state.stats, moves, points: state.stats.points + points },
+    },
+    events,
+  };
+}
+
+function resolveMismatch(state: GameState): StepResult {
+  if (!awaitingFlipBack(state)) return unchanged(state);
+  const cards = [...state.cards];
+  state.flipped.forEach((i) => (cards[i] = { ...cards[i], isFlipped: false }));
+  return { state: { ...state, cards, flipped: [] }, events: [] };
+}
+
+/** Why a hint can't be used: during the preview, once the board is cleared, mid-turn, or while another is showing. */
+export type HintBlock = "preview" | "cleared" | "turn" | "showing";
+
+/**
+ * Why no hint can be used right now, or null if one can. Hints wait for the
+ * preview to end and for the current turn to be resolved, and stop once the
+ * board is cleared.
+ */
+export function hintBlocked(state: GameState): HintBlock | null {
+  if (state.phase === "preview") return "preview";
+  if (state.phase !== "playing" || state.cards.every((c) => c.isMatched)) return "cleared";
+  if (state.flipped.length > 0) return "turn";
+  if (state.hinted.length > 0) return "showing";
+  return null;
+}
+
+export const canAfford = (state: GameState, hint: HintType, payWith: HintPayment) =>
+  payWith === "hints"
+    ? state.freeHints + state.hints >= hintPrice(hint, payWith, state.level)
+    : state.score >= hintPrice(hint, payWith, state.level);
+
+/** Every card of the group `pairId`. */
+const groupOf = (cards: Card[], pairId: number) =>
+  cards.reduce<number[]>((acc, c, idx) => (c.pairId === pairId ? acc.concat(idx) : acc), []);
+
+function applyHint(state: GameState, hint: HintType, payWith: HintPayment): StepResult {
+  if (hintBlocked(state) || !canAfford(state, hint, payWith)) return unchanged(state);
+  const faceDown = state.cards.reduce<number[]>((acc, c, idx) => (c.isMatched ? acc : acc.concat(idx)), []);
+
+  let cards = [...state.cards];
+  let indices: number[];
+  if (hint === "card") {
+    // Which card is shown comes from the deal and the hints used so far, so replays show the same one.
+    const random = createRandom(`${state.seed}/${state.level}/${state.attempt}/${state.difficulty}/hint/${state.stats.hintsUsed}`);
+    indices = [faceDown[Math.floor(random() * faceDown.length)]];
+  } else if (hint === "peek") {
+    indices = faceDown;
+  } else {
+    indices = groupOf(cards, cards[faceDown[0]].pairId);
+  }
+
+  const price = hintPrice(hint, payWith, state.level);
+  const fromFree = payWith === "hints" ? Math.min(state.freeHints, price) : 0;
+  const paid: GameState = {
+    ...state,
+    freeHints: state.freeHints - fromFree,
+    hints: payWith === "hints" ? state.hints - (price - fromFree) : state.hints,
+    score: payWith === "points" ? state.score - price : state.score,
+    stats: {
+      ...state.stats,
+      hintsUsed: state.stats.hintsUsed + 1,
+      // Points spent on hints come out of the level's points, but never below zero.
+      points: payWith === "points" ? Math.max(0, state.stats.points - price) : state.stats.points,
+    },
+  };
+  const events: GameEvent[] = [{ type: "hintUsed", hint, payWith, price }];
+
+  if (hint === "autoMatch") {
+    indices.forEach((i) => (cards[i] = { ...cards[i], isMatched: true, isFlipped: true }));
+    events.push({ type: "matched", pairId: cards[indices[0]].pairId, points: 0 });
+    const cleared = cards.every((c) => c.isMatched);
+    if (cleared) events.push({ type: "boardCleared" });
+    return { state: { ...paid, cards, phase: cleared ? "quiz" : paid.phase }, events };
+  }
+
+  cards = cards.map((c, i) => (indices.includes(i) ? { ...c, isFlipped: true } : c));
+  events.push({ type: "hintShown", indices, duration: HINT_TYPES[hint].durationMs });
+  return { state: { ...paid, cards, hinted: indices }, events };
+}
+
+function endHint(state: GameState): StepResult {
+  if (state.hinted.length === 0) return unchanged(state);
+  const cards = [...state.cards];
+  state.hinted.forEach((i) => {
+    if (!cards[i].isMatched) cards[i] = { ...cards[i], isFlipped: false };
+  });
+  return { state: { ...state, cards, hinted: [] }, events: [] };
+}
+
+/** The question asked once the current board is cleared; `answerQuiz` options index into its `options`. */
+export function currentQuestion(state: GameState, ctx: EngineContext = defaultContext): PreparedQuestion {
+  return levelQuestion(state.seed, state.level, state.attempt, ctx.levels, ctx.quizText);
+}
+
+function answerQuiz(state: GameState, option: number, ctx: EngineContext): StepResult {
+  if (state.phase !== "quiz") return unchanged(state);
+
+  const question = currentQuestion(state, ctx);
+  const questionId = question.id;
+  if (option !== question.answer) {
+    // A wrong answer sends the player back to a fresh deal of the same level, which also draws a new question.
+    const restarted = startLevel(state, state.level, state.attempt + 1, ctx);
+    return { state: restarted.state, events: [{ type: "quizAnswered", questionId, correct: false, points: 0 }, ...restarted.events] };
+  }
+
+  const quizzesSolved = state.quizzesSolved + 1;
+  const points = QUIZ_POINTS_PER_LEVEL * state.level;
+  const events: GameEvent[] = [{ type: "quizAnswered", questionId, correct: true, points }];
+  const movesUnderPar = Math.max(0, levelPar(state, ctx).moves - state.stats.moves);
+  const bonus = movesUnderPar * EFFICIENCY_POINTS_PER_LEVEL * state.level;
+  if (bonus > 0) events.push({ type: "efficiencyBonus", movesUnderPar, points: bonus });
+  let hints = state.hints;
+  if (quizzesSolved % QUIZ_STREAK_EVERY === 0) {
+    hints += QUIZ_STREAK_HINTS;
+    events.push({ type: "hintsAwarded", amount: QUIZ_STREAK_HINTS });
+  }
+  return {
+    state: {
+      ...state,
+      quizzesSolved,
+      hints,
+      score: state.score + points + bonus,
+      phase: "results",
+      stats: { ...state.stats, points: state.stats.points + points + bonus },
+    },
+    events,
+  };
+}
+
+function advance(state: GameState, ctx: EngineContext): StepResult {
+  if (state.phase !== "transaction") return unchanged(state);
+  if (state.level < ctx.levels.length) return startLevel(state, state.level + 1, 0, ctx);
+  return {
+    state: { ...state, phase: "complete" },
+    events: [{ type: "gameCompleted", score: state.score }],
+  };
+}
+
+/**
+ * Deals any level. Progress is kept: replaying an earlier level leaves
+ * `furthestLevel` where it was. Which levels are open is decided by the host
+ * from the unlock rules in `lib/unlocks.ts`.
+ */
+function selectLevel(state: GameState, level: number, ctx: EngineContext): StepResult {
+  if (!Number.isInteger(level) || level < 1 || level > ctx.levels.length) return unchanged(state);
+  return startLevel(state, level, 0, ctx);
+}
+
+/**
+ * Switches difficulty. A level in progress is dealt again from the start in
+ * the new mode; otherwise the mode applies from the next deal.
+ */
+function setDifficulty(state: GameState, difficulty: Difficulty, ctx: EngineContext): StepResult {
+  if (!isDifficulty(difficulty) || difficulty === state.difficulty) return unchanged(state);
+  const next = { ...state, difficulty };
+  if (!state.seed || !["preview", "playing", "quiz"].includes(state.phase)) return unchanged(next);
+  return startLevel(next, state.level, 0, ctx);
+}
+
+export function reduce(state: GameState, action: GameAction, ctx: EngineContext = defaultContext): StepResult {
+  switch (action.type) {
+    case "deal": {
+      const level = action.level ?? state.level;
+      if (!Number.isInteger(level) || level < 1 || level > ctx.levels.length) return unchanged(state);
+      return startLevel({ ...state, seed: action.seed }, level, 0, ctx);
+    }
+    case "endPreview":
+      return endPreview(state);
+    case "flip":
+      return flip(state, action.index);
+    case "resolveMismatch":
+      return resolveMismatch(state);
+    case "useHint":
+      return applyHint(state, action.hint ?? "pair", action.payWith ?? "hints");
+    case "endHint":
+      return endHint(state);
+    case "answerQuiz":
+      return answerQuiz(state, action.option, ctx);
+    case "closeResults":
+      if (state.phase !== "results") return unchanged(state);
+      return { state: { ...state, phase: "transaction" }, events: [] };
+    case "payFee":
+      if (state.phase !== "transaction" || state.feePaid) return unchanged(state);
+      return {
+        state: { ...state, feePaid: true, score: state.score + FEE_BONUS },
+        events: [{ type: "feePaid", points: FEE_BONUS }],
+      };
+    case "advance":
+      return advance(state, ctx);
+    case "checkIn":
+      return {
+        state: { ...state, score: state.score + CHECK_IN_POINTS, hints: state.hints + CHECK_IN_HINTS },
+        events: [{ type: "checkedIn", points: CHECK_IN_POINTS, hints: CHECK_IN_HINTS }],
+      };
+    case "purchaseHints":
+      if (!Number.isInteger(action.amount) || action.amount <= 0) return unchanged(state);
+      return {
+        state: { ...state, hints: state.hints + action.amount },
+        events: [{ type: "hintsPurchased", amount: action.amount }],
+      };
+    case "selectLevel":
+      return selectLevel(state, action.level, ctx);
+    case "setDifficulty":
+      return setDifficulty(state, action.difficulty, ctx);
+    case "resume":
+      return resumeBoard(state, action.board, ctx);
+    case "restore": {
+      // Progress synced from another device replaces this run and deals its level afresh.
+      const { score, hints, quizzesSolved } = action.progress;
+      const level = Math.min(Math.max(1, action.progress.level), ctx.levels.length);
+      return startLevel({ ...state, score, hints, quizzesSolved, furthestLevel: level }, level, 0, ctx);
+    }
+  }
+}
+
+/** Applies actions in order, collecting every emitted event. */
+export function replay(state: GameState, actions: GameAction[], ctx: EngineContext = defaultContext): StepResult {
+  const events: GameEvent[] = [];
+  for (const action of actions) {
+    const step = reduce(state, action, ctx);
+    state = step.state;
+    events.push(...step.events);
+  }
+  return { state, events };
+}
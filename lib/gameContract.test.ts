@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { decodeFunctionData, parseEventLogs, type Address } from "viem";
+import { compileContract, localChain } from "@/test/chain";
+import { playRun } from "@/test/runs";
+import { createGameState, reduce, replay } from "./engine";
+import { encodeCompleteLevel, gameContractAbi, hashLevelScore, levelFeeWei } from "./gameContract";
+import { scoreRun } from "./scores";
+
+describe("completeLevel", () => {
+  const { client, close } = localChain();
+  let contract: Address;
+  let player: Address;
+
+  beforeAll(async () => {
+    [player] = await client.getAddresses();
+    const { abi, bytecode } = compileContract("GameContract");
+    const hash = await client.deployContract({ abi, bytecode, args: [levelFeeWei], account: player, chain: client.chain });
+    contract = (await client.waitForTransactionReceipt({ hash })).contractAddress!;
+  }, 60_000);
+
+  afterAll(close);
+
+  it("encodes the level and score hash", () => {
+    const scoreHash = hashLevelScore({ player: "0x0000000000000000000000000000000000000001", level: 3, score: 420, seed: "abc" });
+    const { functionName, args } = decodeFunctionData({ abi: gameContractAbi, data: encodeCompleteLevel(3, scoreHash) });
+    expect(functionName).toBe("completeLevel");
+    expect(args).toEqual([BigInt(3), scoreHash]);
+  });
+
+  it("records a hash that matches the server's replay of the run", async () => {
+    const run = playRun(1);
+    // The client hashes the level's points from its own state...
+    const dealt = reduce(createGameState({ level: 1, hints: run.hints, difficulty: run.difficulty }), { type: "deal", seed: run.seed });
+    const played = replay(dealt.state, run.actions).state;
+    const scoreHash = hashLevelScore({ player, level: 1, score: played.stats.points, seed: run.seed });
+
+    const hash = await client.sendTransaction({
+      account: player,
+      chain: client.chain,
+      to: contract,
+      data: encodeCompleteLevel(1, scoreHash),
+      value: levelFeeWei,
+    });
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    expect(receipt.status).toBe("success");
+
+    // ...and the server can check the event against the score it replays.
+    const [event] = parseEventLogs({ abi: gameContractAbi, eventName: "LevelCompleted", logs: receipt.logs });
+    expect(event.args).toEqual({ player, level: BigInt(1), scoreHash });
+    const { score } = scoreRun(run);
+    expect(event.args.scoreHash).toBe(hashLevelScore({ player, level: 1, score, seed: run.seed }));
+  });
+
+  it("reverts without the level fee", async () => {
+    const hash = await client.sendTransaction({
+      account: player,
+      chain: client.chain,
+      to: contract,
+      data: encodeCompleteLevel(1, hashLevelScore({ player, level: 1, score: 0, seed: "abc" })),
+      gas: BigInt(100_000),
+    });
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    expect(receipt.status).toBe("reverted");
+    expect(receipt.logs).toEqual([]);
+  });
+});
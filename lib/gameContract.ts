@@ -0,0 +1,73 @@
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  isAddress,
+  keccak256,
+  parseAbi,
+  parseEther,
+  type Address,
+  type Hex,
+} from "viem";
+import { base, baseSepolia } from "viem/chains";
+
+/**
+ * Onchain level completion and hint purchases.
+ *
+ * After passing a level's quiz the player can call `completeLevel` on the
+ * game contract, paying the configured fee, to earn the transaction bonus.
+ * Signed-in players can also buy a pack of hints with `buyHints`; the
+ * server checks the purchase before the hints are granted.
+ * Everything deployment specific comes from public env vars:
+ *
+ * - `NEXT_PUBLIC_GAME_CHAIN`: `base` (default, chain 8453) or `base-sepolia`
+ * - `NEXT_PUBLIC_GAME_CONTRACT`: address of the deployed game contract
+ * - `NEXT_PUBLIC_LEVEL_FEE_ETH`: fee sent with each call, in ETH (default 0.0001)
+ * - `NEXT_PUBLIC_HINT_PACK_ETH`: price of a pack of hints bought with `buyHints`, in ETH (default 0.0002)
+ * - `NEXT_PUBLIC_PAYMASTER_URL`: ERC-7677 paymaster service (e.g. CDP Paymaster) that sponsors
+ *   the call's gas for wallets supporting the EIP-5792 `paymasterService` capability
+ */
+
+export const gameChain = process.env.NEXT_PUBLIC_GAME_CHAIN === "base-sepolia" ? baseSepolia : base;
+
+const configuredContract = process.env.NEXT_PUBLIC_GAME_CONTRACT;
+/** Undefined when no valid address is configured; the level completion call is unavailable then. */
+export const gameContractAddress: Address | undefined =
+  configuredContract && isAddress(configuredContract) ? configuredContract : undefined;
+
+export const paymasterUrl = process.env.NEXT_PUBLIC_PAYMASTER_URL || undefined;
+
+export const levelFeeWei = parseEther(process.env.NEXT_PUBLIC_LEVEL_FEE_ETH ?? "0.0001");
+
+export const hintPackWei = parseEther(process.env.NEXT_PUBLIC_HINT_PACK_ETH ?? "0.0002");
+
+export const gameContractAbi = parseAbi([
+  "function completeLevel(uint256 level, bytes32 scoreHash) payable",
+  "function buyHints(uint256 fid) payable",
+  "event LevelCompleted(address indexed player, uint256 indexed level, bytes32 scoreHash)",
+  "event HintsPurchased(address indexed player, uint256 indexed fid, uint256 amount)",
+]);
+
+/**
+ * Commits to a finished level so the onchain record can later be checked
+ * against the replayed run. `score` is the level's points, the score the
+ * server records for the run, not the player's running total.
+ */
+export function hashLevelScore({ player, level, score, seed }: { player: Address; level: number; score: number; seed: string }): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "uint256" }, { type: "uint256" }, { type: "string" }],
+      [player, BigInt(level), BigInt(score), seed],
+    ),
+  );
+}
+
+export function encodeCompleteLevel(level: number, scoreHash: Hex): Hex {
+  return encodeFunctionData({ abi: gameContractAbi, functionName: "completeLevel", args: [BigInt(level), scoreHash] });
+}
+
+/** Buys a pack of hints for `fid`; the contract prices the pack and says how many hints it holds. */
+export function encodeBuyHints(fid: number): Hex {
+  return encodeFunctionData({ abi: gameContractAbi, functionName: "buyHints", args: [BigInt(fid)] });
+}
+
+export const explorerTxUrl = (hash: string) => `${gameChain.blockExplorers.default.url}/tx/${hash}`;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { DAY_MS, FREEZE_EVERY, MAX_FREEZES, computeStreak, utcDay } from "./gm";
+
+const TODAY = 20_000;
+/** `count` days in a row ending `endsAgo` days before today. */
+const run = (count: number, endsAgo = 0) => Array.from({ length: count }, (_, i) => TODAY - endsAgo - i);
+
+describe("utcDay", () => {
+  it("changes at midnight UTC, not after 24 hours", () => {
+    const beforeMidnight = Date.UTC(2026, 9, 18, 23, 59);
+    expect(utcDay(beforeMidnight + 2 * 60_000)).toBe(utcDay(beforeMidnight) + 1);
+    expect(utcDay(Date.UTC(2026, 9, 18, 0, 1) + DAY_MS - 3 * 60_000)).toBe(utcDay(Date.UTC(2026, 9, 18)));
+  });
+});
+
+describe("computeStreak", () => {
+  it("counts consecutive days", () => {
+    expect(computeStreak(run(3), TODAY)).toMatchObject({ streak: 3, best: 3, checkedInToday: true, lastDay: TODAY });
+  });
+
+  it("keeps a streak through today until it has been missed", () => {
+    expect(computeStreak(run(3, 1), TODAY)).toMatchObject({ streak: 3, checkedInToday: false });
+  });
+
+  it("starts over after a missed day without a freeze", () => {
+    expect(computeStreak(run(3, 2), TODAY)).toMatchObject({ streak: 0, best: 3 });
+    expect(computeStreak([...run(1), ...run(3, 2)], TODAY)).toMatchObject({ streak: 1, best: 3 });
+  });
+
+  it("earns a freeze every week, up to the limit", () => {
+    expect(computeStreak(run(FREEZE_EVERY), TODAY).freezes).toBe(1);
+    expect(computeStreak(run(FREEZE_EVERY * 5), TODAY).freezes).toBe(MAX_FREEZES);
+  });
+
+  it("uses a freeze for one missed day and resets on a second", () => {
+    const week = run(FREEZE_EVERY, 2);
+    // The day before yesterday ended a week; yesterday was missed.
+    expect(computeStreak(week, TODAY)).toMatchObject({ streak: FREEZE_EVERY, freezes: 0 });
+    expect(computeStreak([...week, TODAY], TODAY)).toMatchObject({ streak: FREEZE_EVERY + 1, freezes: 0 });
+    // Missing another day with no freeze left ends it.
+    expect(computeStreak([...week, TODAY], TODAY + 2)).toMatchObject({ streak: 0, best: FREEZE_EVERY + 1 });
+  });
+
+  it("ignores duplicate and future days", () => {
+    expect(computeStreak([TODAY, TODAY, TODAY + 1], TODAY)).toMatchObject({ streak: 1, lastDay: TODAY });
+  });
+});
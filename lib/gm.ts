@@ -0,0 +1,101 @@
+import { isAddress, parseAbi, type Address } from "viem";
+import { minikitConfig } from "@/minikit.config";
+import { gameChain } from "./gameContract";
+
+/**
+ * The daily GM check-in: typed data, the optional onchain call and the
+ * streak rules. Shared by the game and `lib/checkIns.ts`, so it must stay
+ * free of browser and server-only imports.
+ *
+ * A check-in is proven either by an EIP-712 signature over the player's FID
+ * and the UTC day, or by a `gm(fid)` call on the GM contract mined that day.
+ * The server records verified check-ins and works the streak out from them
+ * in UTC days; the device's clock plays no part.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every this many days in a row earns a streak freeze. */
+export const FREEZE_EVERY = 7;
+/** Most freezes a player can bank. */
+export const MAX_FREEZES = 2;
+
+/** Days since the Unix epoch in UTC. */
+export const utcDay = (now: number) => Math.floor(now / DAY_MS);
+
+/** A UTC day as `YYYY-MM-DD`. */
+export const formatUtcDay = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+export const gmTypedData = {
+  domain: { name: minikitConfig.miniapp.name, version: "1", chainId: gameChain.id },
+  types: {
+    GM: [
+      { name: "fid", type: "uint256" },
+      { name: "day", type: "uint256" },
+    ],
+  },
+  primaryType: "GM",
+} as const;
+
+/** The message a player signs to check in on `day`. */
+export const gmMessage = (fid: number, day: number) => ({ fid: BigInt(fid), day: BigInt(day) });
+
+const configuredContract = process.env.NEXT_PUBLIC_GM_CONTRACT;
+/** Set `NEXT_PUBLIC_GM_CONTRACT` to offer checking in with a `gm(fid)` transaction as well as a signature. */
+export const gmContractAddress: Address | undefined =
+  configuredContract && isAddress(configuredContract) ? configuredContract : undefined;
+
+export const gmContractAbi = parseAbi([
+  "function gm(uint256 fid)",
+  "event GM(address indexed player, uint256 indexed fid)",
+]);
+
+export interface Streak {
+  /** Days in a row, counting frozen days as kept but not as earned; 0 once it has lapsed. */
+  streak: number;
+  best: number;
+  /** Freezes banked; each covers one missed day. */
+  freezes: number;
+  /** UTC day of the last check-in, or null before the first. */
+  lastDay: number | null;
+  checkedInToday: boolean;
+}
+
+/**
+ * Works a streak out from the UTC days a player checked in on, as it stands
+ * on `today`. A gap of missed days is covered if enough freezes are banked,
+ * and the streak carries on; otherwise it starts again. Today is never
+ * counted as missed, since it can still be checked in.
+ */
+export function computeStreak(days: number[], today: number): Streak {
+  const sorted = [...new Set(days)].filter((day) => day <= today).sort((a, b) => a - b);
+  let streak = 0;
+  let best = 0;
+  let freezes = 0;
+  let lastDay: number | null = null;
+
+  for (const day of sorted) {
+    const missed = lastDay === null ? 0 : day - lastDay - 1;
+    if (lastDay !== null && missed <= freezes) {
+      freezes -= missed;
+      streak += 1;
+    } else {
+      streak = 1;
+      freezes = 0;
+    }
+    if (streak % FREEZE_EVERY === 0) freezes = Math.min(MAX_FREEZES, freezes + 1);
+    best = Math.max(best, streak);
+    lastDay = day;
+  }
+
+  if (lastDay !== null) {
+    const missed = today - lastDay - 1;
+    if (missed > freezes) {
+      streak = 0;
+      freezes = 0;
+    } else if (missed > 0) {
+      freezes -= missed;
+    }
+  }
+  return { streak, best, freezes, lastDay, checkedInToday: lastDay === today };
+}
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HintPurchaseError, redeemHintPurchase } from "./hintPurchases";
+
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_GAME_CONTRACT = "0x00000000000000000000000000000000000000bb";
+});
+
+const HASH = `0x${"cd".repeat(32)}` as const;
+
+/** A JSON-RPC node answering every call with `result`, or a network that is down when `result` is an Error. */
+function rpc(result: unknown) {
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    if (result instanceof Error) throw result;
+    const { id } = JSON.parse(String(init.body));
+    return Response.json({ jsonrpc: "2.0", id, result });
+  });
+}
+
+// The failed lookups are logged; keep them out of the test output.
+beforeEach(() => vi.spyOn(console, "error").mockImplementation(() => {}));
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("redeemHintPurchase", () => {
+  it("reports a chain it can't reach as unavailable, not as an unmined transaction", async () => {
+    rpc(new TypeError("fetch failed"));
+    const attempt = redeemHintPurchase(1, HASH);
+    await expect(attempt).rejects.toThrow(HintPurchaseError);
+    await expect(attempt).rejects.toMatchObject({ status: 503 });
+  });
+
+  it("asks the player to wait for a transaction that isn't mined yet", async () => {
+    rpc(null);
+    await expect(redeemHintPurchase(1, HASH)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,86 @@
+import { TransactionReceiptNotFoundError, createPublicClient, decodeEventLog, http, type Address, type Hex } from "viem";
+import { gameChain, gameContractAbi, gameContractAddress } from "./gameContract";
+import { getStorage } from "./storage";
+
+/**
+ * Hints bought onchain.
+ *
+ * The player calls `buyHints(fid)` on the game contract, which takes the
+ * payment and emits `HintsPurchased`. Hints are only granted once that event
+ * is found in a successful transaction for the player's FID, and each
+ * transaction is redeemed once.
+ */
+
+export interface HintPurchase {
+  hash: Hex;
+  fid: number;
+  address: Address;
+  amount: number;
+  redeemedAt: number;
+}
+
+export class HintPurchaseError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 422,
+  ) {
+    super(message);
+    this.name = "HintPurchaseError";
+  }
+}
+
+/** More than any pack the contract sells; anything above it is a misconfigured contract. */
+const MAX_PACK = 100;
+
+export function parseHintPurchase(raw: unknown): Hex {
+  const hash = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>).hash : undefined;
+  if (typeof hash !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(hash)) throw new HintPurchaseError("hash: must be a transaction hash", 400);
+  return hash.toLowerCase() as Hex;
+}
+
+const purchases = () => getStorage().collection<HintPurchase>("hint-purchases");
+const inFlight = new Set<Hex>();
+
+const client = createPublicClient({ chain: gameChain, transport: http() });
+
+async function verifyPurchase(fid: number, hash: Hex): Promise<{ address: Address; amount: number }> {
+  if (!gameContractAddress) throw new HintPurchaseError("hint purchases are not enabled", 400);
+  const receipt = await client.getTransactionReceipt({ hash }).catch((error) => {
+    if (error instanceof TransactionReceiptNotFoundError) return null;
+    // The chain being unreachable says nothing about the purchase, so the player can try again.
+    console.error("Hint purchase receipt lookup failed:", error);
+    throw new HintPurchaseError("could not reach the chain to check this; try again", 503);
+  });
+  if (!receipt) throw new HintPurchaseError("transaction not found; wait for it to be mined", 404);
+  if (receipt.status !== "success") throw new HintPurchaseError("transaction reverted");
+  const purchase = receipt.logs
+    .filter((log) => log.address.toLowerCase() === gameContractAddress!.toLowerCase())
+    .map((log) => {
+      try {
+        return decodeEventLog({ abi: gameContractAbi, ...log });
+      } catch {
+        return null;
+      }
+    })
+    .find((event) => event?.eventName === "HintsPurchased" && event.args.fid === BigInt(fid));
+  if (!purchase || purchase.eventName !== "HintsPurchased") throw new HintPurchaseError("transaction is not a hint purchase for this player");
+  const amount = Number(purchase.args.amount);
+  if (!Number.isInteger(amount) || amount < 1 || amount > MAX_PACK) throw new HintPurchaseError(`purchase is for ${purchase.args.amount} hints`);
+  return { address: purchase.args.player, amount };
+}
+
+/** Verifies a `buyHints` transaction and records it, returning the purchase whose hints the game may grant. */
+export async function redeemHintPurchase(fid: number, hash: Hex, now = Date.now()): Promise<HintPurchase> {
+  // A second request racing the first would grant the same hints twice.
+  if (inFlight.has(hash)) throw new HintPurchaseError("purchase already redeemed", 409);
+  inFlight.add(hash);
+  try {
+    if (await purchases().get(hash)) throw new HintPurchaseError("purchase already redeemed", 409);
+    const { address, amount } = await verifyPurchase(fid, hash);
+    const purchase: HintPurchase = { hash, fid, address, amount, redeemedAt: now };
+    await purchases().put(hash, purchase);
+    return purchase;
+  } finally {
+    inFlight.delete(hash);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Hint types and what they cost. Every hint can be paid for with hints or
+ * with score points; point prices scale with the level, like the points a
+ * level pays out. The engine applies them in `useHint`.
+ */
+
+export type HintType = "card" | "pair" | "peek" | "autoMatch";
+
+export type HintPayment = "hints" | "points";
+
+/** A hint's name and description are in the locale files, under `hint.<type>`. */
+export interface HintKind {
+  /** Price in hints, taken from the level's free hints first. */
+  hints: number;
+  /** Price in score points on level 1; multiplied by the level. */
+  pointsPerLevel: number;
+  /** How long revealed cards stay face up; 0 for hints that reveal nothing. */
+  durationMs: number;
+}
+
+export const HINT_TYPES: Record<HintType, HintKind> = {
+  card: {
+    hints: 1,
+    pointsPerLevel: 20,
+    durationMs: 1200,
+  },
+  pair: {
+    hints: 2,
+    pointsPerLevel: 50,
+    durationMs: 1200,
+  },
+  peek: {
+    hints: 3,
+    pointsPerLevel: 80,
+    durationMs: 600,
+  },
+  autoMatch: {
+    hints: 4,
+    pointsPerLevel: 120,
+    durationMs: 0,
+  },
+};
+
+export const HINT_TYPE_IDS = Object.keys(HINT_TYPES) as HintType[];
+
+export const isHintType = (v: unknown): v is HintType => typeof v === "string" && Object.hasOwn(HINT_TYPES, v);
+
+export const isHintPayment = (v: unknown): v is HintPayment => v === "hints" || v === "points";
+
+/** The price of `hint` on `level`, in the currency it is paid with. */
+export const hintPrice = (hint: HintType, payWith: HintPayment, level: number) =>
+  payWith === "hints" ? HINT_TYPES[hint].hints : HINT_TYPES[hint].pointsPerLevel * level;
@@ -0,0 +1,79 @@
+import en from "@/content/locales/en.json";
+import es from "@/content/locales/es.json";
+import ar from "@/content/locales/ar.json";
+
+/**
+ * Interface strings.
+ *
+ * Every string the game shows lives in a locale file under `content/locales`,
+ * keyed by a dotted name. English is the source: the other locales fall back
+ * to it key by key, and `npm run i18n:report` lists what they are missing.
+ * A message is a string or, for text that depends on a count, one string per
+ * plural category of the locale (`one`, `few`, `other`, ...), picked by the
+ * `count` param. `{name}` placeholders are filled from the params. Shared by
+ * the game and the server, so it must stay free of browser-only imports.
+ */
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>>;
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES = ["en", "es", "ar"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each language's name for itself, as the language picker lists it. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  ar: "العربية",
+};
+
+const CATALOGUES: Record<Locale, Partial<Record<MessageKey, Message>>> = { en, es, ar };
+
+const RTL_LOCALES: ReadonlySet<Locale> = new Set(["ar"]);
+
+export const isLocale = (v: unknown): v is Locale => typeof v === "string" && (LOCALES as readonly string[]).includes(v);
+
+export const localeDirection = (locale: Locale): "ltr" | "rtl" => (RTL_LOCALES.has(locale) ? "rtl" : "ltr");
+
+/**
+ * The first supported locale among `candidates`, most preferred first, or
+ * the default. Tags match on their language, so `es-MX` picks `es`.
+ */
+export function matchLocale(candidates: readonly (string | null | undefined)[]): Locale {
+  for (const tag of candidates) {
+    const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export interface Translator {
+  locale: Locale;
+  dir: "ltr" | "rtl";
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (n: number) => string;
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+  const formatNumber = (n: number) => numbers.format(n);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message: Message = CATALOGUES[locale][key] ?? en[key];
+    const text =
+      typeof message === "string"
+        ? message
+        : (message[plurals.select(Number(params.count ?? 0))] ?? message.other ?? "");
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+  };
+
+  return { locale, dir: localeDirection(locale), t, formatNumber };
+}
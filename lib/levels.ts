@@ -0,0 +1,331 @@
+import baseCore from "@/content/levels/base-core.json";
+import baseCoreEs from "@/content/levels/base-core.es.json";
+
+/**
+ * Level content packs.
+ *
+ * Levels live in JSON packs under `content/levels`. Every pack is validated
+ * when this module is first evaluated, which happens while `next build`
+ * prerenders the game, so a broken pack fails the build with a list of
+ * readable errors instead of shipping a board that cannot be finished.
+ *
+ * A pack can be translated by a sibling file, `<pack>.<locale>.json`; see
+ * `LevelPackTranslation`.
+ */
+
+export type Pair = {
+  term: string;
+  definition: string;
+  /** A concrete instance of the term; pairs with one can be dealt as triples on harder difficulties. */
+  example?: string;
+};
+
+/**
+ * An authored quiz question. Every level also gets match-the-term questions
+ * generated from its pairs; see `lib/quiz.ts`.
+ */
+export type Question =
+  | { type: "choice"; prompt: string; options: string[]; answer: number; explanation: string }
+  | { type: "truefalse"; prompt: string; answer: boolean; explanation: string };
+
+/** Par for a level: finishing within both earns three stars. */
+export interface LevelPar {
+  /** Turns, i.e. pairs of cards flipped. */
+  moves: number;
+  seconds: number;
+}
+
+/**
+ * What it takes to open a level from the level select, beyond having reached
+ * it before. Every condition given must hold; a level without a rule only
+ * needs the previous level cleared.
+ */
+export interface UnlockRule {
+  /** The previous level must have been cleared (default true). */
+  clearPrevious?: boolean;
+  /** Stars needed across all levels. */
+  stars?: number;
+}
+
+export interface LevelData {
+  theme: string;
+  lesson: string;
+  pairs: Pair[];
+  par: LevelPar;
+  unlock?: UnlockRule;
+  questions: Question[];
+}
+
+export interface LevelPack {
+  id: string;
+  title: string;
+  version: number;
+  levels: LevelData[];
+}
+
+/** Smallest board worth playing. */
+export const MIN_PAIRS = 2;
+/** Largest board the grid layout in BaseMemoryGame can lay out. */
+export const MAX_PAIRS = 6;
+
+export class LevelPackError extends Error {
+  constructor(
+    public readonly packId: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid level pack "${packId}":\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "LevelPackError";
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
+
+function validateLevel(raw: unknown, where: string, issues: string[]) {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: must be an object`);
+    return;
+  }
+
+  if (!isNonEmptyString(raw.theme)) issues.push(`${where}.theme: must be a non-empty string`);
+  if (!isNonEmptyString(raw.lesson)) issues.push(`${where}.lesson: must be a non-empty string`);
+
+  if (!Array.isArray(raw.pairs)) {
+    issues.push(`${where}.pairs: must be an array`);
+  } else {
+    if (raw.pairs.length < MIN_PAIRS || raw.pairs.length > MAX_PAIRS) {
+      issues.push(`${where}.pairs: has ${raw.pairs.length} pairs, the grid fits ${MIN_PAIRS}-${MAX_PAIRS}`);
+    }
+    // Terms, definitions and examples share the board, so any repeated text makes two cards indistinguishable.
+    const seen = new Map<string, string>();
+    raw.pairs.forEach((pair, idx) => {
+      const at = `${where}.pairs[${idx}]`;
+      if (!isRecord(pair)) {
+        issues.push(`${at}: must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(pair.term)) issues.push(`${at}.term: must be a non-empty string`);
+      if (!isNonEmptyString(pair.definition)) issues.push(`${at}.definition: must be a non-empty string`);
+      if (pair.example !== undefined && !isNonEmptyString(pair.example)) issues.push(`${at}.example: must be a non-empty string`);
+      for (const key of ["term", "definition", "example"] as const) {
+        const text = pair[key];
+        if (!isNonEmptyString(text)) continue;
+        const normalized = text.trim().toLowerCase();
+        const previous = seen.get(normalized);
+        if (previous) issues.push(`${at}.${key}: "${text}" duplicates ${previous}`);
+        else seen.set(normalized, `${at}.${key}`);
+      }
+    });
+  }
+
+  const par = raw.par;
+  if (!isRecord(par)) {
+    issues.push(`${where}.par: must be an object`);
+  } else {
+    for (const key of ["moves", "seconds"] as const) {
+      if (!Number.isInteger(par[key]) || (par[key] as number) < 1) issues.push(`${where}.par.${key}: must be a positive integer`);
+    }
+    const pairs = Array.isArray(raw.pairs) ? raw.pairs.length : 0;
+    if (Number.isInteger(par.moves) && (par.moves as number) < pairs) {
+      issues.push(`${where}.par.moves: ${String(par.moves)} is fewer than the ${pairs} moves a perfect board takes`);
+    }
+  }
+
+  if (raw.unlock !== undefined) {
+    const unlock = raw.unlock;
+    if (!isRecord(unlock)) {
+      issues.push(`${where}.unlock: must be an object`);
+    } else {
+      if (unlock.clearPrevious !== undefined && typeof unlock.clearPrevious !== "boolean") {
+        issues.push(`${where}.unlock.clearPrevious: must be a boolean`);
+      }
+      if (unlock.stars !== undefined && (!Number.isInteger(unlock.stars) || (unlock.stars as number) < 0)) {
+        issues.push(`${where}.unlock.stars: must be a non-negative integer`);
+      }
+    }
+  }
+
+  if (!Array.isArray(raw.questions) || raw.questions.length === 0) {
+    issues.push(`${where}.questions: must be a non-empty array`);
+  } else {
+    raw.questions.forEach((question, idx) => validateQuestion(question, `${where}.questions[${idx}]`, issues));
+  }
+}
+
+function validateQuestion(raw: unknown, where: string, issues: string[]) {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(raw.prompt)) issues.push(`${where}.prompt: must be a non-empty string`);
+  if (!isNonEmptyString(raw.explanation)) issues.push(`${where}.explanation: must be a non-empty string`);
+
+  if (raw.type === "truefalse") {
+    if (typeof raw.answer !== "boolean") issues.push(`${where}.answer: must be true or false`);
+  } else if (raw.type === "choice") {
+    if (!Array.isArray(raw.options) || raw.options.length < 2) {
+      issues.push(`${where}.options: must list at least 2 options`);
+      return;
+    }
+    raw.options.forEach((option, idx) => {
+      if (!isNonEmptyString(option)) issues.push(`${where}.options[${idx}]: must be a non-empty string`);
+    });
+    if (!Number.isInteger(raw.answer) || (raw.answer as number) < 0 || (raw.answer as number) >= raw.options.length) {
+      issues.push(`${where}.answer: ${String(raw.answer)} is not an index into ${raw.options.length} options`);
+    }
+  } else {
+    issues.push(`${where}.type: must be "choice" or "truefalse"`);
+  }
+}
+
+/** Checks an untrusted pack against the schema, throwing a LevelPackError listing every problem found. */
+export function validateLevelPack(raw: unknown): LevelPack {
+  const packId = isRecord(raw) && isNonEmptyString(raw.id) ? raw.id : "<unknown>";
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new LevelPackError(packId, ["pack must be an object"]);
+  }
+  if (!isNonEmptyString(raw.id)) issues.push("id: must be a non-empty string");
+  if (!isNonEmptyString(raw.title)) issues.push("title: must be a non-empty string");
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) issues.push("version: must be a positive integer");
+
+  if (!Array.isArray(raw.levels) || raw.levels.length === 0) {
+    issues.push("levels: must be a non-empty array");
+  } else {
+    raw.levels.forEach((level, idx) => validateLevel(level, `levels[${idx}] (level ${idx + 1})`, issues));
+  }
+
+  if (issues.length > 0) throw new LevelPackError(packId, issues);
+  return raw as unknown as LevelPack;
+}
+
+/**
+ * A pack's text in another language. It mirrors the pack level by level but
+ * only carries text, and anything it leaves out, from one option to whole
+ * levels, stays in the pack's language. Answers, par and unlock rules always
+ * come from the pack, so a deal and its quiz are the same in every language
+ * and a run recorded in one replays in any other.
+ */
+export interface LevelPackTranslation {
+  pack: string;
+  locale: string;
+  title?: string;
+  levels: {
+    theme?: string;
+    lesson?: string;
+    pairs?: Partial<Pair>[];
+    questions?: { prompt?: string; options?: string[]; explanation?: string }[];
+  }[];
+}
+
+// One entry of a translation; an entry left out translates nothing.
+function entry(raw: unknown, where: string, issues: string[]): Record<string, unknown> {
+  if (raw === undefined) return {};
+  if (isRecord(raw)) return raw;
+  issues.push(`${where}: must be an object`);
+  return {};
+}
+
+// A translated list lines up with the pack's entry for entry, so it must be exactly as long.
+function mirrored(list: unknown, base: unknown[], where: string, issues: string[]): unknown[] {
+  if (list === undefined) return [];
+  if (Array.isArray(list) && list.length === base.length) return list;
+  issues.push(`${where}: must list all ${base.length} entries of the pack, in order`);
+  return [];
+}
+
+// Text from the translation where it has some, the pack's otherwise.
+function translated(text: unknown, fallback: string, where: string, issues: string[]): string {
+  if (text === undefined) return fallback;
+  if (isNonEmptyString(text)) return text;
+  issues.push(`${where}: must be a non-empty string`);
+  return fallback;
+}
+
+function translateLevel(level: LevelData, raw: unknown, where: string, issues: string[]): LevelData {
+  const t = entry(raw, where, issues);
+  const pairs = mirrored(t.pairs, level.pairs, `${where}.pairs`, issues);
+  const questions = mirrored(t.questions, level.questions, `${where}.questions`, issues);
+  return {
+    ...level,
+    theme: translated(t.theme, level.theme, `${where}.theme`, issues),
+    lesson: translated(t.lesson, level.lesson, `${where}.lesson`, issues),
+    pairs: level.pairs.map((pair, idx) => {
+      const at = `${where}.pairs[${idx}]`;
+      const p = entry(pairs[idx], at, issues);
+      if (p.example !== undefined && pair.example === undefined) issues.push(`${at}.example: the pack's pair has no example`);
+      return {
+        ...pair,
+        term: translated(p.term, pair.term, `${at}.term`, issues),
+        definition: translated(p.definition, pair.definition, `${at}.definition`, issues),
+        ...(pair.example !== undefined && { example: translated(p.example, pair.example, `${at}.example`, issues) }),
+      };
+    }),
+    questions: level.questions.map((question, idx) => {
+      const at = `${where}.questions[${idx}]`;
+      const q = entry(questions[idx], at, issues);
+      const prompt = translated(q.prompt, question.prompt, `${at}.prompt`, issues);
+      const explanation = translated(q.explanation, question.explanation, `${at}.explanation`, issues);
+      if (question.type === "truefalse") {
+        if (q.options !== undefined) issues.push(`${at}.options: the pack's question is true or false`);
+        return { ...question, prompt, explanation };
+      }
+      const options = mirrored(q.options, question.options, `${at}.options`, issues);
+      return {
+        ...question,
+        prompt,
+        explanation,
+        options: question.options.map((option, i) => translated(options[i], option, `${at}.options[${i}]`, issues)),
+      };
+    }),
+  };
+}
+
+/** Applies a translation to its pack, throwing a LevelPackError listing every problem found. */
+export function translateLevelPack(pack: LevelPack, raw: unknown): LevelPack {
+  const locale = isRecord(raw) && isNonEmptyString(raw.locale) ? raw.locale : "<unknown>";
+  const packId = `${pack.id}.${locale}`;
+  if (!isRecord(raw)) throw new LevelPackError(packId, ["translation must be an object"]);
+
+  const issues: string[] = [];
+  if (raw.pack !== pack.id) issues.push(`pack: must be "${pack.id}"`);
+  if (!isNonEmptyString(raw.locale)) issues.push("locale: must be a non-empty string");
+  if (!Array.isArray(raw.levels) || raw.levels.length > pack.levels.length) {
+    issues.push(`levels: must be an array of at most the pack's ${pack.levels.length} levels`);
+  }
+  const levels = Array.isArray(raw.levels) ? raw.levels : [];
+  const result: LevelPack = {
+    ...pack,
+    title: translated(raw.title, pack.title, "title", issues),
+    levels: pack.levels.map((level, idx) =>
+      idx < levels.length ? translateLevel(level, levels[idx], `levels[${idx}] (level ${idx + 1})`, issues) : level,
+    ),
+  };
+  if (issues.length > 0) throw new LevelPackError(packId, issues);
+
+  // Translated cards can collide where the originals didn't, so the result goes through the same checks.
+  try {
+    return validateLevelPack(result);
+  } catch (error) {
+    if (error instanceof LevelPackError) throw new LevelPackError(packId, error.issues);
+    throw error;
+  }
+}
+
+export const LEVEL_PACK: LevelPack = validateLevelPack(baseCore);
+
+/** The pack in each language it has been translated to, keyed by locale. */
+const TRANSLATED_PACKS: Record<string, LevelPack> = Object.fromEntries(
+  [baseCoreEs].map((raw) => [raw.locale, translateLevelPack(LEVEL_PACK, raw)]),
+);
+
+/** The pack's levels in `locale`, or as written when there is no translation for it. */
+export const localizedLevels = (locale: string): LevelData[] => (TRANSLATED_PACKS[locale] ?? LEVEL_PACK).levels;
+
+/** Levels keyed by their 1-based level number. */
+export const LEVEL_DATA: Record<number, LevelData> = Object.fromEntries(
+  LEVEL_PACK.levels.map((level, idx) => [idx + 1, level]),
+);
+
+export const TOTAL_LEVELS = LEVEL_PACK.levels.length;
@@ -0,0 +1,219 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { isAddress, verifyMessage, type Hex } from "viem";
+import type { MinikitConfig } from "@/minikit.config";
+
+/**
+ * Checks for the mini app manifest served at `/.well-known/farcaster.json`.
+ *
+ * The route is prerendered, so the checks run during `next build`: in a
+ * production build any problem fails the build with a list of every issue
+ * found, the way an invalid level pack does. Limits follow the Farcaster
+ * manifest schema; image sizes follow the sizes the Base app lists.
+ *
+ * @see {@link https://miniapps.farcaster.xyz/docs/specification#manifest}
+ */
+
+export class ManifestError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid mini app manifest:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ManifestError";
+  }
+}
+
+export const PRIMARY_CATEGORIES = [
+  "games",
+  "social",
+  "finance",
+  "utility",
+  "productivity",
+  "health-fitness",
+  "news-media",
+  "music",
+  "shopping",
+  "education",
+  "developer-tools",
+  "entertainment",
+  "art-creativity",
+];
+
+const TEXT_LIMITS = {
+  name: 32,
+  subtitle: 30,
+  description: 170,
+  tagline: 30,
+  ogTitle: 30,
+  ogDescription: 100,
+} as const;
+
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 20;
+const MAX_SCREENSHOTS = 3;
+
+/** Width by height each image must be; images hosted elsewhere are only checked for loading. */
+const IMAGE_SIZES = {
+  iconUrl: [1024, 1024],
+  splashImageUrl: [200, 200],
+  heroImageUrl: [1200, 630],
+  ogImageUrl: [1200, 630],
+  screenshotUrls: [1284, 2778],
+} as const;
+
+const REMOTE_TIMEOUT_MS = 5000;
+
+/** A JSON Farcaster Signature header: who signed the account association. */
+interface SignatureHeader {
+  fid: number;
+  type: "custody" | "auth" | "app_key";
+  key: string;
+}
+
+const decodeJson = (encoded: string): unknown => JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function checkText(miniapp: MinikitConfig["miniapp"], issues: string[]) {
+  for (const [key, max] of Object.entries(TEXT_LIMITS) as [keyof typeof TEXT_LIMITS, number][]) {
+    const text = miniapp[key];
+    if (!text.trim()) issues.push(`miniapp.${key}: must not be empty`);
+    else if (text.length > max) issues.push(`miniapp.${key}: has ${text.length} characters, at most ${max} are allowed`);
+  }
+  if (!PRIMARY_CATEGORIES.includes(miniapp.primaryCategory)) {
+    issues.push(`miniapp.primaryCategory: "${miniapp.primaryCategory}" is not one of ${PRIMARY_CATEGORIES.join(", ")}`);
+  }
+  if (miniapp.tags.length === 0 || miniapp.tags.length > MAX_TAGS) {
+    issues.push(`miniapp.tags: has ${miniapp.tags.length} tags, 1-${MAX_TAGS} are allowed`);
+  }
+  miniapp.tags.forEach((tag, idx) => {
+    if (!/^[a-z0-9-]+$/.test(tag) || tag.length > MAX_TAG_LENGTH) {
+      issues.push(`miniapp.tags[${idx}]: "${tag}" must be lowercase letters, digits or dashes, at most ${MAX_TAG_LENGTH} long`);
+    }
+  });
+  if (miniapp.screenshotUrls.length > MAX_SCREENSHOTS) {
+    issues.push(`miniapp.screenshotUrls: has ${miniapp.screenshotUrls.length} screenshots, at most ${MAX_SCREENSHOTS} are allowed`);
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(miniapp.splashBackgroundColor)) {
+    issues.push(`miniapp.splashBackgroundColor: "${miniapp.splashBackgroundColor}" must be a #rrggbb color`);
+  }
+}
+
+function checkUrls(miniapp: MinikitConfig["miniapp"], issues: string[]) {
+  const urls: [string, string][] = [
+    ["homeUrl", miniapp.homeUrl],
+    ["webhookUrl", miniapp.webhookUrl],
+    ...Object.keys(IMAGE_SIZES).flatMap((key): [string, string][] => {
+      const value = miniapp[key as keyof typeof IMAGE_SIZES];
+      return Array.isArray(value) ? value.map((url, idx): [string, string] => [`${key}[${idx}]`, url]) : [[key, value]];
+    }),
+  ];
+  for (const [key, url] of urls) {
+    if (!url.startsWith("https://")) issues.push(`miniapp.${key}: "${url}" must be an https URL (set NEXT_PUBLIC_URL)`);
+    else if (url.length > 1024) issues.push(`miniapp.${key}: must be at most 1024 characters`);
+  }
+}
+
+/** Checks the signed account association: it must decode, name this app's domain and be signed by the key in its header. */
+async function checkAccountAssociation({ header, payload, signature }: MinikitConfig["accountAssociation"], homeUrl: string, issues: string[]) {
+  if (!header || !payload || !signature) {
+    issues.push("accountAssociation: header, payload and signature are required (run `npm run sign-manifest`)");
+    return;
+  }
+
+  let decodedHeader: SignatureHeader;
+  try {
+    const raw = decodeJson(header);
+    if (!isRecord(raw) || !Number.isInteger(raw.fid) || typeof raw.key !== "string" || !["custody", "auth", "app_key"].includes(raw.type as string)) {
+      throw new Error("missing fid, type or key");
+    }
+    decodedHeader = raw as unknown as SignatureHeader;
+  } catch (error) {
+    issues.push(`accountAssociation.header: not a valid signature header (${(error as Error).message})`);
+    return;
+  }
+
+  try {
+    const raw = decodeJson(payload);
+    const domain = new URL(homeUrl).hostname;
+    if (!isRecord(raw) || typeof raw.domain !== "string") throw new Error("missing domain");
+    if (raw.domain !== domain) issues.push(`accountAssociation.payload: signed for "${raw.domain}", but the app is served from "${domain}"`);
+  } catch (error) {
+    issues.push(`accountAssociation.payload: not a valid signature payload (${(error as Error).message})`);
+  }
+
+  const bytes = Buffer.from(signature, "base64url");
+  if (bytes.length !== 65) {
+    issues.push(`accountAssociation.signature: decodes to ${bytes.length} bytes, an ECDSA signature has 65`);
+    return;
+  }
+  // Only custody signatures can be checked offline; the key's link to the FID lives onchain.
+  if (decodedHeader.type === "custody") {
+    const valid =
+      isAddress(decodedHeader.key) &&
+      (await verifyMessage({
+        address: decodedHeader.key,
+        message: `${header}.${payload}`,
+        signature: `0x${bytes.toString("hex")}` as Hex,
+      }).catch(() => false));
+    if (!valid) issues.push(`accountAssociation.signature: not signed by ${decodedHeader.key}`);
+  }
+}
+
+/** Reads the width and height from a PNG's header, or null if the data is not a PNG. */
+function pngSize(data: Buffer): [number, number] | null {
+  const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  if (data.length < 24 || !data.subarray(0, 8).equals(signature)) return null;
+  return [data.readUInt32BE(16), data.readUInt32BE(20)];
+}
+
+/**
+ * Checks that every image can be loaded. Images on the app's own origin are
+ * read from `public/` and their size checked; others are requested.
+ */
+async function checkImages(miniapp: MinikitConfig["miniapp"], publicDir: string, issues: string[]) {
+  const origin = new URL(miniapp.homeUrl).origin;
+  const checks = Object.entries(IMAGE_SIZES).flatMap(([key, [width, height]]) => {
+    const value = miniapp[key as keyof typeof IMAGE_SIZES];
+    const urls = Array.isArray(value) ? value.map((url, idx) => [`${key}[${idx}]`, url]) : [[key, value]];
+    return urls.map(async ([at, url]): Promise<string | null> => {
+      const parsed = new URL(url);
+      if (parsed.origin === origin) {
+        const data = await readFile(join(publicDir, decodeURIComponent(parsed.pathname))).catch(() => null);
+        if (!data) return `miniapp.${at}: ${parsed.pathname} is not in public/`;
+        const size = pngSize(data);
+        if (!size) return `miniapp.${at}: ${parsed.pathname} is not a PNG`;
+        if (size[0] !== width || size[1] !== height) {
+          return `miniapp.${at}: ${parsed.pathname} is ${size[0]}x${size[1]}, it must be ${width}x${height}`;
+        }
+        return null;
+      }
+      try {
+        const res = await fetch(url, { method: "HEAD", signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS) });
+        if (!res.ok) return `miniapp.${at}: ${url} answered ${res.status}`;
+        if (!res.headers.get("content-type")?.startsWith("image/")) return `miniapp.${at}: ${url} is not an image`;
+        return null;
+      } catch (error) {
+        return `miniapp.${at}: ${url} could not be loaded (${(error as Error).message})`;
+      }
+    });
+  });
+  for (const issue of await Promise.all(checks)) if (issue) issues.push(issue);
+}
+
+/** Lists every problem with the manifest; an empty list means it is ready to publish. */
+export async function checkManifest(config: MinikitConfig, { publicDir = join(process.cwd(), "public") } = {}): Promise<string[]> {
+  const issues: string[] = [];
+  checkText(config.miniapp, issues);
+  checkUrls(config.miniapp, issues);
+  if (config.baseBuilder.ownerAddress && !isAddress(config.baseBuilder.ownerAddress)) {
+    issues.push(`baseBuilder.ownerAddress: "${config.baseBuilder.ownerAddress}" is not an address (BASE_BUILDER_ADDRESS)`);
+  }
+  await checkAccountAssociation(config.accountAssociation, config.miniapp.homeUrl, issues);
+  await checkImages(config.miniapp, publicDir, issues);
+  return issues;
+}
+
+/** The manifest to serve, without an unset builder address. */
+export function publishedManifest(config: MinikitConfig) {
+  const { baseBuilder, ...rest } = config;
+  return baseBuilder.ownerAddress ? config : rest;
+}
@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as CREATE } from "@/app/api/match/route";
+import { GET as EVENTS } from "@/app/api/match/[id]/events/route";
+import { POST as MOVE } from "@/app/api/match/[id]/route";
+import { getMatch, type MatchView } from "./match";
+import { replayMatch, type Seat } from "./matchRules";
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+/** A player's client, signed in through DEV_AUTH as the match page does when testing locally. */
+function client(fid: number) {
+  const post = async (path: string, body: unknown, handler: (request: NextRequest) => Promise<Response>) => {
+    const res = await handler(
+      new NextRequest(`http://localhost${path}`, { method: "POST", headers: { "X-Dev-Fid": String(fid) }, body: JSON.stringify(body) }),
+    );
+    return { status: res.status, ...((await res.json()) as { match: MatchView; seat: Seat | null; message?: string }) };
+  };
+  return {
+    create: (options: object) => post("/api/match", options, CREATE),
+    send: (id: string, body: object) => post(`/api/match/${id}`, body, (request) => MOVE(request, params(id))),
+  };
+}
+
+/** Follows a match's server-sent events, collecting every update. */
+async function follow(id: string) {
+  const res = await EVENTS(new NextRequest(`http://localhost/api/match/${id}/events`), params(id));
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const views: MatchView[] = [];
+  const reading = (async () => {
+    let buffer = "";
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      buffer += chunk.value;
+      const messages = buffer.split("\n\n");
+      buffer = messages.pop()!;
+      for (const message of messages) {
+        const data = message.split("\n").find((line) => line.startsWith("data: "));
+        if (data) views.push(JSON.parse(data.slice("data: ".length)));
+      }
+    }
+  })();
+  return {
+    latest: () => views.at(-1),
+    close: async () => {
+      await reader.cancel();
+      await reading;
+    },
+  };
+}
+
+beforeEach(() => vi.stubEnv("DEV_AUTH", "1"));
+afterEach(() => vi.unstubAllEnvs());
+
+describe("a 1v1 match between two clients", () => {
+  it("only seats the opponent when they join", async () => {
+    const [host, guest] = [client(1), client(2)];
+    const { match, seat } = await host.create({ level: 1, difficulty: "normal" });
+    expect(seat).toBe(0);
+
+    const opened = await guest.send(match.id, { type: "seat" });
+    expect(opened).toMatchObject({ status: 200, seat: null, match: { status: "waiting", players: [1, null] } });
+    expect((await guest.send(match.id, { type: "flip", index: 0 })).status).toBe(403);
+
+    const joined = await guest.send(match.id, { type: "join" });
+    expect(joined).toMatchObject({ seat: 1, match: { status: "playing", players: [1, 2] } });
+    expect(await guest.send(match.id, { type: "seat" })).toMatchObject({ seat: 1 });
+    expect(await client(3).send(match.id, { type: "join" })).toMatchObject({ seat: null, match: { players: [1, 2] } });
+  });
+
+  it("plays turns between both clients and ends with a result either can replay", async () => {
+    const players = [client(11), client(12)];
+    const { match: created } = await players[0].create({ level: 1, difficulty: "normal" });
+    const id = created.id;
+    const watching = await Promise.all([follow(id), follow(id)]);
+    await players[1].send(id, { type: "join" });
+    await vi.waitFor(() => watching.forEach((w) => expect(w.latest()?.status).toBe("playing")));
+
+    // The test peeks at the secret seed to know which cards belong together.
+    const { cards } = replayMatch(await getMatch(id));
+    const groups = new Map<number, number[]>();
+    cards.forEach((card, index) => groups.set(card.pairId, [...(groups.get(card.pairId) ?? []), index]));
+    const [first, second] = [...groups.values()];
+
+    // The first player misses, which passes the turn; the second then clears the board.
+    let view = watching[0].latest()!;
+    const opener = view.turn;
+    for (const index of [first[0], second[0]]) view = (await players[opener].send(id, { type: "flip", index })).match;
+    expect(view.turn).toBe(1 - opener);
+    expect((await players[opener].send(id, { type: "flip", index: first[0] })).status).toBe(409);
+    for (const index of [...groups.values()].flat()) {
+      view = (await players[1 - opener].send(id, { type: "flip", index })).match;
+    }
+
+    expect(view).toMatchObject({ status: "finished", winner: 1 - opener });
+    await vi.waitFor(() => watching.forEach((w) => expect(w.latest()).toEqual(view)));
+    const replayed = replayMatch({ ...view, seed: view.seed!, moves: view.moves! });
+    expect(replayed).toMatchObject({ status: "finished", winner: view.winner, pairs: view.pairs });
+    await Promise.all(watching.map((w) => w.close()));
+  });
+});
@@ -0,0 +1,220 @@
+import { createHash, randomBytes } from "crypto";
+import { DEFAULT_DIFFICULTY, isDifficulty, type Difficulty } from "./difficulty";
+import { TOTAL_LEVELS } from "./levels";
+import { MATCH_TURN_MS, MatchError, applyMatchMove, replayMatch, type MatchLog, type MatchMove, type MatchStatus, type Seat } from "./matchRules";
+import { serialize } from "./serialize";
+import { getStorage } from "./storage";
+
+export { MatchError };
+
+/**
+ * Head-to-head matches on the server.
+ *
+ * The server holds the only copy of a match: players are sent face-up cards
+ * only, and the seed stays secret until the match is over, with its SHA-256
+ * published from the start. A finished match publishes the seed and the
+ * ordered move log, so either player can replay it with `lib/matchRules.ts`
+ * instead of taking the server's word for the result.
+ *
+ * Live updates are pushed to subscribers in this process, so matches need a
+ * single server instance, like the `file` storage adapter.
+ */
+
+export interface Match extends MatchLog {
+  id: string;
+  /** Secret until the match is finished. */
+  seed: string;
+  seedHash: string;
+  createdAt: number;
+  /** When the last move was played (or the match started); a turn idle for MATCH_TURN_MS can be passed. */
+  turnStartedAt: number;
+}
+
+export interface MatchCardView {
+  /** Null while the card is face down, unless the match is over. */
+  content: string | null;
+  isFlipped: boolean;
+  isMatched: boolean;
+}
+
+/** What everyone watching a match is sent. */
+export interface MatchView {
+  id: string;
+  seedHash: string;
+  /** Revealed once the match is finished, with the move log, so the result can be replayed. */
+  seed?: string;
+  moves?: MatchMove[];
+  level: number;
+  difficulty: Difficulty;
+  players: [number, number | null];
+  status: MatchStatus;
+  cards: MatchCardView[];
+  missed: number[];
+  turn: Seat;
+  pairs: [number, number];
+  winner: Seat | null;
+  resigned: boolean;
+  turnStartedAt: number;
+  /** Moves played so far; increases with every update. */
+  version: number;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export function matchView(match: Match, board = replayMatch(match)): MatchView {
+  const finished = board.status === "finished";
+  return {
+    id: match.id,
+    seedHash: match.seedHash,
+    ...(finished ? { seed: match.seed, moves: match.moves } : {}),
+    level: match.level,
+    difficulty: match.difficulty,
+    players: match.players,
+    status: board.status,
+    cards: board.cards.map((c) => ({
+      content: finished || c.isFlipped || c.isMatched ? c.content : null,
+      isFlipped: c.isFlipped,
+      isMatched: c.isMatched,
+    })),
+    missed: board.missed,
+    turn: board.turn,
+    pairs: board.pairs,
+    winner: board.winner,
+    resigned: board.resigned,
+    turnStartedAt: match.turnStartedAt,
+    version: match.moves.length,
+  };
+}
+
+/** Checks a client's move request; the seat always comes from the authenticated player, never the body. */
+export function parseMatchRequest(raw: unknown): { type: "seat" } | { type: "join" } | { type: "flip"; index: number } | { type: "timeout" | "resign" } {
+  if (!isRecord(raw)) throw new MatchError("body must be an object", 400);
+  switch (raw.type) {
+    case "seat":
+    case "join":
+    case "timeout":
+    case "resign":
+      return { type: raw.type };
+    case "flip":
+      if (!Number.isInteger(raw.index)) throw new MatchError("index: must be an integer", 400);
+      return { type: "flip", index: raw.index as number };
+    default:
+      throw new MatchError('type: must be "seat", "join", "flip", "timeout" or "resign"', 400);
+  }
+}
+
+const matches = () => getStorage().collection<Match>("matches");
+
+type Listener = (view: MatchView) => void;
+
+// Route handlers can each get their own copy of this module, so the process-wide state hangs off globalThis.
+const shared = globalThis as typeof globalThis & { matchListeners?: Map<string, Set<Listener>> };
+const listeners = (shared.matchListeners ??= new Map<string, Set<Listener>>());
+
+function publish(view: MatchView) {
+  listeners.get(view.id)?.forEach((listener) => listener(view));
+}
+
+/** Calls `listener` with every update to the match until the returned function is called. */
+export function subscribe(id: string, listener: Listener): () => void {
+  let set = listeners.get(id);
+  if (!set) {
+    set = new Set();
+    listeners.set(id, set);
+  }
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(id);
+  };
+}
+
+// Moves on one match are applied one at a time so two requests cannot both act on the same turn.
+const onMatch = <T>(id: string, task: () => Promise<T>) => serialize(`match:${id}`, task);
+
+export async function createMatch(fid: number, options: unknown, now = Date.now()): Promise<Match> {
+  const { level = 1, difficulty = DEFAULT_DIFFICULTY } = isRecord(options) ? options : {};
+  if (!Number.isInteger(level) || (level as number) < 1 || (level as number) > TOTAL_LEVELS) {
+    throw new MatchError(`level: must be between 1 and ${TOTAL_LEVELS}`, 400);
+  }
+  if (!isDifficulty(difficulty)) throw new MatchError("difficulty: not a known mode", 400);
+
+  const seed = randomBytes(16).toString("hex");
+  const match: Match = {
+    id: randomBytes(9).toString("base64url"),
+    seed,
+    seedHash: createHash("sha256").update(seed).digest("hex"),
+    level: level as number,
+    difficulty,
+    players: [fid, null],
+    moves: [],
+    createdAt: now,
+    turnStartedAt: now,
+  };
+  await matches().put(match.id, match);
+  return match;
+}
+
+export async function getMatch(id: string): Promise<Match> {
+  const match = await matches().get(id);
+  if (!match) throw new MatchError("no such match", 404);
+  return match;
+}
+
+export const seatOf = (match: Match, fid: number): Seat | null =>
+  match.players[0] === fid ? 0 : match.players[1] === fid ? 1 : null;
+
+/** The match and the player's seat in it, or a null seat for someone watching; never takes a seat. */
+export async function findSeat(id: string, fid: number) {
+  const match = await getMatch(id);
+  return { match, seat: seatOf(match, fid) };
+}
+
+/**
+ * Takes the empty seat, or returns the player's seat if they already have one.
+ * Anyone else can still watch the match, with a null seat.
+ */
+export function joinMatch(id: string, fid: number, now = Date.now()) {
+  return onMatch(id, async () => {
+    const match = await getMatch(id);
+    const seat = seatOf(match, fid);
+    if (seat !== null || match.players[1] !== null) return { match, seat };
+
+    const joined: Match = { ...match, players: [match.players[0], fid], turnStartedAt: now };
+    await matches().put(id, joined);
+    publish(matchView(joined));
+    return { match: joined, seat: 1 as Seat };
+  });
+}
+
+/** Plays a move for the authenticated player and pushes the new state to everyone watching. */
+export function playMatchMove(id: string, fid: number, request: { type: "flip"; index: number } | { type: "timeout" | "resign" }, now = Date.now()) {
+  return onMatch(id, async () => {
+    const match = await getMatch(id);
+    const seat = seatOf(match, fid);
+    if (seat === null) throw new MatchError("you are not playing in this match", 403);
+    const board = replayMatch(match);
+    if (board.status === "waiting") throw new MatchError("waiting for an opponent");
+
+    let move: MatchMove;
+    if (request.type === "timeout") {
+      // Claimed by the waiting player on behalf of the one who let the clock run out.
+      if (seat === board.turn) throw new MatchError("it is your turn");
+      if (now - match.turnStartedAt < MATCH_TURN_MS) throw new MatchError("the turn has not run out yet");
+      move = { type: "timeout", seat: board.turn };
+    } else {
+      move = request.type === "flip" ? { type: "flip", seat, index: request.index } : { type: "resign", seat };
+    }
+
+    const next = applyMatchMove(board, move);
+    const updated: Match = {
+      ...match,
+      moves: [...match.moves, move],
+      turnStartedAt: now,
+    };
+    await matches().put(id, updated);
+    const view = matchView(updated, next);
+    publish(view);
+    return { match: updated, seat, view };
+  });
+}
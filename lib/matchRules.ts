@@ -0,0 +1,127 @@
+import type { Difficulty } from "./difficulty";
+import { dealCards, defaultContext, type Card } from "./engine";
+import { hashString } from "./random";
+
+/**
+ * Rules for head-to-head matches, shared by the server and the players'
+ * clients. A match is fully decided by its seed and its ordered move log:
+ * `replayMatch` gives the same board and result wherever it runs, which is
+ * how a client checks a finished match for itself.
+ *
+ * Two players share one seeded board and take turns. Completing a pair (or a
+ * triple on expert boards) scores it and keeps the turn; a miss passes it.
+ */
+
+export type Seat = 0 | 1;
+
+export type MatchMove =
+  | { type: "flip"; seat: Seat; index: number }
+  /** The player on turn let it run out; the opponent claimed it. */
+  | { type: "timeout"; seat: Seat }
+  | { type: "resign"; seat: Seat };
+
+/** Everything that decides a match's result. */
+export interface MatchLog {
+  seed: string;
+  level: number;
+  difficulty: Difficulty;
+  /** FIDs by seat; the second seat is empty until someone joins. */
+  players: [number, number | null];
+  moves: MatchMove[];
+}
+
+export type MatchStatus = "waiting" | "playing" | "finished";
+
+/** Where a match stands after replaying its moves. */
+export interface MatchBoard {
+  status: MatchStatus;
+  cards: Card[];
+  /** Face-up cards of the turn in progress. */
+  flipped: number[];
+  /** The cards of the last miss, left face up until the next flip. */
+  missed: number[];
+  turn: Seat;
+  /** Groups completed by each seat. */
+  pairs: [number, number];
+  /** Null while playing, and for a draw. */
+  winner: Seat | null;
+  resigned: boolean;
+}
+
+export class MatchError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 409,
+  ) {
+    super(message);
+    this.name = "MatchError";
+  }
+}
+
+/** How long a player has for a turn before the opponent can pass it. */
+export const MATCH_TURN_MS = 30_000;
+
+/** The seat that moves first, decided by the seed so neither side can pick it. */
+export const firstSeat = (seed: string): Seat => (hashString(`${seed}/first`) % 2) as Seat;
+
+export function startBoard(seed: string, level: number, difficulty: Difficulty): MatchBoard {
+  return {
+    status: "playing",
+    cards: dealCards(seed, level, 0, difficulty, defaultContext),
+    flipped: [],
+    missed: [],
+    turn: firstSeat(seed),
+    pairs: [0, 0],
+    winner: null,
+    resigned: false,
+  };
+}
+
+const other = (seat: Seat): Seat => (seat === 0 ? 1 : 0);
+
+/** Applies one move, throwing MatchError if it isn't legal right now. */
+export function applyMatchMove(board: MatchBoard, move: MatchMove): MatchBoard {
+  if (board.status !== "playing") throw new MatchError("the match is over");
+
+  if (move.type === "resign") {
+    return { ...board, status: "finished", winner: other(move.seat), resigned: true };
+  }
+  if (move.seat !== board.turn) throw new MatchError("it is not your turn");
+
+  // Whatever was left face up from the previous turn goes back down first.
+  const cards = board.cards.map((c, i) =>
+    board.missed.includes(i) || (move.type === "timeout" && board.flipped.includes(i)) ? { ...c, isFlipped: false } : c,
+  );
+  if (move.type === "timeout") {
+    return { ...board, cards, flipped: [], missed: [], turn: other(board.turn) };
+  }
+
+  const card = cards[move.index];
+  if (!Number.isInteger(move.index) || !card || card.isFlipped || card.isMatched) {
+    throw new MatchError("that card cannot be flipped");
+  }
+  cards[move.index] = { ...card, isFlipped: true };
+  const flipped = [...board.flipped, move.index];
+  const { pairId } = cards[flipped[0]];
+
+  if (card.pairId !== pairId) {
+    return { ...board, cards, flipped: [], missed: flipped, turn: other(board.turn) };
+  }
+  if (flipped.length < cards.filter((c) => c.pairId === pairId).length) {
+    return { ...board, cards, flipped, missed: [] };
+  }
+
+  flipped.forEach((i) => (cards[i] = { ...cards[i], isMatched: true }));
+  const pairs: [number, number] = [...board.pairs];
+  pairs[board.turn] += 1;
+  const done = cards.every((c) => c.isMatched);
+  const winner = !done || pairs[0] === pairs[1] ? null : pairs[0] > pairs[1] ? 0 : 1;
+  return { ...board, status: done ? "finished" : "playing", cards, flipped: [], missed: [], pairs, winner };
+}
+
+/** Rebuilds a match from its seed and move log; this is all it takes to check a result. */
+export function replayMatch({ seed, level, difficulty, players, moves }: MatchLog): MatchBoard {
+  const board = startBoard(seed, level, difficulty);
+  if (players[1] === null) return { ...board, status: "waiting" };
+  return moves.reduce(applyMatchMove, board);
+}
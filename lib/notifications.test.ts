@@ -0,0 +1,108 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PUT } from "@/app/api/notifications/preferences/route";
+import { fakeFarcaster } from "@/test/farcaster";
+import {
+  getNotificationPreferences,
+  getNotificationRecords,
+  saveNotificationDetails,
+  saveNotificationPreferences,
+  sendNotification,
+} from "./notifications";
+import { runDailyBoardAnnouncement } from "./reminders";
+
+const NOW = Date.UTC(2026, 9, 18, 12);
+const notification = { notificationId: "hello", title: "Hello", body: "A notification", targetUrl: "https://game.example" };
+const enable = (fid: number, client = "warpcast") =>
+  saveNotificationDetails(fid, `0x${client}`, { url: `https://${client}.example/notify`, token: `${client}-${fid}` }, NOW);
+
+let farcaster: ReturnType<typeof fakeFarcaster>;
+beforeEach(() => {
+  farcaster = fakeFarcaster();
+  vi.stubGlobal("fetch", farcaster.fetch);
+});
+afterEach(() => vi.unstubAllGlobals());
+
+describe("sendNotification", () => {
+  it("posts the notification with the stored token", async () => {
+    await enable(1);
+    await expect(sendNotification(1, notification)).resolves.toBe("success");
+    expect(farcaster.sent).toEqual([{ url: "https://warpcast.example/notify", ...notification, tokens: ["warpcast-1"] }]);
+  });
+
+  it("reports players without a token", async () => {
+    await expect(sendNotification(2, notification)).resolves.toBe("no_token");
+    expect(farcaster.sent).toEqual([]);
+  });
+
+  it("drops a token the client reports as invalid and keeps the player's others", async () => {
+    await enable(3, "warpcast");
+    await enable(3, "base");
+    farcaster.invalidTokens.add("base-3");
+    await expect(sendNotification(3, notification)).resolves.toBe("success");
+    expect((await getNotificationRecords(3)).map((r) => r.token)).toEqual(["warpcast-3"]);
+
+    farcaster.invalidTokens.add("warpcast-3");
+    await expect(sendNotification(3, notification)).resolves.toBe("invalid_token");
+    expect(await getNotificationRecords(3)).toEqual([]);
+  });
+
+  it("reports a rate limit without dropping the token", async () => {
+    await enable(4);
+    farcaster.rateLimitedTokens.add("warpcast-4");
+    await expect(sendNotification(4, notification)).resolves.toBe("rate_limited");
+    expect(await getNotificationRecords(4)).toHaveLength(1);
+  });
+});
+
+describe("runDailyBoardAnnouncement", () => {
+  const run = () => runDailyBoardAnnouncement({ now: NOW, sleep: async () => {} });
+
+  it("announces once per player and day, to every client, and skips players who opted out", async () => {
+    await enable(10, "warpcast");
+    await enable(10, "base");
+    await enable(11);
+    await saveNotificationPreferences(11, { streakReminders: true, dailyBoard: false });
+
+    // Players enabled by earlier tests are announced to as well, so only look at these two.
+    await run();
+    const announced = farcaster.sent.filter((s) => s.tokens.some((t) => t.endsWith("-10")));
+    expect(announced.map((s) => s.tokens).flat().sort()).toEqual(["base-10", "warpcast-10"]);
+    expect(farcaster.sent.some((s) => s.tokens.includes("warpcast-11"))).toBe(false);
+
+    farcaster.sent.length = 0;
+    await run();
+    expect(farcaster.sent.filter((s) => s.tokens.some((t) => t.endsWith("-10")))).toEqual([]);
+  });
+});
+
+describe("PUT /api/notifications/preferences", () => {
+  beforeEach(() => vi.stubEnv("DEV_AUTH", "1"));
+  afterEach(() => vi.unstubAllEnvs());
+
+  const put = (fid: number, body: string) =>
+    PUT(
+      new NextRequest("http://localhost/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "X-Dev-Fid": String(fid) },
+        body,
+      }),
+    );
+
+  it("updates only the preferences in the body", async () => {
+    const res = await put(20, JSON.stringify({ streakReminders: false }));
+    expect(res.status).toBe(200);
+    expect(await getNotificationPreferences(20)).toEqual({ streakReminders: false, dailyBoard: true });
+  });
+
+  it("rejects a body that isn't a JSON object", async () => {
+    for (const body of ["null", "[]", '"on"', "42", "not json"]) {
+      expect((await put(21, body)).status).toBe(400);
+    }
+    expect(await getNotificationPreferences(21)).toEqual({ streakReminders: true, dailyBoard: true });
+  });
+
+  it("rejects preferences that aren't booleans", async () => {
+    expect((await put(22, JSON.stringify({ dailyBoard: "no" }))).status).toBe(400);
+  });
+});
@@ -0,0 +1,126 @@
+import { getStorage } from "./storage";
+
+/**
+ * Notification tokens and delivery.
+ *
+ * A Farcaster client hands us a `{ url, token }` pair for each player who adds
+ * the mini app with notifications on (see app/api/webhook). A player can use
+ * several clients, each with its own app key and token, so tokens are kept
+ * per FID and app key. Sending means POSTing to each client's url with its
+ * tokens; tokens a client reports as invalid are dropped so we stop using them.
+ */
+
+export interface NotificationDetails {
+  url: string;
+  token: string;
+}
+
+export interface NotificationRecord extends NotificationDetails {
+  fid: number;
+  /** App key of the client the token came from; missing on records saved before tokens were kept per client. */
+  appKey?: string;
+  updatedAt: number;
+}
+
+export interface Notification {
+  /** Clients show at most one notification per id per player, so reuse an id to avoid duplicates. */
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+/** What a player has opted out of. Missing preferences mean everything is on. */
+export interface NotificationPreferences {
+  streakReminders: boolean;
+  dailyBoard: boolean;
+}
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = { streakReminders: true, dailyBoard: true };
+
+export type SendResult = "success" | "no_token" | "invalid_token" | "rate_limited" | "error";
+
+// Limits from the Farcaster notification spec.
+export const MAX_TITLE_LENGTH = 32;
+export const MAX_BODY_LENGTH = 128;
+export const MAX_NOTIFICATION_ID_LENGTH = 128;
+
+const records = () => getStorage().collection<NotificationRecord>("notifications");
+const preferences = () => getStorage().collection<NotificationPreferences>("notificationPreferences");
+
+// Records from before tokens were kept per client are keyed by the FID alone.
+const recordKey = ({ fid, appKey }: Pick<NotificationRecord, "fid" | "appKey">) => (appKey ? `${fid}:${appKey}` : String(fid));
+
+/** Every client's token for the player. */
+export async function getNotificationRecords(fid: number): Promise<NotificationRecord[]> {
+  return (await records().list()).filter((r) => r.fid === fid);
+}
+
+export async function saveNotificationDetails(fid: number, appKey: string, details: NotificationDetails, now = Date.now()) {
+  await records().put(recordKey({ fid, appKey }), { fid, appKey, url: details.url, token: details.token, updatedAt: now });
+}
+
+/** Drops the token of one client; the player's other clients keep theirs. */
+export async function deleteNotificationDetails(fid: number, appKey: string) {
+  await records().delete(recordKey({ fid, appKey }));
+}
+
+export async function listNotificationRecords(): Promise<NotificationRecord[]> {
+  return records().list();
+}
+
+export async function getNotificationPreferences(fid: number): Promise<NotificationPreferences> {
+  return { ...DEFAULT_PREFERENCES, ...(await preferences().get(String(fid))) };
+}
+
+export async function saveNotificationPreferences(fid: number, prefs: NotificationPreferences) {
+  await preferences().put(String(fid), prefs);
+}
+
+/** Sends to one client's notification url, dropping the tokens it reports as invalid. */
+async function sendToClient(fid: number, url: string, clients: NotificationRecord[], notification: Notification): Promise<SendResult> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        notificationId: notification.notificationId.slice(0, MAX_NOTIFICATION_ID_LENGTH),
+        title: notification.title.slice(0, MAX_TITLE_LENGTH),
+        body: notification.body.slice(0, MAX_BODY_LENGTH),
+        targetUrl: notification.targetUrl,
+        tokens: clients.map((r) => r.token),
+      }),
+    });
+    if (!res.ok) {
+      console.error(`Notification to FID ${fid} failed with ${res.status}`);
+      return "error";
+    }
+
+    const { result } = (await res.json()) as {
+      result: { successfulTokens: string[]; invalidTokens: string[]; rateLimitedTokens: string[] };
+    };
+    const invalid = clients.filter((r) => result.invalidTokens.includes(r.token));
+    for (const record of invalid) await records().delete(recordKey(record));
+    if (clients.some((r) => result.successfulTokens.includes(r.token))) return "success";
+    if (clients.some((r) => result.rateLimitedTokens.includes(r.token))) return "rate_limited";
+    return invalid.length === clients.length ? "invalid_token" : "error";
+  } catch (error) {
+    console.error(`Notification to FID ${fid} failed:`, error);
+    return "error";
+  }
+}
+
+/** Sends to every client the player has notifications on in; it counts as sent once any of them accepts it. */
+export async function sendNotification(fid: number, notification: Notification): Promise<SendResult> {
+  const clients = await getNotificationRecords(fid);
+  if (clients.length === 0) return "no_token";
+
+  const byUrl = new Map<string, NotificationRecord[]>();
+  for (const record of clients) byUrl.set(record.url, [...(byUrl.get(record.url) ?? []), record]);
+  const results = await Promise.all([...byUrl].map(([url, group]) => sendToClient(fid, url, group, notification)));
+
+  for (const result of ["success", "rate_limited", "error"] as const) {
+    if (results.includes(result)) return result;
+  }
+  return "invalid_token";
+}
@@ -0,0 +1,47 @@
+import { mergeUnlocked, type UnlockedAchievements } from "./achievements";
+import { getStreak } from "./checkIns";
+import { formatUtcDay } from "./gm";
+import type { Progress } from "./progress";
+import { getStorage } from "./storage";
+
+/** Server-side progress for a signed-in player, keyed by FID. */
+export interface Profile extends Progress {
+  fid: number;
+  updatedAt: number;
+}
+
+const profiles = () => getStorage().collection<Profile>("profiles");
+const achievements = () => getStorage().collection<UnlockedAchievements>("achievements");
+
+/** The streak comes from verified check-ins, whatever the client last synced. */
+async function withVerifiedStreak<T extends Progress>(fid: number, progress: T, now = Date.now()): Promise<T> {
+  const { streak, lastDay } = await getStreak(fid, now);
+  return { ...progress, streak, lastGM: lastDay === null ? "" : formatUtcDay(lastDay) };
+}
+
+export async function getProfile(fid: number): Promise<Profile | null> {
+  const profile = await profiles().get(String(fid));
+  return profile ? withVerifiedStreak(fid, profile) : null;
+}
+
+export async function saveProfile(fid: number, progress: Progress, now = Date.now()): Promise<Profile> {
+  const profile: Profile = await withVerifiedStreak(fid, { ...progress, fid, updatedAt: now }, now);
+  await profiles().put(String(fid), profile);
+  return profile;
+}
+
+export async function getAchievements(fid: number): Promise<UnlockedAchievements> {
+  return (await achievements().get(String(fid))) ?? {};
+}
+
+/**
+ * Adds a device's unlocks to the ones saved for the FID and returns them all.
+ * Unlocks are only ever added, so achievements earned while playing signed
+ * out carry over on the first sync after signing in.
+ */
+export async function addAchievements(fid: number, unlocked: UnlockedAchievements): Promise<UnlockedAchievements> {
+  const saved = await getAchievements(fid);
+  const merged = mergeUnlocked(saved, unlocked);
+  if (merged !== saved) await achievements().put(String(fid), merged);
+  return merged;
+}
@@ -0,0 +1,56 @@
+import { TOTAL_LEVELS } from "./levels";
+
+/**
+ * The slice of a player's run that follows them between devices once they
+ * sign in. Shared by the client and the profile route, so it must stay free
+ * of browser and server-only imports.
+ */
+export interface Progress {
+  level: number;
+  score: number;
+  hints: number;
+  quizzesSolved: number;
+  streak: number;
+  /**
+   * Day of the last daily check-in, or "" if never. The server sets it and the
+   * streak from verified check-ins, as a UTC `YYYY-MM-DD`; saves from before
+   * check-ins were verified hold a local `Date#toDateString()`.
+   */
+  lastGM: string;
+}
+
+export class ProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProgressError";
+  }
+}
+
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+
+export function parseProgress(raw: unknown): Progress {
+  if (typeof raw !== "object" || raw === null) throw new ProgressError("progress must be an object");
+  const p = raw as Record<string, unknown>;
+  if (!isCount(p.level) || p.level < 1 || p.level > TOTAL_LEVELS) {
+    throw new ProgressError(`level: must be between 1 and ${TOTAL_LEVELS}`);
+  }
+  for (const key of ["score", "hints", "quizzesSolved", "streak"] as const) {
+    if (!isCount(p[key])) throw new ProgressError(`${key}: must be a non-negative integer`);
+  }
+  if (typeof p.lastGM !== "string" || p.lastGM.length > 32) throw new ProgressError("lastGM: must be a date string");
+  return {
+    level: p.level,
+    score: p.score as number,
+    hints: p.hints as number,
+    quizzesSolved: p.quizzesSolved as number,
+    streak: p.streak as number,
+    lastGM: p.lastGM,
+  };
+}
+
+/** Whether `a` is further along than `b`: higher level first, then score, then quizzes solved. */
+export function isAhead(a: Progress, b: Progress) {
+  if (a.level !== b.level) return a.level > b.level;
+  if (a.score !== b.score) return a.score > b.score;
+  return a.quizzesSolved > b.quizzesSolved;
+}
@@ -0,0 +1,111 @@
+import type { LevelData, Question } from "./levels";
+import { createRandom, shuffle } from "./random";
+
+/**
+ * Quiz questions.
+ *
+ * A level's bank is its authored questions plus one match-the-term question
+ * per pair. Questions are identified by stable ids so wrong answers can be
+ * scheduled for review across sessions: `q:{level}:{index}` for authored
+ * questions and `t:{level}:{pair}` for terms.
+ */
+
+export type QuestionFormat = "choice" | "truefalse" | "match";
+
+/** A question ready to show, with options in display order and `answer` indexing into them. */
+export interface PreparedQuestion {
+  id: string;
+  format: QuestionFormat;
+  prompt: string;
+  options: string[];
+  answer: number;
+  explanation: string;
+}
+
+/** The quiz's own words, as opposed to the level content it asks about; the game passes them in the player's language. */
+export interface QuizText {
+  true: string;
+  false: string;
+  matchPrompt: (definition: string) => string;
+  matchExplanation: (term: string, definition: string) => string;
+}
+
+export const DEFAULT_QUIZ_TEXT: QuizText = {
+  true: "True",
+  false: "False",
+  matchPrompt: (definition) => `Which term matches "${definition}"?`,
+  matchExplanation: (term, definition) => `${term}: ${definition}`,
+};
+
+/** Options offered by a match-the-term question, the right term included. */
+const MATCH_OPTIONS = 4;
+
+export const questionId = (level: number, index: number) => `q:${level}:${index}`;
+export const termId = (level: number, pair: number) => `t:${level}:${pair}`;
+
+function prepareAuthored(question: Question, id: string, random: () => number, text: QuizText): PreparedQuestion {
+  const { prompt, explanation } = question;
+  if (question.type === "truefalse") {
+    return { id, format: "truefalse", prompt, options: [text.true, text.false], answer: question.answer ? 0 : 1, explanation };
+  }
+  const order = shuffle(question.options.map((_, i) => i), random);
+  return {
+    id,
+    format: "choice",
+    prompt,
+    options: order.map((i) => question.options[i]),
+    answer: order.indexOf(question.answer),
+    explanation,
+  };
+}
+
+function prepareMatch(data: LevelData, id: string, pair: number, random: () => number, text: QuizText): PreparedQuestion {
+  const { term, definition } = data.pairs[pair];
+  const others = shuffle(data.pairs.filter((_, i) => i !== pair), random)
+    .slice(0, MATCH_OPTIONS - 1)
+    .map((p) => p.term);
+  const options = shuffle([term, ...others], random);
+  return {
+    id,
+    format: "match",
+    prompt: text.matchPrompt(definition),
+    options,
+    answer: options.indexOf(term),
+    explanation: text.matchExplanation(term, definition),
+  };
+}
+
+export function questionIds(data: LevelData, level: number): string[] {
+  return [...data.questions.map((_, i) => questionId(level, i)), ...data.pairs.map((_, i) => termId(level, i))];
+}
+
+/** Prepares a question by id with shuffled options, or returns null if the content no longer has it. */
+export function prepareQuestion(
+  id: string,
+  levels: LevelData[],
+  random: () => number,
+  text: QuizText = DEFAULT_QUIZ_TEXT,
+): PreparedQuestion | null {
+  const match = /^([qt]):(\d+):(\d+)$/.exec(id);
+  if (!match) return null;
+  const [, kind, level, index] = match;
+  const data = levels[Number(level) - 1];
+  if (kind === "q") {
+    const question = data?.questions[Number(index)];
+    return question ? prepareAuthored(question, id, random, text) : null;
+  }
+  return data?.pairs[Number(index)] ? prepareMatch(data, id, Number(index), random, text) : null;
+}
+
+/** The quiz for a deal. It is drawn from the run's seed, so replaying a run asks the same question. */
+export function levelQuestion(
+  seed: string,
+  level: number,
+  attempt: number,
+  levels: LevelData[],
+  text: QuizText = DEFAULT_QUIZ_TEXT,
+): PreparedQuestion {
+  const random = createRandom(`${seed}/${level}/${attempt}/quiz`);
+  const ids = questionIds(levels[level - 1], level);
+  return prepareQuestion(ids[Math.floor(random() * ids.length)], levels, random, text)!;
+}
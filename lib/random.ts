@@ -0,0 +1,61 @@
+/**
+ * Seeded randomness for reproducible boards.
+ *
+ * Seeds are short strings so they can be shown to players and passed around
+ * in links. The same seed always produces the same sequence on every device.
+ */
+
+const SEED_ALPHABET = "abcdefghijkmnpqrstuvwxyz23456789";
+const DAILY_PREFIX = "daily-";
+
+/** FNV-1a hash of a string to a 32-bit unsigned integer. */
+export function hashString(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32 generator; returns floats in [0, 1) like Math.random. */
+export function createRandom(seed: string): () => number {
+  let a = hashString(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher-Yates shuffle driven by `random`, leaving `arr` untouched. */
+export function shuffle<T>(arr: T[], random: () => number) {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** A fresh 8 character seed, avoiding look-alike characters so it can be read aloud. */
+export function randomSeed(length = 8) {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => SEED_ALPHABET[b % SEED_ALPHABET.length]).join("");
+}
+
+/** The seed everyone shares for a given UTC day, e.g. `daily-2026-01-31`. */
+export function dailySeed(date: Date = new Date()) {
+  return `${DAILY_PREFIX}${date.toISOString().slice(0, 10)}`;
+}
+
+export const isDailySeed = (seed: string) => seed.startsWith(DAILY_PREFIX);
+
+/** Seeds come from URLs, so keep them short and free of anything that needs escaping. */
+export function normalizeSeed(raw: string | null | undefined): string | null {
+  const seed = raw?.trim().toLowerCase();
+  if (!seed || seed.length > 32 || !/^[a-z0-9-]+$/.test(seed)) return null;
+  return seed;
+}
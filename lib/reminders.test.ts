@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeFarcaster } from "@/test/farcaster";
+import type { CheckIn } from "./checkIns";
+import { DAY_MS, computeStreak, utcDay } from "./gm";
+import { saveNotificationDetails, saveNotificationPreferences } from "./notifications";
+import { findLapsingStreaks, runStreakReminders } from "./reminders";
+import { getStorage } from "./storage";
+
+const NOW = Date.UTC(2026, 9, 18, 20);
+const TODAY = utcDay(NOW);
+
+/** Records verified check-ins for `fid` on the given days before today (0 is today). */
+async function checkedIn(fid: number, daysAgo: number[]) {
+  for (const ago of daysAgo) {
+    const day = TODAY - ago;
+    const record: CheckIn = { fid, day, address: "0x0000000000000000000000000000000000000001", proof: "signature", reference: "0x00", checkedInAt: day * DAY_MS };
+    await getStorage().collection<CheckIn>("check-ins").put(`${fid}:${day}`, record);
+  }
+  await saveNotificationDetails(fid, "0xclient", { url: "https://client.example/notify", token: `token-${fid}` }, NOW);
+}
+
+let farcaster: ReturnType<typeof fakeFarcaster>;
+const remindedFids = () => farcaster.sent.flatMap((s) => s.tokens).map((t) => Number(t.slice("token-".length)));
+const run = (options: Parameters<typeof runStreakReminders>[0] = {}) => runStreakReminders({ now: NOW, sleep: async () => {}, ...options });
+
+beforeEach(() => {
+  farcaster = fakeFarcaster();
+  vi.stubGlobal("fetch", farcaster.fetch);
+});
+afterEach(() => vi.unstubAllGlobals());
+
+describe("findLapsingStreaks", () => {
+  it("picks streaks with no freeze left that haven't checked in today", () => {
+    const streaks = new Map([
+      [1, computeStreak([TODAY - 2, TODAY - 1], TODAY)],
+      [2, computeStreak([TODAY - 1, TODAY], TODAY)],
+      [3, computeStreak([...Array(7).keys()].map((i) => TODAY - 1 - i), TODAY)],
+      [4, computeStreak([TODAY - 5], TODAY)],
+    ]);
+    expect(findLapsingStreaks(streaks)).toEqual([{ fid: 1, streak: 2 }]);
+  });
+});
+
+describe("runStreakReminders", () => {
+  it("reminds a player whose streak is about to lapse, and not one whose streak is safe", async () => {
+    await checkedIn(10, [3, 2, 1]);
+    await checkedIn(11, [2, 1, 0]);
+    await checkedIn(12, [7, 6, 5, 4, 3, 2, 1]);
+
+    await run();
+    expect(remindedFids()).toContain(10);
+    expect(remindedFids()).not.toContain(11);
+    expect(remindedFids()).not.toContain(12);
+    expect(farcaster.sent.find((s) => s.tokens.includes("token-10"))).toMatchObject({
+      title: "Streak ending tonight",
+      body: "Your 3-day streak ends at midnight UTC. Check in to keep it alive.",
+    });
+  });
+
+  it("skips players who opted out of streak reminders", async () => {
+    await checkedIn(20, [2, 1]);
+    await saveNotificationPreferences(20, { streakReminders: false, dailyBoard: true });
+    await run();
+    expect(remindedFids()).not.toContain(20);
+  });
+
+  it("reminds a player once a day, however often the job runs", async () => {
+    await checkedIn(30, [2, 1]);
+    await run();
+    await run({ now: NOW + 60_000 });
+    expect(remindedFids().filter((fid) => fid === 30)).toHaveLength(1);
+  });
+
+  it("retries a reminder the client rate limited", async () => {
+    await checkedIn(31, [2, 1]);
+    farcaster.rateLimitedTokens.add("token-31");
+    expect((await run()).failed).toBeGreaterThanOrEqual(1);
+    farcaster.rateLimitedTokens.clear();
+    await run();
+    expect(remindedFids().filter((fid) => fid === 31)).toHaveLength(2);
+  });
+
+  it("paces sends under the per-minute rate", async () => {
+    for (const fid of [40, 41, 42]) await checkedIn(fid, [2, 1]);
+    const sleep = vi.fn(async (_ms: number) => {});
+    const summary = await runStreakReminders({ now: NOW, ratePerMinute: 30, sleep });
+    // One pause between every two sends, each long enough to stay at 30 a minute.
+    expect(sleep).toHaveBeenCalledTimes(summary.sent + summary.failed - 1);
+    expect(sleep.mock.calls.every(([ms]) => ms === 2000)).toBe(true);
+  });
+
+  it("forgets sent reminders once they are a week old", async () => {
+    type SentRecord = { key: string; fid: number; sentAt: number };
+    const log = getStorage().collection<SentRecord>("notificationLog");
+    await log.put("old", { key: "old", fid: 50, sentAt: NOW - 8 * DAY_MS });
+    await log.put("recent", { key: "recent", fid: 50, sentAt: NOW - 6 * DAY_MS });
+
+    await run();
+    expect(await log.get("old")).toBeUndefined();
+    expect(await log.get("recent")).toBeDefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { minikitConfig } from "@/minikit.config";
+import { listStreaks } from "./checkIns";
+import { DAY_MS, type Streak } from "./gm";
+import {
+  getNotificationPreferences,
+  listNotificationRecords,
+  sendNotification,
+  type Notification,
+  type NotificationPreferences,
+  type SendResult,
+} from "./notifications";
+import { dailySeed } from "./random";
+import { getStorage } from "./storage";
+
+/**
+ * Scheduled notification jobs, run from app/api/cron/reminders.
+ *
+ * Every notification carries a dedupe key. A key is recorded once delivery
+ * succeeds and is never sent again, so a job can be re-run (or overlap with a
+ * retry) without spamming anyone. The key doubles as the Farcaster
+ * `notificationId`, which makes clients drop duplicates on their side too.
+ */
+
+export type ReminderJob = "streak" | "daily";
+
+export interface JobOptions {
+  now?: number;
+  send?: (fid: number, notification: Notification) => Promise<SendResult>;
+  /** Upper bound on notifications sent per minute across all players. */
+  ratePerMinute?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface JobSummary {
+  job: ReminderJob;
+  candidates: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+interface SentRecord {
+  key: string;
+  fid: number;
+  sentAt: number;
+}
+
+// Farcaster clients allow one notification per token every 30 seconds and 100 a day; stay well under.
+const DEFAULT_RATE_PER_MINUTE = 600;
+const SENT_RETENTION_MS = 7 * DAY_MS;
+
+const sentLog = () => getStorage().collection<SentRecord>("notificationLog");
+
+/** Players with a streak and no freeze left who haven't checked in today: it resets if the UTC day passes without a GM. */
+export function findLapsingStreaks(streaks: Map<number, Streak>): { fid: number; streak: number }[] {
+  return [...streaks]
+    .filter(([, s]) => s.streak > 0 && s.freezes === 0 && !s.checkedInToday)
+    .map(([fid, s]) => ({ fid, streak: s.streak }));
+}
+
+async function deliver(
+  job: ReminderJob,
+  targets: { fid: number; key: string; notification: Omit<Notification, "notificationId"> }[],
+  optOut: keyof NotificationPreferences,
+  { now = Date.now(), send = sendNotification, ratePerMinute = DEFAULT_RATE_PER_MINUTE, sleep = defaultSleep }: JobOptions,
+): Promise<JobSummary> {
+  const summary: JobSummary = { job, candidates: targets.length, sent: 0, skipped: 0, failed: 0 };
+  const interval = 60_000 / ratePerMinute;
+  let first = true;
+
+  for (const target of targets) {
+    if ((await sentLog().get(target.key)) || !(await getNotificationPreferences(target.fid))[optOut]) {
+      summary.skipped++;
+      continue;
+    }
+    if (!first) await sleep(interval);
+    first = false;
+
+    const result = await send(target.fid, { ...target.notification, notificationId: target.key });
+    if (result === "success") {
+      await sentLog().put(target.key, { key: target.key, fid: target.fid, sentAt: now });
+      summary.sent++;
+    } else if (result === "no_token" || result === "invalid_token") {
+      summary.skipped++;
+    } else {
+      // Rate limited or failed: leave the key unrecorded so the next run retries.
+      summary.failed++;
+    }
+  }
+
+  await pruneSentLog(now);
+  return summary;
+}
+
+async function pruneSentLog(now: number) {
+  const log = sentLog();
+  for (const record of await log.list()) {
+    if (now - record.sentAt > SENT_RETENTION_MS) await log.delete(record.key);
+  }
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const utcDate = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+export async function runStreakReminders(options: JobOptions = {}): Promise<JobSummary> {
+  const now = options.now ?? Date.now();
+  const [streaks, records] = await Promise.all([listStreaks(now), listNotificationRecords()]);
+  const reachable = new Set(records.map((r) => r.fid));
+
+  const targets = findLapsingStreaks(streaks).filter((p) => reachable.has(p.fid)).map((p) => ({
+    fid: p.fid,
+    key: `streak-${p.fid}-${utcDate(now)}`,
+    notification: {
+      title: "Streak ending tonight",
+      body: `Your ${p.streak}-day streak ends at midnight UTC. Check in to keep it alive.`,
+      targetUrl: minikitConfig.miniapp.homeUrl,
+    },
+  }));
+  return deliver("streak", targets, "streakReminders", { ...options, now });
+}
+
+export async function runDailyBoardAnnouncement(options: JobOptions = {}): Promise<JobSummary> {
+  const now = options.now ?? Date.now();
+  const seed = dailySeed(new Date(now));
+  // A player with several clients has a record for each, but gets one announcement sent to all of them.
+  const fids = new Set((await listNotificationRecords()).map((r) => r.fid));
+  const targets = [...fids].map((fid) => ({
+    fid,
+    key: `${seed}-${fid}`,
+    notification: {
+      title: "New daily board",
+      body: "Today's board is live. Everyone gets the same deal, so see how you stack up.",
+      targetUrl: `${minikitConfig.miniapp.homeUrl}/?daily=1`,
+    },
+  }));
+  return deliver("daily", targets, "dailyBoard", { ...options, now });
+}
@@ -0,0 +1,44 @@
+/**
+ * Spaced repetition for the Review mode, using Leitner boxes.
+ *
+ * A question or term the player gets wrong goes into box 0 and is due right
+ * away, so the next review session brings it back. Each correct review moves
+ * it up a box and pushes its next review further out. Once it is answered
+ * correctly in the last box it leaves the deck.
+ */
+
+export interface ReviewCard {
+  box: number;
+  /** Epoch ms from which the card shows up in review. */
+  due: number;
+}
+
+/** Cards keyed by question id (see `lib/quiz.ts`). */
+export type ReviewDeck = Record<string, ReviewCard>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Days until the next review after a correct answer in each box. */
+export const REVIEW_INTERVALS_DAYS = [1, 3, 7, 14, 30];
+export const REVIEW_SESSION_SIZE = 10;
+
+export function recordMiss(deck: ReviewDeck, id: string, now: number): ReviewDeck {
+  return { ...deck, [id]: { box: 0, due: now } };
+}
+
+export function recordReview(deck: ReviewDeck, id: string, correct: boolean, now: number): ReviewDeck {
+  if (!correct) return recordMiss(deck, id, now);
+  const card = deck[id];
+  if (!card) return deck;
+  const { [id]: _reviewed, ...rest } = deck;
+  if (card.box >= REVIEW_INTERVALS_DAYS.length - 1) return rest;
+  return { ...rest, [id]: { box: card.box + 1, due: now + REVIEW_INTERVALS_DAYS[card.box] * DAY_MS } };
+}
+
+/** Ids of cards due for review, most overdue first. */
+export function dueCards(deck: ReviewDeck, now: number, limit = REVIEW_SESSION_SIZE): string[] {
+  return Object.entries(deck)
+    .filter(([, card]) => card.due <= now)
+    .sort(([, a], [, b]) => a.due - b.due)
+    .slice(0, limit)
+    .map(([id]) => id);
+}
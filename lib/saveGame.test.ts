@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { createGameState, reduce, snapshotBoard } from "./engine";
+import { hashString } from "./random";
+import { NewerSaveError, SAVE_VERSION, SaveGameError, defaultSave, parseSaveFile, readSaveFile, serializeSave } from "./saveGame";
+
+/** A save file as the game wrote it at `version`. */
+const envelope = (version: number, save: unknown) => ({
+  version,
+  checksum: hashString(JSON.stringify(save)).toString(16).padStart(8, "0"),
+  save,
+});
+
+const progress = { level: 4, score: 1200, hints: 7, quizzesSolved: 3, streak: 2, lastGM: "2026-10-17" };
+const board = {
+  snapshot: snapshotBoard(reduce(createGameState({ level: 2, difficulty: "hard" }), { type: "deal", seed: "testseed" }).state),
+  elapsedMs: 5000,
+  run: null,
+};
+
+// Each version's save as the game of that version wrote it, with something in every field it had.
+const SAVES: Record<number, Record<string, unknown>> = {};
+SAVES[1] = { progress, theme: "light", savedAt: 1 };
+SAVES[2] = { ...SAVES[1], board: null };
+SAVES[3] = { ...SAVES[2], stars: { 1: 3, 2: 2 } };
+SAVES[4] = { ...SAVES[2], levels: { 1: { stars: 3, bestScore: 380 }, 2: { stars: 2, bestScore: 300 } } };
+SAVES[5] = { ...SAVES[4], review: { "1:0": { box: 2, due: 99 } } };
+SAVES[6] = { ...SAVES[5], difficulty: "hard", board };
+SAVES[7] = { ...SAVES[6], achievements: { "first-layer": 5 } };
+SAVES[8] = { ...SAVES[7], accessible: true };
+SAVES[9] = { ...SAVES[8], locale: "es" };
+
+describe("readSaveFile", () => {
+  it("migrates the legacy base_* keys", () => {
+    const save = readSaveFile({
+      version: 0,
+      save: {
+        base_level: "4",
+        base_score: "1200",
+        base_hints: "7",
+        base_quizzes: "3",
+        base_theme: "light",
+        base_streak: "2",
+        base_last_gm: "2026-10-17",
+      },
+    });
+    expect(save).toEqual({ ...defaultSave(save.savedAt), progress, theme: "light" });
+  });
+
+  it("falls back to defaults for legacy keys that are missing or garbled", () => {
+    const save = readSaveFile({ version: 0, save: { base_level: "0", base_score: "lots", base_hints: "-2", base_theme: "sepia" } });
+    expect(save).toEqual(defaultSave(save.savedAt));
+  });
+
+  it.each(Object.keys(SAVES).map(Number))("migrates a version %i save", (version) => {
+    const save = readSaveFile(envelope(version, SAVES[version]));
+    expect(save).toEqual({
+      ...defaultSave(1),
+      progress,
+      theme: "light",
+      // Versions 2 and 3 only had stars; best scores came later.
+      levels: version === 3 ? { 1: { stars: 3, bestScore: 0 }, 2: { stars: 2, bestScore: 0 } } : version >= 4 ? SAVES[4].levels : {},
+      ...(version >= 5 && { review: SAVES[5].review }),
+      // Boards from before difficulty modes were dealt differently, so they are dropped.
+      ...(version >= 6 && { difficulty: "hard", board }),
+      ...(version >= 7 && { achievements: SAVES[7].achievements }),
+      ...(version >= 8 && { accessible: true }),
+      ...(version >= 9 && { locale: "es" }),
+    });
+  });
+
+  it("reads a save of the current version back as written", () => {
+    const save = { ...defaultSave(1), progress, board, pendingHintPurchases: [`0x${"ab".repeat(32)}` as const] };
+    expect(parseSaveFile(serializeSave(save))).toEqual(save);
+  });
+
+  it("rejects a save whose checksum doesn't match", () => {
+    const file = envelope(SAVE_VERSION, defaultSave(1));
+    const tampered = { ...file, save: { ...defaultSave(1), progress: { ...progress, score: 999_999 } } };
+    expect(() => readSaveFile(tampered)).toThrow(/checksum does not match/);
+  });
+
+  it("refuses a save from a newer version rather than guessing at it", () => {
+    expect(() => readSaveFile(envelope(SAVE_VERSION + 1, { anything: true }))).toThrow(NewerSaveError);
+    expect(new NewerSaveError(SAVE_VERSION + 1)).toBeInstanceOf(SaveGameError);
+  });
+});
@@ -0,0 +1,317 @@
+import { AchievementError, parseUnlocked, type UnlockedAchievements } from "./achievements";
+import { DEFAULT_DIFFICULTY, isDifficulty, type Difficulty } from "./difficulty";
+import type { Hex } from "viem";
+import type { BoardSnapshot, Stars } from "./engine";
+import { TOTAL_LEVELS } from "./levels";
+import { parseProgress, ProgressError, type Progress } from "./progress";
+import { isLocale, type Locale } from "./i18n";
+import { hashString } from "./random";
+import type { ReviewDeck } from "./review";
+import type { RunSubmission } from "./scores";
+
+/**
+ * The save game kept on the player's device.
+ *
+ * Saves are stored and exported as a versioned envelope,
+ * `{ version, checksum, save }`, where the checksum covers the JSON of `save`.
+ * Loading an older version runs it through `MIGRATIONS` one step at a time.
+ * Version 0 is the loose `base_*` localStorage keys the game used before this
+ * store existed, with their raw string values as `save`.
+ */
+
+export const SAVE_VERSION = 10;
+
+export type Theme = "dark" | "light";
+
+/** The level being played when the save was written, so a reload picks up where the player left off. */
+export interface SavedBoard {
+  snapshot: BoardSnapshot;
+  /** Time spent on the level so far. */
+  elapsedMs: number;
+  /** Actions recorded for score submission since the level was first dealt. */
+  run: RunSubmission | null;
+}
+
+/** The player's best on a level they have cleared. */
+export interface LevelRecord {
+  stars: Stars;
+  bestScore: number;
+}
+
+export interface SaveGame {
+  progress: Progress;
+  theme: Theme;
+  /** Accessible play mode: screen-reader announcements, longer looks at mismatches and no flip animation. */
+  accessible: boolean;
+  /** The language the player picked, or null to follow their client and browser. */
+  locale: Locale | null;
+  difficulty: Difficulty;
+  board: SavedBoard | null;
+  /** Cleared levels, keyed by level number. */
+  levels: Record<number, LevelRecord>;
+  /** Questions and terms scheduled for the Review mode. */
+  review: ReviewDeck;
+  /** Achievements unlocked on this device, including any from before the player signed in. */
+  achievements: UnlockedAchievements;
+  /** Hint packs paid for onchain whose hints the server hasn't granted yet; redeeming them is retried until it goes through. */
+  pendingHintPurchases: Hex[];
+  /** Epoch ms of the last write; informational only. */
+  savedAt: number;
+}
+
+export interface SaveFile {
+  version: number;
+  checksum?: string;
+  save: unknown;
+}
+
+export class SaveGameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveGameError";
+  }
+}
+
+/** A save written by a newer version of the game; it isn't corrupt, this version just can't read it. */
+export class NewerSaveError extends SaveGameError {
+  constructor(version: number) {
+    super(`version ${version} is newer than this game supports`);
+    this.name = "NewerSaveError";
+  }
+}
+
+export const LEGACY_KEYS = [
+  "base_level",
+  "base_score",
+  "base_hints",
+  "base_quizzes",
+  "base_theme",
+  "base_streak",
+  "base_last_gm",
+] as const;
+
+export type LegacyKeys = Partial<Record<(typeof LEGACY_KEYS)[number], string>>;
+
+export const defaultSave = (now = Date.now()): SaveGame => ({
+  progress: { level: 1, score: 0, hints: 3, quizzesSolved: 0, streak: 0, lastGM: "" },
+  theme: "dark",
+  accessible: false,
+  locale: null,
+  difficulty: DEFAULT_DIFFICULTY,
+  board: null,
+  levels: {},
+  review: {},
+  achievements: {},
+  pendingHintPurchases: [],
+  savedAt: now,
+});
+
+const legacyNumber = (raw: string | undefined, fallback: number) => {
+  const v = raw ? parseInt(raw, 10) : NaN;
+  return Number.isNaN(v) || v < 0 ? fallback : v;
+};
+
+/** Upgrades the `save` of version `n` to version `n + 1`. */
+const MIGRATIONS: Record<number, (save: unknown) => unknown> = {
+  0: (save) => {
+    const keys = (save ?? {}) as LegacyKeys;
+    const fallback = defaultSave();
+    return {
+      progress: {
+        level: legacyNumber(keys.base_level, 1) || 1,
+        score: legacyNumber(keys.base_score, 0),
+        hints: legacyNumber(keys.base_hints, fallback.progress.hints),
+        quizzesSolved: legacyNumber(keys.base_quizzes, 0),
+        streak: legacyNumber(keys.base_streak, 0),
+        lastGM: keys.base_last_gm ?? "",
+      },
+      theme: keys.base_theme === "light" ? "light" : "dark",
+      savedAt: fallback.savedAt,
+    };
+  },
+  1: (save) => ({ ...(save as object), board: null }),
+  2: (save) => {
+    const { board, ...rest } = save as { board: { snapshot: object } | null };
+    const stats = { moves: 0, mismatches: 0, hintsUsed: 0 };
+    return { ...rest, board: board && { ...board, snapshot: { ...board.snapshot, stats } }, stars: {} };
+  },
+  3: (save) => {
+    const { board, stars, ...rest } = save as { board: { snapshot: { stats: object } } | null; stars: Record<string, number> };
+    const levels = Object.fromEntries(Object.entries(stars ?? {}).map(([level, rating]) => [level, { stars: rating, bestScore: 0 }]));
+    const snapshot = board && { ...board.snapshot, stats: { ...board.snapshot.stats, points: 0 } };
+    return { ...rest, board: board && { ...board, snapshot }, levels };
+  },
+  4: (save) => ({ ...(save as object), review: {} }),
+  // Boards from before difficulty modes were dealt differently, so the level in progress starts over.
+  5: (save) => ({ ...(save as object), difficulty: DEFAULT_DIFFICULTY, board: null }),
+  6: (save) => ({ ...(save as object), achievements: {} }),
+  7: (save) => ({ ...(save as object), accessible: false }),
+  8: (save) => ({ ...(save as object), locale: null }),
+  9: (save) => ({ ...(save as object), pendingHintPurchases: [] }),
+};
+
+const checksum = (save: unknown) => hashString(JSON.stringify(save)).toString(16).padStart(8, "0");
+
+const isCountList = (v: unknown): v is number[] => Array.isArray(v) && v.every((n) => Number.isInteger(n) && n >= 0);
+
+const isStats = (v: unknown) => {
+  const stats = (typeof v === "object" && v) as Record<string, unknown> | false;
+  return !!stats && isCountList([stats.moves, stats.mismatches, stats.hintsUsed, stats.points]);
+};
+
+function validateLevels(raw: unknown): Record<number, LevelRecord> {
+  if (typeof raw !== "object" || raw === null) throw new SaveGameError("levels: must be an object");
+  const levels: Record<number, LevelRecord> = {};
+  for (const [level, record] of Object.entries(raw)) {
+    const n = Number(level);
+    const { stars, bestScore } = (record ?? {}) as Record<string, unknown>;
+    if (!Number.isInteger(n) || n < 1 || ![1, 2, 3].includes(stars as number) || !isCountList([bestScore])) {
+      throw new SaveGameError(`levels.${level}: must hold 1-3 stars and a best score`);
+    }
+    // Levels beyond a smaller content pack are kept in case it grows back.
+    levels[n] = { stars: stars as Stars, bestScore: bestScore as number };
+  }
+  return levels;
+}
+
+function validateReview(raw: unknown): ReviewDeck {
+  if (typeof raw !== "object" || raw === null) throw new SaveGameError("review: must be an object");
+  for (const [id, card] of Object.entries(raw)) {
+    const { box, due } = (card ?? {}) as Record<string, unknown>;
+    if (!isCountList([box]) || typeof due !== "number" || !Number.isFinite(due)) {
+      throw new SaveGameError(`review.${id}: must hold a box and a due time`);
+    }
+  }
+  return raw as ReviewDeck;
+}
+
+function validatePendingHintPurchases(raw: unknown): Hex[] {
+  if (!Array.isArray(raw) || !raw.every((hash) => typeof hash === "string" && /^0x[0-9a-fA-F]{64}$/.test(hash))) {
+    throw new SaveGameError("pendingHintPurchases: must be a list of transaction hashes");
+  }
+  return raw as Hex[];
+}
+
+/** Shape checks only; the engine decides whether the board fits its deal when it is resumed. */
+function validateBoard(raw: unknown, level: number): SavedBoard | null {
+  if (raw === null) return null;
+  const b = (typeof raw === "object" && raw) as Record<string, unknown> | false;
+  const snap = (b && typeof b.snapshot === "object" && b.snapshot) as Record<string, unknown> | false;
+  const run = b && (b.run as Record<string, unknown> | null);
+  if (
+    !b ||
+    !snap ||
+    typeof snap.seed !== "string" ||
+    !Number.isInteger(snap.level) ||
+    !Number.isInteger(snap.attempt) ||
+    !isDifficulty(snap.difficulty) ||
+    !isCountList(snap.matched) ||
+    !isCountList(snap.flipped) ||
+    !isCountList(snap.hinted) ||
+    !isCountList([snap.freeHints]) ||
+    !["preview", "playing", "quiz", "results", "transaction", "complete"].includes(snap.phase as string) ||
+    typeof snap.feePaid !== "boolean" ||
+    !isStats(snap.stats) ||
+    typeof b.elapsedMs !== "number" ||
+    !(b.elapsedMs >= 0) ||
+    (run !== null && (typeof run !== "object" || typeof run.seed !== "string" || !Array.isArray(run.actions)))
+  ) {
+    throw new SaveGameError("board: malformed");
+  }
+  // A board past the furthest level (e.g. after progress synced from elsewhere) is simply dropped.
+  if ((snap.level as number) > level) return null;
+  return b as unknown as SavedBoard;
+}
+
+function validateSave(raw: unknown): SaveGame {
+  if (typeof raw !== "object" || raw === null) throw new SaveGameError("save must be an object");
+  const s = raw as Record<string, unknown>;
+  if (s.theme !== "dark" && s.theme !== "light") throw new SaveGameError("theme: must be dark or light");
+  if (typeof s.accessible !== "boolean") throw new SaveGameError("accessible: must be true or false");
+  if (!isDifficulty(s.difficulty)) throw new SaveGameError("difficulty: not a known mode");
+  if (typeof s.savedAt !== "number" || !Number.isFinite(s.savedAt)) throw new SaveGameError("savedAt: must be a timestamp");
+
+  let progress = s.progress;
+  // A save can point past the end of a smaller content pack; that is not corruption.
+  if (typeof progress === "object" && progress !== null && (progress as Progress).level > TOTAL_LEVELS) {
+    progress = { ...progress, level: TOTAL_LEVELS };
+  }
+  try {
+    const parsed = parseProgress(progress);
+    return {
+      progress: parsed,
+      theme: s.theme,
+      accessible: s.accessible,
+      // A language the game no longer ships goes back to being detected.
+      locale: isLocale(s.locale) ? s.locale : null,
+      difficulty: s.difficulty,
+      board: validateBoard(s.board, parsed.level),
+      levels: validateLevels(s.levels),
+      review: validateReview(s.review),
+      achievements: parseUnlocked(s.achievements),
+      pendingHintPurchases: validatePendingHintPurchases(s.pendingHintPurchases),
+      savedAt: s.savedAt,
+    };
+  } catch (error) {
+    if (error instanceof ProgressError) throw new SaveGameError(`progress.${error.message}`);
+    if (error instanceof AchievementError) throw new SaveGameError(error.message);
+    throw error;
+  }
+}
+
+/** Migrates and validates an envelope. Throws SaveGameError for corrupt, tampered or too-new saves. */
+export function readSaveFile(file: unknown): SaveGame {
+  if (typeof file !== "object" || file === null) throw new SaveGameError("save file must be an object");
+  const { version, checksum: sum, save } = file as SaveFile;
+  if (!Number.isInteger(version) || version < 0) throw new SaveGameError("version: must be a non-negative integer");
+  if (version > SAVE_VERSION) throw new NewerSaveError(version);
+  if (version > 0 && sum !== checksum(save)) throw new SaveGameError("checksum does not match; the save is corrupt");
+
+  let upgraded = save;
+  for (let v = version; v < SAVE_VERSION; v++) upgraded = MIGRATIONS[v](upgraded);
+  return validateSave(upgraded);
+}
+
+export function parseSaveFile(text: string): SaveGame {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new SaveGameError("save file is not valid JSON");
+  }
+  return readSaveFile(file);
+}
+
+export function serializeSave(save: SaveGame): string {
+  const file: SaveFile = { version: SAVE_VERSION, checksum: checksum(save), save };
+  return JSON.stringify(file);
+}
+
+/** Whether two saves would look the same to the player, ignoring when they were written and the level clock. */
+export const sameSave = (a: SaveGame, b: SaveGame) =>
+  a.theme === b.theme &&
+  a.accessible === b.accessible &&
+  a.locale === b.locale &&
+  a.difficulty === b.difficulty &&
+  JSON.stringify(a.levels) === JSON.stringify(b.levels) &&
+  JSON.stringify(a.review) === JSON.stringify(b.review) &&
+  JSON.stringify(a.achievements) === JSON.stringify(b.achievements) &&
+  a.pendingHintPurchases.join() === b.pendingHintPurchases.join() &&
+  JSON.stringify(a.progress) === JSON.stringify(b.progress) &&
+  JSON.stringify(a.board && { ...a.board, elapsedMs: 0 }) === JSON.stringify(b.board && { ...b.board, elapsedMs: 0 });
+
+/** Keeps the better stars and score for every level found in either set of records. */
+export function mergeLevelRecords(
+  a: Record<number, LevelRecord>,
+  b: Record<number, LevelRecord>,
+): Record<number, LevelRecord> {
+  const merged = { ...a };
+  for (const [key, record] of Object.entries(b)) {
+    const level = Number(key);
+    const prev = merged[level];
+    merged[level] = prev
+      ? { stars: Math.max(prev.stars, record.stars) as Stars, bestScore: Math.max(prev.bestScore, record.bestScore) }
+      : record;
+  }
+  return merged;
+}
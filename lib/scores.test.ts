@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { SEED, playRun } from "@/test/runs";
+import { hintPrice, type HintPayment, type HintType } from "./hints";
+import { dailySeed } from "./random";
+import { RunRejectedError, getPlayerRuns, issueSeed, parseRunSubmission, recordRun, scoreRun, type RunSubmission } from "./scores";
+
+/** `run` with a hint used as soon as the preview ends. */
+function withHint(run: RunSubmission, hint: HintType, payWith: HintPayment): RunSubmission {
+  const [endPreview, ...rest] = run.actions;
+  return { ...run, score: 10_000, actions: [endPreview, { type: "useHint", hint, payWith }, { type: "endHint" }, ...rest] };
+}
+
+describe("scoreRun", () => {
+  it("scores a clean run from its replay", () => {
+    const { score, moves } = scoreRun(playRun(1));
+    expect(score).toBeGreaterThan(0);
+    expect(moves).toBeGreaterThan(0);
+  });
+
+  it("doesn't score a redealt run above a clean one", () => {
+    const clean = scoreRun(playRun(1)).score;
+    for (const failures of [1, 5, 49]) {
+      expect(scoreRun(playRun(1, failures)).score).toBeLessThanOrEqual(clean);
+    }
+  });
+
+  it("charges a hint in points whichever way it was paid for", () => {
+    const run = playRun(1);
+    const clean = scoreRun(run);
+    const byPoints = scoreRun(withHint(run, "peek", "points"));
+    const byHints = scoreRun(withHint(run, "peek", "hints"));
+    expect(clean.hintsUsed).toBe(0);
+    expect(byPoints).toMatchObject({ score: clean.score - hintPrice("peek", "points", 1), hintsUsed: 1 });
+    expect(byHints).toEqual(byPoints);
+  });
+
+  it("doesn't charge for hints the level gives for free", () => {
+    const run = playRun(1, 0, SEED, "easy");
+    expect(scoreRun(withHint(run, "card", "hints"))).toEqual({ ...scoreRun(run), hintsUsed: 1 });
+  });
+
+  it("doesn't let a bigger starting balance buy a better score", () => {
+    const run = withHint(playRun(1), "peek", "hints");
+    expect(scoreRun({ ...run, hints: 1000 })).toEqual(scoreRun({ ...run, hints: 3 }));
+  });
+
+  it("rejects a hint the run couldn't have used", () => {
+    const run = withHint(playRun(1), "peek", "hints");
+    expect(() => scoreRun({ ...run, hints: 2 })).toThrow(/actions\[1\]: the run could not use this hint/);
+    expect(() => scoreRun({ ...withHint(playRun(1), "peek", "points"), score: 0 })).toThrow(RunRejectedError);
+  });
+
+  it("rejects a run that never passes the quiz", () => {
+    const run = playRun(1);
+    expect(() => scoreRun({ ...run, actions: run.actions.slice(0, -1) })).toThrow(RunRejectedError);
+  });
+});
+
+describe("parseRunSubmission", () => {
+  it("accepts a played run", () => {
+    const run = playRun(2);
+    expect(parseRunSubmission(JSON.parse(JSON.stringify(run)))).toEqual(run);
+  });
+
+  it("rejects actions that aren't played on the board", () => {
+    const run = playRun(1);
+    expect(() => parseRunSubmission({ ...run, actions: [{ type: "payFee" }, ...run.actions] })).toThrow(RunRejectedError);
+  });
+
+  it("rejects hints that aren't on the price list", () => {
+    const run = playRun(1);
+    for (const hint of ["xray", "toString", "__proto__"]) {
+      expect(() => parseRunSubmission({ ...run, actions: [{ type: "useHint", hint }, ...run.actions] })).toThrow(RunRejectedError);
+    }
+  });
+});
+
+describe("recordRun", () => {
+  const NOW = Date.UTC(2026, 9, 18, 12);
+
+  it("records a run on a seed issued to the player", async () => {
+    const { seed } = await issueSeed(101, NOW);
+    const run = await recordRun(101, playRun(1, 0, seed), NOW);
+    expect(run).toMatchObject({ fid: 101, level: 1, seed });
+  });
+
+  it("rejects seeds the player picked", async () => {
+    await expect(recordRun(102, playRun(1, 0, "pickedseed"), NOW)).rejects.toThrow(/not issued/);
+    const { seed } = await issueSeed(103, NOW);
+    await expect(recordRun(102, playRun(1, 0, seed), NOW)).rejects.toThrow(/not issued/);
+  });
+
+  it("scores each board once", async () => {
+    const { seed } = await issueSeed(104, NOW);
+    await recordRun(104, playRun(1, 0, seed), NOW);
+    await expect(recordRun(104, playRun(1, 0, seed), NOW)).rejects.toThrow(/already been scored/);
+    await expect(recordRun(104, playRun(2, 0, seed), NOW)).resolves.toMatchObject({ level: 2 });
+  });
+
+  it("scores a board once when it is submitted twice at the same time", async () => {
+    const { seed } = await issueSeed(107, NOW);
+    const run = playRun(1, 0, seed);
+    const results = await Promise.allSettled([recordRun(107, run, NOW), recordRun(107, run, NOW + 1)]);
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(results.find((r) => r.status === "rejected")).toMatchObject({ reason: expect.any(RunRejectedError) });
+    expect(await getPlayerRuns(107)).toHaveLength(1);
+  });
+
+  it("accepts the daily board on its day and the next only", async () => {
+    const today = dailySeed(new Date(NOW));
+    await expect(recordRun(105, playRun(1, 0, today), NOW + 86_400_000)).resolves.toMatchObject({ seed: today });
+    await expect(recordRun(106, playRun(1, 0, today), NOW + 2 * 86_400_000)).rejects.toThrow(/daily board is over/);
+  });
+});
+
+describe("issueSeed", () => {
+  it("issues one seed per player per UTC day", async () => {
+    const morning = Date.UTC(2026, 9, 18, 1);
+    const first = await issueSeed(201, morning);
+    expect((await issueSeed(201, morning + 3_600_000)).seed).toBe(first.seed);
+    expect((await issueSeed(202, morning)).seed).not.toBe(first.seed);
+    expect((await issueSeed(201, morning + 86_400_000)).seed).not.toBe(first.seed);
+  });
+});
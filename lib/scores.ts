@@ -0,0 +1,319 @@
+import { DEFAULT_DIFFICULTY, isDifficulty, type Difficulty } from "./difficulty";
+import { BOARD_ACTIONS, createGameState, reduce, type GameAction } from "./engine";
+import { hintPrice, isHintPayment, isHintType } from "./hints";
+import { TOTAL_LEVELS } from "./levels";
+import { dailySeed, isDailySeed, normalizeSeed, randomSeed } from "./random";
+import { serialize } from "./serialize";
+import { getStorage } from "./storage";
+
+/**
+ * Server-authoritative scoring.
+ *
+ * Clients never report a score. They submit the seed, level and the actions
+ * they played, and the server replays them through the same engine the game
+ * runs on. Only a run that ends with the quiz answered counts. Every run is
+ * recorded with its difficulty, and leaderboards can be ranked per mode.
+ *
+ * Players don't pick their seeds either: a run only counts on a seed the
+ * server issued to the player, or on the daily board, and each board (seed,
+ * level and mode) is scored once, so a board can't be learned and played
+ * again for a better score.
+ */
+
+export interface RunSubmission {
+  seed: string;
+  level: number;
+  difficulty: Difficulty;
+  /**
+   * Hints held when the level started. Only the client vouches for them, so
+   * they decide which hints can be afforded but not what they cost the score
+   * (see `scoreRun`).
+   */
+  hints: number;
+  /**
+   * Score held when the level started; it only decides which hints bought
+   * with points can be afforded. Missing on runs from before hints could be
+   * bought with points.
+   */
+  score?: number;
+  actions: GameAction[];
+}
+
+export interface ScoreRun {
+  id: string;
+  fid: number;
+  level: number;
+  /** Missing on runs recorded before difficulty modes, which were all normal. */
+  difficulty?: Difficulty;
+  seed: string;
+  score: number;
+  moves: number;
+  /** Hints the replay used, over every deal of the run. Missing on runs recorded before they were counted. */
+  hintsUsed?: number;
+  submittedAt: number;
+}
+
+/** A seed the server dealt to a player for their runs. */
+export interface IssuedSeed {
+  fid: number;
+  seed: string;
+  issuedAt: number;
+}
+
+export type Leaderboard = "all" | "weekly" | "level";
+
+export interface LeaderboardEntry {
+  rank: number;
+  fid: number;
+  score: number;
+  levels: number;
+}
+
+export interface LeaderboardPage {
+  board: Leaderboard;
+  level?: number;
+  difficulty?: Difficulty;
+  page: number;
+  pageSize: number;
+  total: number;
+  entries: LeaderboardEntry[];
+}
+
+export class RunRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunRejectedError";
+  }
+}
+
+const MAX_ACTIONS = 2000;
+const MAX_HINTS = 1000;
+export const MAX_PAGE_SIZE = 100;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function parseAction(raw: unknown, idx: number): GameAction {
+  if (!isRecord(raw) || typeof raw.type !== "string" || !BOARD_ACTIONS.has(raw.type as GameAction["type"])) {
+    throw new RunRejectedError(`actions[${idx}]: not a board action`);
+  }
+  switch (raw.type) {
+    case "flip":
+      if (!Number.isInteger(raw.index)) throw new RunRejectedError(`actions[${idx}].index: must be an integer`);
+      return { type: "flip", index: raw.index as number };
+    case "answerQuiz":
+      if (!Number.isInteger(raw.option)) throw new RunRejectedError(`actions[${idx}].option: must be an integer`);
+      return { type: "answerQuiz", option: raw.option as number };
+    case "useHint":
+      if (raw.hint !== undefined && !isHintType(raw.hint)) throw new RunRejectedError(`actions[${idx}].hint: not a known hint`);
+      if (raw.payWith !== undefined && !isHintPayment(raw.payWith)) {
+        throw new RunRejectedError(`actions[${idx}].payWith: must be "hints" or "points"`);
+      }
+      return { type: "useHint", hint: raw.hint, payWith: raw.payWith };
+    default:
+      return { type: raw.type } as GameAction;
+  }
+}
+
+/** Checks the shape of an untrusted request body. */
+export function parseRunSubmission(raw: unknown): RunSubmission {
+  if (!isRecord(raw)) throw new RunRejectedError("body must be an object");
+  const seed = normalizeSeed(typeof raw.seed === "string" ? raw.seed : null);
+  if (!seed) throw new RunRejectedError("seed: must be a valid board seed");
+  if (!Number.isInteger(raw.level) || (raw.level as number) < 1 || (raw.level as number) > TOTAL_LEVELS) {
+    throw new RunRejectedError(`level: must be between 1 and ${TOTAL_LEVELS}`);
+  }
+  if (!isDifficulty(raw.difficulty)) throw new RunRejectedError("difficulty: not a known mode");
+  if (!Number.isInteger(raw.hints) || (raw.hints as number) < 0 || (raw.hints as number) > MAX_HINTS) {
+    throw new RunRejectedError("hints: must be a non-negative integer");
+  }
+  if (raw.score !== undefined && (!Number.isSafeInteger(raw.score) || (raw.score as number) < 0)) {
+    throw new RunRejectedError("score: must be a non-negative integer");
+  }
+  if (!Array.isArray(raw.actions) || raw.actions.length === 0 || raw.actions.length > MAX_ACTIONS) {
+    throw new RunRejectedError(`actions: must list 1-${MAX_ACTIONS} actions`);
+  }
+  return {
+    seed,
+    level: raw.level as number,
+    difficulty: raw.difficulty,
+    hints: raw.hints as number,
+    score: raw.score as number | undefined,
+    actions: raw.actions.map(parseAction),
+  };
+}
+
+/**
+ * Replays a run and returns the points it earned on the level, less any spent
+ * on hints, rejecting runs that never pass the quiz. Boards redealt after a
+ * failed quiz earn nothing: only the deal that passed counts.
+ *
+ * Hints are counted from the replay, not taken from the submission. The
+ * hints and score a run started with are only the client's word, so every
+ * hint costs its full price in points whichever way it was paid, except what
+ * the level's free hints cover. The engine only takes points-paid hints out
+ * of the points earned so far; the rest is charged here. A hint the replay
+ * couldn't use means the submission doesn't describe the run it claims, and
+ * rejects it.
+ */
+export function scoreRun(run: RunSubmission): { score: number; moves: number; hintsUsed: number } {
+  const initial = createGameState({ level: run.level, hints: run.hints, difficulty: run.difficulty, score: run.score ?? 0 });
+  let { state } = reduce(initial, { type: "deal", seed: run.seed });
+  // Hint prices the engine didn't take out of the level's points.
+  let hintCharge = 0;
+  run.actions.forEach((action, idx) => {
+    const step = reduce(state, action);
+    if (action.type === "useHint") {
+      const used = step.events.find((event) => event.type === "hintUsed");
+      if (!used) throw new RunRejectedError(`actions[${idx}]: the run could not use this hint`);
+      const points = hintPrice(used.hint, "points", run.level);
+      const free = state.freeHints - step.state.freeHints;
+      const price = used.payWith === "points" ? points : Math.ceil((points * (used.price - free)) / used.price);
+      hintCharge += price - (state.stats.points - step.state.stats.points);
+    }
+    // A redeal starts the level's points over, along with what the failed board's hints cost.
+    if (step.state.attempt !== state.attempt) hintCharge = 0;
+    state = step.state;
+  });
+  if (state.phase !== "results") {
+    throw new RunRejectedError("run does not clear the board and pass the quiz");
+  }
+  return {
+    score: Math.max(0, state.stats.points - hintCharge),
+    moves: run.actions.filter((a) => a.type === "flip").length,
+    hintsUsed: state.stats.hintsUsed,
+  };
+}
+
+const runs = () => getStorage().collection<ScoreRun>("scores");
+const seeds = () => getStorage().collection<IssuedSeed>("seeds");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Runs are stored under the board they were played on, so one board can never hold two runs. */
+const runId = (fid: number, { seed, level, difficulty }: RunSubmission) => `${fid}:${seed}:${level}:${difficulty}`;
+
+/**
+ * The seed for the player's next run. A player gets one new seed per UTC
+ * day; asking again the same day returns it, so there is no rerolling for an
+ * easier deal.
+ */
+export async function issueSeed(fid: number, now = Date.now()): Promise<IssuedSeed> {
+  const today = now - (now % DAY_MS);
+  const current = (await seeds().list()).find((s) => s.fid === fid && s.issuedAt >= today);
+  if (current) return current;
+  const issued: IssuedSeed = { fid, seed: randomSeed(12), issuedAt: now };
+  await seeds().put(`${fid}:${issued.seed}`, issued);
+  return issued;
+}
+
+/** Daily boards count on their day and the next, so a run that crosses midnight UTC still does. */
+async function checkBoard(fid: number, submission: RunSubmission, now: number) {
+  const { seed, level, difficulty } = submission;
+  if (isDailySeed(seed)) {
+    if (seed !== dailySeed(new Date(now)) && seed !== dailySeed(new Date(now - DAY_MS))) {
+      throw new RunRejectedError("seed: that daily board is over");
+    }
+  } else if (!(await seeds().get(`${fid}:${seed}`))) {
+    throw new RunRejectedError("seed: was not issued to this player");
+  }
+  // Runs recorded before they were keyed by board have ids of their own, so those are matched field by field.
+  const played =
+    (await runs().get(runId(fid, submission))) ||
+    (await getPlayerRuns(fid)).some(
+      (run) => run.seed === seed && run.level === level && (run.difficulty ?? DEFAULT_DIFFICULTY) === difficulty,
+    );
+  if (played) throw new RunRejectedError("this board has already been scored");
+}
+
+export async function recordRun(fid: number, submission: RunSubmission, now = Date.now()): Promise<ScoreRun> {
+  const { score, moves, hintsUsed } = scoreRun(submission);
+  // One submission per seed at a time, so a double submit can't pass the check twice before either is stored.
+  return serialize(`runs:${fid}:${submission.seed}`, async () => {
+    await checkBoard(fid, submission, now);
+    const run: ScoreRun = {
+      id: runId(fid, submission),
+      fid,
+      level: submission.level,
+      difficulty: submission.difficulty,
+      seed: submission.seed,
+      score,
+      moves,
+      hintsUsed,
+      submittedAt: now,
+    };
+    await runs().put(run.id, run);
+    return run;
+  });
+}
+
+export async function getPlayerRuns(fid: number): Promise<ScoreRun[]> {
+  return (await runs().list()).filter((run) => run.fid === fid);
+}
+
+/** Monday 00:00 UTC of the week containing `now`. */
+export function startOfWeek(now: number) {
+  const d = new Date(now);
+  d.setUTCHours(0, 0, 0, 0);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.getTime();
+}
+
+/**
+ * Ranks players by their best score on each level, summed over levels.
+ * Ties go to whoever reached the score first.
+ */
+export function rankRuns(all: ScoreRun[]): Omit<LeaderboardEntry, "rank">[] {
+  const best = new Map<string, ScoreRun>();
+  for (const run of all) {
+    const key = `${run.fid}:${run.level}`;
+    const current = best.get(key);
+    if (!current || run.score > current.score || (run.score === current.score && run.submittedAt < current.submittedAt)) {
+      best.set(key, run);
+    }
+  }
+
+  const players = new Map<number, { fid: number; score: number; levels: number; reachedAt: number }>();
+  for (const run of best.values()) {
+    const player = players.get(run.fid) ?? { fid: run.fid, score: 0, levels: 0, reachedAt: 0 };
+    player.score += run.score;
+    player.levels += 1;
+    player.reachedAt = Math.max(player.reachedAt, run.submittedAt);
+    players.set(run.fid, player);
+  }
+
+  return [...players.values()]
+    .sort((a, b) => b.score - a.score || a.reachedAt - b.reachedAt)
+    .map(({ fid, score, levels }) => ({ fid, score, levels }));
+}
+
+export async function getLeaderboard(
+  board: Leaderboard,
+  {
+    level,
+    difficulty,
+    page = 1,
+    pageSize = 20,
+    now = Date.now(),
+  }: { level?: number; difficulty?: Difficulty; page?: number; pageSize?: number; now?: number } = {},
+): Promise<LeaderboardPage> {
+  let all = await runs().list();
+  if (difficulty) all = all.filter((run) => (run.difficulty ?? DEFAULT_DIFFICULTY) === difficulty);
+  if (board === "weekly") {
+    const since = startOfWeek(now);
+    all = all.filter((run) => run.submittedAt >= since);
+  } else if (board === "level") {
+    all = all.filter((run) => run.level === level);
+  }
+
+  const ranked = rankRuns(all);
+  const start = (page - 1) * pageSize;
+  return {
+    board,
+    ...(board === "level" ? { level } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    page,
+    pageSize,
+    total: ranked.length,
+    entries: ranked.slice(start, start + pageSize).map((entry, idx) => ({ rank: start + idx + 1, ...entry })),
+  };
+}
@@ -0,0 +1,18 @@
+// Route handlers can each get their own copy of a module, so the queues hang off globalThis.
+const shared = globalThis as typeof globalThis & { serialQueues?: Map<string, Promise<unknown>> };
+const queues = (shared.serialQueues ??= new Map<string, Promise<unknown>>());
+
+/**
+ * Runs `task` once every task queued before it on `key` has settled, so two
+ * requests can't interleave their reads and writes of the same record. Keys
+ * are shared by every module in the process; prefix them with what they guard.
+ */
+export function serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const next = (queues.get(key) ?? Promise.resolve()).then(task);
+  const settled = next.catch(() => undefined);
+  queues.set(key, settled);
+  void settled.then(() => {
+    if (queues.get(key) === settled) queues.delete(key);
+  });
+  return next;
+}
@@ -0,0 +1,198 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { ImageResponse } from "next/og";
+import type { ReactElement } from "react";
+import { minikitConfig } from "@/minikit.config";
+import { badgeArt } from "./badges";
+import { DEFAULT_DIFFICULTY, type Difficulty } from "./difficulty";
+import { createTranslator, DEFAULT_LOCALE, type Locale, type Translator } from "./i18n";
+import { localizedLevels, TOTAL_LEVELS } from "./levels";
+import { getProfile } from "./profiles";
+import { getPlayerRuns, rankRuns, type ScoreRun } from "./scores";
+
+/**
+ * Share cards: the images casts of the game unfurl into.
+ *
+ * Cards are drawn with `next/og` at the 3:2 ratio mini app embeds use. The
+ * fonts ship in `assets/fonts` and are read from disk, so rendering never
+ * reaches out to a font service. A player's card is built from their
+ * verified runs, not the progress their client reports, so the score on it
+ * is one the server has replayed. Cards are drawn in the language of the
+ * player who shared them, passed along as `?lang=`.
+ */
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 800;
+
+const FONT_FAMILY = "Source Code Pro";
+
+/** Locales the bundled fonts have glyphs for; cards in any other are drawn in English. */
+const CARD_LOCALES: ReadonlySet<Locale> = new Set(["en", "es"]);
+
+export const cardTranslator = (locale: Locale): Translator =>
+  createTranslator(CARD_LOCALES.has(locale) ? locale : DEFAULT_LOCALE);
+
+let fonts: Promise<{ name: string; data: Buffer; weight: 400 | 700; style: "normal" }[]> | undefined;
+
+function loadFonts() {
+  fonts ??= Promise.all(
+    ([
+      ["SourceCodePro-Regular.ttf", 400],
+      ["SourceCodePro-Bold.ttf", 700],
+    ] as const).map(async ([file, weight]) => ({
+      name: FONT_FAMILY,
+      data: await readFile(join(process.cwd(), "assets/fonts", file)),
+      weight,
+      style: "normal" as const,
+    })),
+  );
+  return fonts;
+}
+
+/** Draws a card inside the game's frame, with the app's name along the bottom. */
+export async function renderCard(content: ReactElement, { maxAge }: { maxAge: number }) {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          padding: 72,
+          background: "linear-gradient(135deg, #0052ff 0%, #1e1b4b 100%)",
+          color: "white",
+          fontFamily: FONT_FAMILY,
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column", flexGrow: 1, justifyContent: "center" }}>{content}</div>
+        <div style={{ fontSize: 28, opacity: 0.6 }}>{minikitConfig.miniapp.name}</div>
+      </div>
+    ),
+    {
+      width: CARD_WIDTH,
+      height: CARD_HEIGHT,
+      fonts: await loadFonts(),
+      headers: { "Cache-Control": `public, max-age=${maxAge}` },
+    },
+  );
+}
+
+export interface PlayerCard {
+  fid: number;
+  /** Furthest layer reached, from the synced profile or the verified runs, whichever is further. */
+  levelReached: number;
+  /** Best verified score on each level, summed, as on the all-time leaderboard. */
+  score: number;
+  streak: number;
+  /** Levels with a verified clear, each of which earns that level's badge. */
+  badges: number[];
+  /** The player's best run on the level the card is about, if it asks for one. */
+  cleared?: { level: number; score: number; difficulty: Difficulty };
+}
+
+/** Gathers a player's card, or null if they have neither a profile nor a verified run. */
+export async function getPlayerCard(fid: number, level?: number): Promise<PlayerCard | null> {
+  const [profile, runs] = await Promise.all([getProfile(fid), getPlayerRuns(fid)]);
+  if (!profile && runs.length === 0) return null;
+
+  const badges = [...new Set(runs.map((run) => run.level))].sort((a, b) => a - b);
+  let best: ScoreRun | undefined;
+  for (const run of runs) {
+    if (run.level === level && (!best || run.score > best.score)) best = run;
+  }
+  return {
+    fid,
+    levelReached: Math.max(profile?.level ?? 1, ...badges.map((cleared) => Math.min(cleared + 1, TOTAL_LEVELS))),
+    score: rankRuns(runs)[0]?.score ?? 0,
+    streak: profile?.streak ?? 0,
+    badges,
+    ...(best ? { cleared: { level: best.level, score: best.score, difficulty: best.difficulty ?? DEFAULT_DIFFICULTY } } : {}),
+  };
+}
+
+/**
+ * Where the card's image is served. Casts cache images by URL, so the URL
+ * carries a version made of everything on the card and changes with it.
+ */
+export function playerCardImageUrl(card: PlayerCard, locale: Locale) {
+  const params = new URLSearchParams({ fid: String(card.fid) });
+  if (card.cleared) params.set("level", String(card.cleared.level));
+  if (locale !== DEFAULT_LOCALE) params.set("lang", locale);
+  params.set("v", [card.levelReached, card.score, card.streak, card.badges.length, card.cleared?.score ?? ""].join("-"));
+  return `${minikitConfig.miniapp.homeUrl}/api/og?${params}`;
+}
+
+/** The page a player shares; it unfurls into their card. */
+export const sharePageUrl = (fid: number, level?: number) =>
+  `${minikitConfig.miniapp.homeUrl}/share/${fid}${level === undefined ? "" : `?level=${level}`}`;
+
+// Satori needs a flex container for more than one child, so text with values in it is built as one string.
+
+/** How many badges fit on one row of the card. */
+const BADGE_ROW = 12;
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div style={{ display: "flex", flexDirection: "column", marginRight: 72 }}>
+    <div style={{ fontSize: 28, opacity: 0.7 }}>{label}</div>
+    <div style={{ fontSize: 64, fontWeight: 700 }}>{value}</div>
+  </div>
+);
+
+export function PlayerCardView({ card, translator }: { card: PlayerCard; translator: Translator }) {
+  const { t, formatNumber } = translator;
+  const { cleared } = card;
+  const shown = card.badges.slice(0, BADGE_ROW);
+  return (
+    <div style={{ display: "flex", flexDirection: "column" }}>
+      <div style={{ fontSize: 36, opacity: 0.8 }}>{t("player.fid", { fid: String(card.fid) })}</div>
+      {cleared ? (
+        <div style={{ display: "flex", flexDirection: "column", marginTop: 8 }}>
+          <div style={{ fontSize: 60, fontWeight: 700 }}>{t("shareCard.cleared", { level: cleared.level })}</div>
+          <div style={{ fontSize: 36, opacity: 0.8, marginTop: 8 }}>
+            {t("shareCard.clearedDetail", {
+              theme: localizedLevels(translator.locale)[cleared.level - 1].theme,
+              difficulty: t(`difficulty.${cleared.difficulty}`),
+              count: cleared.score,
+            })}
+          </div>
+        </div>
+      ) : (
+        <div style={{ fontSize: 60, fontWeight: 700, marginTop: 8 }}>{t("shareCard.reached", { level: card.levelReached })}</div>
+      )}
+      <div style={{ display: "flex", marginTop: 56 }}>
+        <Stat label={t("shareCard.layer")} value={formatNumber(card.levelReached)} />
+        <Stat label={t("shareCard.score")} value={formatNumber(card.score)} />
+        <Stat label={t("shareCard.streak")} value={t("shareCard.days", { count: card.streak })} />
+      </div>
+      <div style={{ display: "flex", alignItems: "center", marginTop: 48 }}>
+        <div style={{ fontSize: 28, opacity: 0.7, marginRight: 24 }}>{t("shareCard.badges")}</div>
+        {shown.length === 0 && <div style={{ fontSize: 28, opacity: 0.7 }}>{t("shareCard.noBadges")}</div>}
+        {shown.map((level) => {
+          const { hue, accent, initials } = badgeArt(level);
+          return (
+            <div
+              key={level}
+              style={{
+                width: 64,
+                height: 64,
+                marginRight: 12,
+                borderRadius: 32,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                fontSize: 20,
+                fontWeight: 700,
+                background: `linear-gradient(135deg, hsl(${hue},80%,45%), hsl(${accent},80%,30%))`,
+                border: level === cleared?.level ? "4px solid white" : "2px solid rgba(255,255,255,0.25)",
+              }}
+            >
+              {initials}
+            </div>
+          );
+        })}
+        {card.badges.length > shown.length && <div style={{ fontSize: 28, opacity: 0.7 }}>{`+${formatNumber(card.badges.length - shown.length)}`}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Server-side persistence.
+ *
+ * Features store their records in named collections of JSON values keyed by
+ * string. The adapter is picked with `STORAGE_ADAPTER`:
+ *
+ * - `file` (default): one JSON file per collection under `DATA_DIR` (`.data`),
+ *   for local development and single-instance deployments.
+ * - `memory`: process memory only, for tests and previews.
+ *
+ * Anything that can get, put, delete and list by key can implement `Storage`.
+ */
+
+export interface Collection<T> {
+  get(key: string): Promise<T | undefined>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<T[]>;
+}
+
+export interface Storage {
+  collection<T>(name: string): Collection<T>;
+}
+
+export class MemoryStorage implements Storage {
+  private collections = new Map<string, Map<string, unknown>>();
+
+  collection<T>(name: string): Collection<T> {
+    let records = this.collections.get(name);
+    if (!records) {
+      records = new Map();
+      this.collections.set(name, records);
+    }
+    const map = records as Map<string, T>;
+    return {
+      get: async (key) => map.get(key),
+      put: async (key, value) => {
+        map.set(key, value);
+      },
+      delete: async (key) => {
+        map.delete(key);
+      },
+      list: async () => [...map.values()],
+    };
+  }
+}
+
+export class FileStorage implements Storage {
+  private cache = new Map<string, Promise<Record<string, unknown>>>();
+  // Writes to a collection are chained so concurrent requests cannot interleave a read-modify-write.
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly dir: string) {}
+
+  private file(name: string) {
+    if (!/^[a-z0-9_-]+$/i.test(name)) throw new Error(`Invalid collection name "${name}"`);
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  private load(name: string) {
+    let records = this.cache.get(name);
+    if (!records) {
+      records = fs
+        .readFile(this.file(name), "utf8")
+        .then((raw) => JSON.parse(raw) as Record<string, unknown>)
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code === "ENOENT") return {};
+          throw error;
+        });
+      this.cache.set(name, records);
+    }
+    return records;
+  }
+
+  private update(name: string, mutate: (records: Record<string, unknown>) => void) {
+    const previous = this.writes.get(name) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const records = await this.load(name);
+      mutate(records);
+      await fs.mkdir(this.dir, { recursive: true });
+      const target = this.file(name);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(records));
+      await fs.rename(tmp, target);
+    });
+    this.writes.set(name, next.catch(() => undefined));
+    return next;
+  }
+
+  collection<T>(name: string): Collection<T> {
+    return {
+      get: async (key) => (await this.load(name))[key] as T | undefined,
+      put: (key, value) =>
+        this.update(name, (records) => {
+          records[key] = value;
+        }),
+      delete: (key) =>
+        this.update(name, (records) => {
+          delete records[key];
+        }),
+      list: async () => Object.values(await this.load(name)) as T[],
+    };
+  }
+}
+
+let storage: Storage | undefined;
+
+export function getStorage(): Storage {
+  if (!storage) {
+    const adapter = process.env.STORAGE_ADAPTER ?? "file";
+    if (adapter === "memory") {
+      storage = new MemoryStorage();
+    } else if (adapter === "file") {
+      storage = new FileStorage(path.resolve(process.env.DATA_DIR ?? ".data"));
+    } else {
+      throw new Error(`Unknown STORAGE_ADAPTER "${adapter}"`);
+    }
+  }
+  return storage;
+}
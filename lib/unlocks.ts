@@ -0,0 +1,39 @@
+import type { Translator } from "./i18n";
+import { LEVEL_DATA, TOTAL_LEVELS } from "./levels";
+import type { LevelRecord } from "./saveGame";
+
+/**
+ * Level select unlocks. A level the player has already reached is always
+ * open; anything further is checked against the `unlock` rule in its content,
+ * which by default only asks for the previous level to be cleared.
+ */
+
+export interface UnlockState {
+  furthestLevel: number;
+  records: Record<number, LevelRecord>;
+}
+
+/** What a locked level is waiting for: the level before it cleared, or this many more stars. */
+export type UnlockRequirement = { clear: number } | { stars: number };
+
+export type UnlockStatus = { unlocked: true } | { unlocked: false; requires: UnlockRequirement };
+
+export const totalStars = (records: Record<number, LevelRecord>) =>
+  Object.entries(records).reduce((sum, [level, r]) => (Number(level) <= TOTAL_LEVELS ? sum + r.stars : sum), 0);
+
+export function unlockStatus(level: number, { furthestLevel, records }: UnlockState): UnlockStatus {
+  if (level <= 1 || level <= furthestLevel) return { unlocked: true };
+
+  const { clearPrevious = true, stars = 0 } = LEVEL_DATA[level]?.unlock ?? {};
+  // Levels before the furthest were cleared on the way, even if they predate level records.
+  if (clearPrevious && !records[level - 1] && level - 1 >= furthestLevel) {
+    return { unlocked: false, requires: { clear: level - 1 } };
+  }
+  const earned = totalStars(records);
+  if (earned < stars) return { unlocked: false, requires: { stars: stars - earned } };
+  return { unlocked: true };
+}
+
+/** A locked level's requirement, as the level select words it. */
+export const requirementText = (requires: UnlockRequirement, t: Translator["t"]) =>
+  "clear" in requires ? t("unlock.clearPrevious", { level: requires.clear }) : t("unlock.stars", { count: requires.stars });
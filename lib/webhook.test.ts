@@ -0,0 +1,120 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/webhook/route";
+import { appKey, fakeFarcaster, signerEvent } from "@/test/farcaster";
+import { getNotificationRecords, sendNotification } from "./notifications";
+import { WebhookError, parseWebhookEvent, verifyAppKeyWithHub } from "./webhook";
+
+const details = (client: string) => ({ url: `https://${client}.example/notify`, token: `${client}-token` });
+const notification = { notificationId: "daily", title: "New board", body: "Today's board is up", targetUrl: "https://game.example" };
+
+let farcaster: ReturnType<typeof fakeFarcaster>;
+beforeEach(() => {
+  farcaster = fakeFarcaster();
+  vi.stubGlobal("fetch", farcaster.fetch);
+});
+afterEach(() => vi.unstubAllGlobals());
+
+describe("parseWebhookEvent", () => {
+  const client = appKey();
+  const active = async () => true;
+
+  it("accepts an event signed by an active app key", async () => {
+    const body = client.signEvent(1, { event: "notifications_enabled", notificationDetails: details("warpcast") });
+    await expect(parseWebhookEvent(body, active)).resolves.toEqual({
+      fid: 1,
+      appKey: client.key,
+      event: { event: "notifications_enabled", notificationDetails: details("warpcast") },
+    });
+  });
+
+  it("rejects a payload that isn't the one signed", async () => {
+    const body = client.signEvent(1, { event: "miniapp_removed" });
+    const forged = { ...body, payload: client.signEvent(1, { event: "notifications_disabled" }).payload };
+    await expect(parseWebhookEvent(forged, active)).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("rejects a key signed for another fid", async () => {
+    const body = client.signEvent(1, { event: "miniapp_removed" });
+    await expect(parseWebhookEvent(body, async () => false)).rejects.toThrow(WebhookError);
+  });
+});
+
+describe("verifyAppKeyWithHub", () => {
+  const { key } = appKey();
+  const other = appKey().key;
+
+  it("accepts a key whose latest event adds it", async () => {
+    farcaster.signers.set(10, [signerEvent(key, "ADD", 100), signerEvent(other, "REMOVE", 120)]);
+    await expect(verifyAppKeyWithHub(10, key)).resolves.toBe(true);
+  });
+
+  it("refuses a key that was added and later removed", async () => {
+    // The hub doesn't promise an order, so the removal comes first here.
+    farcaster.signers.set(11, [signerEvent(key, "REMOVE", 120), signerEvent(key, "ADD", 100)]);
+    await expect(verifyAppKeyWithHub(11, key)).resolves.toBe(false);
+  });
+
+  it("orders events within a block by log index", async () => {
+    farcaster.signers.set(12, [signerEvent(key, "ADD", 100, 3), signerEvent(key, "ADMIN_RESET", 100, 1)]);
+    await expect(verifyAppKeyWithHub(12, key)).resolves.toBe(true);
+    farcaster.signers.set(13, [signerEvent(key, "ADD", 100, 1), signerEvent(key, "ADMIN_RESET", 100, 3)]);
+    await expect(verifyAppKeyWithHub(13, key)).resolves.toBe(false);
+  });
+
+  it("refuses a key the fid never added", async () => {
+    farcaster.signers.set(14, [signerEvent(other, "ADD", 100)]);
+    await expect(verifyAppKeyWithHub(14, key)).resolves.toBe(false);
+  });
+});
+
+describe("POST /api/webhook", () => {
+  const post = (body: object) =>
+    POST(new NextRequest("http://localhost/api/webhook", { method: "POST", body: JSON.stringify(body) }));
+
+  it("keeps a token for each client the player uses", async () => {
+    const [warpcast, base] = [appKey(), appKey()];
+    farcaster.signers.set(20, [signerEvent(warpcast.key, "ADD", 100), signerEvent(base.key, "ADD", 110)]);
+
+    expect((await post(warpcast.signEvent(20, { event: "miniapp_added", notificationDetails: details("warpcast") }))).status).toBe(200);
+    expect((await post(base.signEvent(20, { event: "notifications_enabled", notificationDetails: details("base") }))).status).toBe(200);
+    expect((await getNotificationRecords(20)).map((r) => r.token).sort()).toEqual(["base-token", "warpcast-token"]);
+
+    await expect(sendNotification(20, notification)).resolves.toBe("success");
+    expect(farcaster.sent.map((s) => [s.url, s.tokens])).toEqual(
+      expect.arrayContaining([
+        [details("warpcast").url, ["warpcast-token"]],
+        [details("base").url, ["base-token"]],
+      ]),
+    );
+  });
+
+  it("only drops the token of the client that turned notifications off", async () => {
+    const [warpcast, base] = [appKey(), appKey()];
+    farcaster.signers.set(21, [signerEvent(warpcast.key, "ADD", 100), signerEvent(base.key, "ADD", 110)]);
+    await post(warpcast.signEvent(21, { event: "notifications_enabled", notificationDetails: details("warpcast") }));
+    await post(base.signEvent(21, { event: "notifications_enabled", notificationDetails: details("base") }));
+
+    expect((await post(base.signEvent(21, { event: "notifications_disabled" }))).status).toBe(200);
+    expect((await getNotificationRecords(21)).map((r) => r.token)).toEqual(["warpcast-token"]);
+  });
+
+  it("refuses events from a removed app key", async () => {
+    const client = appKey();
+    farcaster.signers.set(22, [signerEvent(client.key, "ADD", 100), signerEvent(client.key, "REMOVE", 130)]);
+
+    const res = await post(client.signEvent(22, { event: "notifications_enabled", notificationDetails: details("warpcast") }));
+    expect(res.status).toBe(401);
+    expect(await getNotificationRecords(22)).toEqual([]);
+  });
+
+  it("refuses a bad signature", async () => {
+    const client = appKey();
+    farcaster.signers.set(23, [signerEvent(client.key, "ADD", 100)]);
+    const body = client.signEvent(23, { event: "notifications_enabled", notificationDetails: details("warpcast") });
+
+    const res = await post({ ...body, signature: appKey().signEvent(23, {}).signature });
+    expect(res.status).toBe(401);
+    expect(await getNotificationRecords(23)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { createPublicKey, verify } from "crypto";
+import type { NotificationDetails } from "./notifications";
+
+/**
+ * Verification of mini app webhook events.
+ *
+ * Farcaster clients POST events as a JSON Farcaster Signature: base64url
+ * `header`, `payload` and `signature`. The header names the player's FID and
+ * the Ed25519 app key that signed `${header}.${payload}`. An event is only
+ * trusted when the signature checks out and that key is an active app key
+ * of the FID.
+ */
+
+export type WebhookEvent =
+  | { event: "miniapp_added"; notificationDetails?: NotificationDetails }
+  | { event: "miniapp_removed" }
+  | { event: "notifications_enabled"; notificationDetails: NotificationDetails }
+  | { event: "notifications_disabled" };
+
+export interface VerifiedWebhookEvent {
+  fid: number;
+  appKey: string;
+  event: WebhookEvent;
+}
+
+/** Resolves whether `key` (0x-prefixed hex) is an active app key for `fid`. */
+export type AppKeyVerifier = (fid: number, key: string) => Promise<boolean>;
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function decodeJson(segment: string, name: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+    if (isRecord(value)) return value;
+  } catch {
+    // fall through to the error below
+  }
+  throw new WebhookError(`${name} is not base64url encoded JSON`, 400);
+}
+
+function parseNotificationDetails(raw: unknown): NotificationDetails | undefined {
+  if (!isRecord(raw) || typeof raw.token !== "string" || typeof raw.url !== "string") return undefined;
+  try {
+    if (new URL(raw.url).protocol !== "https:") return undefined;
+  } catch {
+    return undefined;
+  }
+  return { url: raw.url, token: raw.token };
+}
+
+function parseEvent(payload: Record<string, unknown>): WebhookEvent {
+  switch (payload.event) {
+    case "miniapp_added": {
+      const notificationDetails = parseNotificationDetails(payload.notificationDetails);
+      return notificationDetails ? { event: "miniapp_added", notificationDetails } : { event: "miniapp_added" };
+    }
+    case "notifications_enabled": {
+      const notificationDetails = parseNotificationDetails(payload.notificationDetails);
+      if (!notificationDetails) throw new WebhookError("notifications_enabled without valid notificationDetails", 400);
+      return { event: "notifications_enabled", notificationDetails };
+    }
+    case "miniapp_removed":
+    case "notifications_disabled":
+      return { event: payload.event };
+    default:
+      throw new WebhookError(`Unsupported event ${JSON.stringify(payload.event)}`, 400);
+  }
+}
+
+function verifySignature(header: string, payload: string, signature: string, key: string) {
+  const raw = Buffer.from(key.slice(2), "hex");
+  if (raw.length !== 32) throw new WebhookError("App key must be a 32 byte Ed25519 public key", 400);
+  const publicKey = createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: raw.toString("base64url") }, format: "jwk" });
+  return verify(null, Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, "base64url"));
+}
+
+export async function parseWebhookEvent(body: unknown, verifyAppKey: AppKeyVerifier): Promise<VerifiedWebhookEvent> {
+  if (!isRecord(body) || typeof body.header !== "string" || typeof body.payload !== "string" || typeof body.signature !== "string") {
+    throw new WebhookError("Body must be a JSON Farcaster Signature with header, payload and signature", 400);
+  }
+
+  const header = decodeJson(body.header, "header");
+  const fid = header.fid;
+  const key = header.key;
+  if (header.type !== "app_key" || !Number.isInteger(fid) || typeof key !== "string" || !/^0x[0-9a-fA-F]+$/.test(key)) {
+    throw new WebhookError("Header must name an fid and an app_key", 400);
+  }
+
+  if (!verifySignature(body.header, body.payload, body.signature, key)) {
+    throw new WebhookError("Invalid signature", 401);
+  }
+
+  let active: boolean;
+  try {
+    active = await verifyAppKey(fid as number, key.toLowerCase());
+  } catch (error) {
+    console.error("App key verification failed:", error);
+    throw new WebhookError("Could not verify app key", 503);
+  }
+  if (!active) throw new WebhookError("App key is not active for this fid", 401);
+
+  return { fid: fid as number, appKey: key.toLowerCase(), event: parseEvent(decodeJson(body.payload, "payload")) };
+}
+
+/**
+ * Looks the key up in a Farcaster hub's onchain signer events. Only the key's latest event counts,
+ * so a key that was added and later removed (or reset by the admin) is not active.
+ * Defaults to Neynar's hosted hub; set `FARCASTER_HUB_URL` to use another and `NEYNAR_API_KEY` to authenticate.
+ */
+export const verifyAppKeyWithHub: AppKeyVerifier = async (fid, key) => {
+  const hub = process.env.FARCASTER_HUB_URL ?? "https://hub-api.neynar.com";
+  const headers: Record<string, string> = {};
+  if (process.env.NEYNAR_API_KEY) headers["x-api-key"] = process.env.NEYNAR_API_KEY;
+
+  const res = await fetch(`${hub}/v1/onChainSignersByFid?fid=${fid}`, { headers });
+  if (!res.ok) throw new Error(`Hub responded with ${res.status}`);
+  const { events = [] } = (await res.json()) as {
+    events?: { blockNumber?: number; logIndex?: number; signerEventBody?: { key?: string; eventType?: string } }[];
+  };
+  const latest = events
+    .filter((e) => e.signerEventBody?.key?.toLowerCase() === key)
+    .sort((a, b) => (a.blockNumber ?? 0) - (b.blockNumber ?? 0) || (a.logIndex ?? 0) - (b.logIndex ?? 0))
+    .at(-1);
+  return latest?.signerEventBody?.eventType === "SIGNER_EVENT_TYPE_ADD";
+};
@@ -1,39 +1,54 @@
+import type { MiniAppFields } from "@coinbase/onchainkit/minikit";
+import app from "./content/app.json";
+
 const ROOT_URL =
   process.env.NEXT_PUBLIC_URL ||
   (process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`) ||
   "http://localhost:3000";
 
+/** Image paths in `content/app.json` are relative to the app's root URL. */
+const absolute = (url: string) => new URL(url, ROOT_URL).toString();
+
 /**
  * MiniApp configuration object. Must follow the mini app manifest specification.
  *
+ * The listing comes from `content/app.json` and the deployment from the
+ * environment: `NEXT_PUBLIC_URL`, the `FARCASTER_ACCOUNT_*` signature made by
+ * `npm run sign-manifest` and `BASE_BUILDER_ADDRESS`. The signature and the
+ * builder address are only read on the server. `lib/manifest.ts` checks the
+ * result when `/.well-known/farcaster.json` is built.
+ *
  * @see {@link https://docs.base.org/mini-apps/features/manifest}
  */
 export const minikitConfig = {
   accountAssociation: {
-    header: "",
-    payload: "",
-    signature: "",
+    header: process.env.FARCASTER_ACCOUNT_HEADER ?? "",
+    payload: process.env.FARCASTER_ACCOUNT_PAYLOAD ?? "",
+    signature: process.env.FARCASTER_ACCOUNT_SIGNATURE ?? "",
   },
   baseBuilder: {
-    ownerAddress: "",
+    ownerAddress: process.env.BASE_BUILDER_ADDRESS ?? "",
   },
   miniapp: {
     version: "1",
-    name: "memorygame2026",
-    subtitle: "",
-    description: "",
-    screenshotUrls: [],
-    iconUrl: `${ROOT_URL}/icon.png`,
-    splashImageUrl: `${ROOT_URL}/splash.png`,
-    splashBackgroundColor: "#000000",
+    name: app.name,
+    subtitle: app.subtitle,
+    description: app.description,
+    screenshotUrls: app.screenshotUrls.map(absolute),
+    iconUrl: absolute(app.iconUrl),
+    splashImageUrl: absolute(app.splashImageUrl),
+    splashBackgroundColor: app.splashBackgroundColor,
     homeUrl: ROOT_URL,
     webhookUrl: `${ROOT_URL}/api/webhook`,
-    primaryCategory: "utility",
-    tags: ["example"],
-    heroImageUrl: `${ROOT_URL}/hero.png`,
-    tagline: "",
-    ogTitle: "",
-    ogDescription: "",
-    ogImageUrl: `${ROOT_URL}/hero.png`,
+    // Checked against the list of categories with the rest of the manifest.
+    primaryCategory: app.primaryCategory as NonNullable<MiniAppFields["primaryCategory"]>,
+    tags: app.tags,
+    heroImageUrl: absolute(app.heroImageUrl),
+    tagline: app.tagline,
+    ogTitle: app.ogTitle,
+    ogDescription: app.ogDescription,
+    ogImageUrl: absolute(app.ogImageUrl),
   },
-} as const;
+};
+
+export type MinikitConfig = typeof minikitConfig;
@@ -1,6 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Share cards read their fonts from disk, so deployments have to ship them with the routes that draw cards.
+  outputFileTracingIncludes: {
+    "/api/og": ["./assets/fonts/**"],
+    "/api/challenges/[id]/image": ["./assets/fonts/**"],
+  },
   webpack: (config) => {
     config.externals.push("pino-pretty", "lokijs", "encoding");
     return config;
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+// Lists the translations each locale is missing, for the interface strings and the level packs.
+//
+//   npm run i18n:report [-- --strict]
+//
+// English is the source. Interface strings are compared key by key with content/locales/en.json:
+// missing and stale keys, plural messages without every category the locale's plural rules use,
+// and placeholders that differ from English. Each level pack content/levels/<pack>.json is compared
+// with its <pack>.<locale>.json overlay, field by field. The game falls back to English for anything
+// missing, so gaps only fail the build with --strict; files that cannot be read always do. Writes the
+// full list to i18n-report.json and prints a summary.
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+
+const LOCALES_DIR = "content/locales";
+const LEVELS_DIR = "content/levels";
+const SOURCE = "en";
+const OUTPUT = "i18n-report.json";
+
+const { values } = parseArgs({ options: { strict: { type: "boolean", default: false } } });
+
+function read(path) {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    console.error(`i18n-report: ${path} could not be read: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+const placeholders = (message) => {
+  const texts = typeof message === "string" ? [message] : Object.values(message);
+  return [...new Set(texts.flatMap((text) => [...text.matchAll(/\{(\w+)\}/g)].map((m) => m[1])))].sort();
+};
+
+function checkStrings(locale, source, strings) {
+  const categories = new Intl.PluralRules(locale).resolvedOptions().pluralCategories;
+  const issues = { missing: [], stale: [], plurals: [], placeholders: [] };
+  for (const [key, english] of Object.entries(source)) {
+    const message = strings[key];
+    if (message === undefined) {
+      issues.missing.push(key);
+      continue;
+    }
+    if (typeof english !== "string") {
+      const absent = typeof message === "string" ? categories : categories.filter((c) => !(c in message));
+      if (absent.length > 0) issues.plurals.push({ key, categories: absent });
+    }
+    const expected = placeholders(english).join();
+    if (placeholders(message).join() !== expected) issues.placeholders.push({ key, expected: placeholders(english) });
+  }
+  issues.stale = Object.keys(strings).filter((key) => !(key in source));
+  return issues;
+}
+
+function checkLevels(pack, overlay) {
+  if (!overlay) return [`${pack.id}: no translation`];
+  const missing = [];
+  const gap = (value, path) => {
+    if (typeof value !== "string" || value.trim() === "") missing.push(path);
+  };
+  pack.levels.forEach((level, i) => {
+    const at = `${pack.id} level ${i + 1}`;
+    const translated = overlay.levels?.[i];
+    if (!translated) return missing.push(`${at}: no translation`);
+    gap(translated.theme, `${at} theme`);
+    gap(translated.lesson, `${at} lesson`);
+    level.pairs.forEach((pair, j) => {
+      const t = translated.pairs?.[j] ?? {};
+      gap(t.term, `${at} pair ${j + 1} term`);
+      gap(t.definition, `${at} pair ${j + 1} definition`);
+      if (pair.example) gap(t.example, `${at} pair ${j + 1} example`);
+    });
+    (level.questions ?? []).forEach((question, j) => {
+      const t = translated.questions?.[j] ?? {};
+      gap(t.prompt, `${at} question ${j + 1} prompt`);
+      gap(t.explanation, `${at} question ${j + 1} explanation`);
+      question.options?.forEach((_, k) => gap(t.options?.[k], `${at} question ${j + 1} option ${k + 1}`));
+    });
+  });
+  return missing;
+}
+
+const source = read(join(LOCALES_DIR, `${SOURCE}.json`));
+const locales = readdirSync(LOCALES_DIR)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => file.slice(0, -".json".length))
+  .filter((locale) => locale !== SOURCE)
+  .sort();
+const packs = readdirSync(LEVELS_DIR)
+  .filter((file) => /^[\w-]+\.json$/.test(file))
+  .map((file) => read(join(LEVELS_DIR, file)));
+
+const report = {};
+for (const locale of locales) {
+  const levels = packs.flatMap((pack) => {
+    const path = join(LEVELS_DIR, `${pack.id}.${locale}.json`);
+    return checkLevels(pack, existsSync(path) ? read(path) : null);
+  });
+  report[locale] = { strings: checkStrings(locale, source, read(join(LOCALES_DIR, `${locale}.json`))), levels };
+}
+
+writeFileSync(OUTPUT, `${JSON.stringify(report, null, 2)}\n`);
+
+let gaps = 0;
+for (const [locale, { strings, levels }] of Object.entries(report)) {
+  const counts = [
+    [strings.missing.length, "missing strings"],
+    [strings.stale.length, "stale strings"],
+    [strings.plurals.length, "incomplete plurals"],
+    [strings.placeholders.length, "placeholder mismatches"],
+    [levels.length, "level translation gaps"],
+  ].filter(([n]) => n > 0);
+  gaps += counts.reduce((sum, [n]) => sum + n, 0);
+  console.log(`${locale}: ${counts.length ? counts.map(([n, what]) => `${n} ${what}`).join(", ") : "complete"}`);
+}
+console.log(`Full report in ${OUTPUT}.`);
+
+if (values.strict && gaps > 0) process.exit(1);
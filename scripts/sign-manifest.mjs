@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+// Signs the manifest's accountAssociation for a domain with a Farcaster custody key.
+//
+//   FARCASTER_CUSTODY_MNEMONIC="..." npm run sign-manifest -- --fid 123 --domain game.example.com
+//
+// The key is read from FARCASTER_CUSTODY_MNEMONIC (the account's recovery phrase) or
+// FARCASTER_CUSTODY_KEY (a 0x private key), never from the command line, so it stays out of shell
+// history. The domain defaults to the host of NEXT_PUBLIC_URL. Prints the environment variables
+// minikit.config.ts reads; `lib/manifest.ts` checks them at build time.
+import { parseArgs } from "node:util";
+import { mnemonicToAccount, privateKeyToAccount } from "viem/accounts";
+import { hexToBytes } from "viem";
+
+const usage = "usage: npm run sign-manifest -- --fid <fid> [--domain <domain>]";
+
+function fail(message) {
+  console.error(`sign-manifest: ${message}\n${usage}`);
+  process.exit(1);
+}
+
+const { values } = parseArgs({ options: { fid: { type: "string" }, domain: { type: "string" } } });
+
+const fid = Number(values.fid);
+if (!Number.isInteger(fid) || fid < 1) fail("--fid must be the FID that owns the custody key");
+
+const domain = values.domain ?? (process.env.NEXT_PUBLIC_URL && new URL(process.env.NEXT_PUBLIC_URL).hostname);
+if (!domain) fail("--domain is required when NEXT_PUBLIC_URL is not set");
+if (/[/:]/.test(domain)) fail(`--domain takes a bare host name like game.example.com, not "${domain}"`);
+
+const { FARCASTER_CUSTODY_MNEMONIC: mnemonic, FARCASTER_CUSTODY_KEY: privateKey } = process.env;
+let account;
+try {
+  if (mnemonic) account = mnemonicToAccount(mnemonic.trim());
+  else if (privateKey) account = privateKeyToAccount(privateKey.trim());
+  else fail("set FARCASTER_CUSTODY_MNEMONIC or FARCASTER_CUSTODY_KEY");
+} catch (error) {
+  fail(`the custody key could not be read: ${error.message}`);
+}
+
+// A JSON Farcaster Signature: base64url JSON header and payload, signed together with EIP-191.
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const header = encode({ fid, type: "custody", key: account.address });
+const payload = encode({ domain });
+const signature = Buffer.from(hexToBytes(await account.signMessage({ message: `${header}.${payload}` }))).toString("base64url");
+
+console.error(`Signed ${domain} for FID ${fid} with custody address ${account.address}.`);
+console.log(`FARCASTER_ACCOUNT_HEADER=${header}`);
+console.log(`FARCASTER_ACCOUNT_PAYLOAD=${payload}`);
+console.log(`FARCASTER_ACCOUNT_SIGNATURE=${signature}`);
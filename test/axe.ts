@@ -0,0 +1,11 @@
+import axe from "axe-core";
+
+/**
+ * Runs axe over rendered markup and lists what it flags, one line per rule with the offending
+ * elements, so a failing `toEqual([])` says what to fix. jsdom doesn't lay out or paint, so colour
+ * contrast can't be measured here.
+ */
+export async function axeViolations(container: Element): Promise<string[]> {
+  const { violations } = await axe.run(container, { rules: { "color-contrast": { enabled: false } } });
+  return violations.map((v) => `${v.id}: ${v.nodes.map((n) => n.target.join(" ")).join(", ")}`);
+}
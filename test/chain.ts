@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import ganache from "ganache";
+import solc from "solc";
+import { createTestClient, custom, publicActions, walletActions, type Abi, type Hex } from "viem";
+import { foundry } from "viem/chains";
+
+/** A throwaway in-process chain with funded accounts, driven through a viem test client. */
+export function localChain() {
+  const provider = ganache.provider({
+    logging: { quiet: true },
+    chain: { chainId: foundry.id },
+    miner: { defaultTransactionGasLimit: "estimate" },
+  });
+  const client = createTestClient({ mode: "ganache", chain: foundry, transport: custom(provider) })
+    .extend(publicActions)
+    .extend(walletActions);
+  return { client, close: () => provider.disconnect() };
+}
+
+/** Compiles a contract from `test/contracts`, for a chain without the newest opcodes. */
+export function compileContract(name: string): { abi: Abi; bytecode: Hex } {
+  const source = readFileSync(new URL(`./contracts/${name}.sol`, import.meta.url), "utf8");
+  const output = JSON.parse(
+    solc.compile(
+      JSON.stringify({
+        language: "Solidity",
+        sources: { [`${name}.sol`]: { content: source } },
+        settings: { evmVersion: "paris", outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } } },
+      }),
+    ),
+  );
+  const errors = (output.errors ?? []).filter((e: { severity: string }) => e.severity === "error");
+  if (errors.length > 0) throw new Error(errors.map((e: { formattedMessage: string }) => e.formattedMessage).join("\n"));
+  const contract = output.contracts[`${name}.sol`][name];
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// The part of the game contract the client calls, for tests: a level fee and the completion event.
+contract GameContract {
+    uint256 public immutable levelFee;
+
+    event LevelCompleted(address indexed player, uint256 indexed level, bytes32 scoreHash);
+
+    constructor(uint256 fee) {
+        levelFee = fee;
+    }
+
+    function completeLevel(uint256 level, bytes32 scoreHash) external payable {
+        require(msg.value == levelFee, "wrong fee");
+        emit LevelCompleted(msg.sender, level, scoreHash);
+    }
+}
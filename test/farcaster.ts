@@ -0,0 +1,66 @@
+import { generateKeyPairSync, sign } from "crypto";
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** A client's Ed25519 app key, signing webhook events the way Farcaster clients do. */
+export function appKey() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const key = `0x${Buffer.from(publicKey.export({ format: "jwk" }).x!, "base64url").toString("hex")}`;
+  return {
+    key,
+    signEvent(fid: number, event: object) {
+      const header = encode({ fid, type: "app_key", key });
+      const payload = encode(event);
+      const signature = sign(null, Buffer.from(`${header}.${payload}`), privateKey).toString("base64url");
+      return { header, payload, signature };
+    },
+  };
+}
+
+type SignerEventType = "ADD" | "REMOVE" | "ADMIN_RESET";
+
+/** A hub's onchain signer event for `key`, as `onChainSignersByFid` lists them. */
+export const signerEvent = (key: string, type: SignerEventType, blockNumber: number, logIndex = 0) => ({
+  blockNumber,
+  logIndex,
+  signerEventBody: { key, eventType: `SIGNER_EVENT_TYPE_${type}` },
+});
+
+interface SentNotification {
+  url: string;
+  notificationId: string;
+  title: string;
+  body: string;
+  tokens: string[];
+}
+
+/**
+ * Stands in for the network: a hub answering `onChainSignersByFid` from `signers`, and clients'
+ * notification endpoints that record what they are sent and report the tokens in `invalidTokens`
+ * or `rateLimitedTokens`. Install `fetch` with `vi.stubGlobal`.
+ */
+export function fakeFarcaster() {
+  const signers = new Map<number, ReturnType<typeof signerEvent>[]>();
+  const invalidTokens = new Set<string>();
+  const rateLimitedTokens = new Set<string>();
+  const sent: SentNotification[] = [];
+
+  const fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname === "/v1/onChainSignersByFid") {
+      return Response.json({ events: signers.get(Number(url.searchParams.get("fid"))) ?? [] });
+    }
+    const notification = JSON.parse(String(init?.body)) as Omit<SentNotification, "url">;
+    sent.push({ url: url.href, ...notification });
+    const { tokens } = notification;
+    return Response.json({
+      result: {
+        successfulTokens: tokens.filter((t) => !invalidTokens.has(t) && !rateLimitedTokens.has(t)),
+        invalidTokens: tokens.filter((t) => invalidTokens.has(t)),
+        rateLimitedTokens: tokens.filter((t) => rateLimitedTokens.has(t)),
+      },
+    });
+  };
+
+  return { fetch, signers, invalidTokens, rateLimitedTokens, sent };
+}
@@ -0,0 +1,29 @@
+import type { Difficulty } from "@/lib/difficulty";
+import { createGameState, currentQuestion, reduce, type GameAction, type GameState } from "@/lib/engine";
+import type { RunSubmission } from "@/lib/scores";
+
+export const SEED = "testseed";
+
+/** Plays a level perfectly, failing the quiz `failures` times first. */
+export function playRun(level: number, failures = 0, seed = SEED, difficulty: Difficulty = "normal"): RunSubmission {
+  const run: RunSubmission = { seed, level, difficulty, hints: 3, score: 0, actions: [] };
+  let state = reduce(createGameState({ level, hints: run.hints, difficulty: run.difficulty }), { type: "deal", seed }).state;
+  const play = (action: GameAction) => {
+    run.actions.push(action);
+    state = reduce(state, action).state;
+  };
+  const clearBoard = (board: GameState) => {
+    if (board.phase === "preview") play({ type: "endPreview" });
+    const order = [...board.cards.keys()].sort((a, b) => board.cards[a].pairId - board.cards[b].pairId);
+    order.forEach((index) => play({ type: "flip", index }));
+  };
+
+  for (let i = 0; i < failures; i++) {
+    clearBoard(state);
+    const { answer, options } = currentQuestion(state);
+    play({ type: "answerQuiz", option: (answer + 1) % options.length });
+  }
+  clearBoard(state);
+  play({ type: "answerQuiz", option: currentQuestion(state).answer });
+  return run;
+}
@@ -0,0 +1,16 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig keeps JSX for Next to compile; component tests need it compiled here.
+  esbuild: { jsx: "automatic" },
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["**/*.test.{ts,tsx}"],
+    exclude: ["node_modules/**", ".next/**"],
+    // Server modules keep their records in process memory while tests run.
+    env: { STORAGE_ADAPTER: "memory" },
+  },
+});